@@ -0,0 +1,56 @@
+import type { BackendKind, EvolutionConfig } from "../config.js";
+import { FixtureBackend, RecordingBackend } from "./backends/cassette.js";
+import { ClaudeCliBackend } from "./backends/claude-cli.js";
+import { MessagesApiBackend } from "./backends/messages-api.js";
+import type { StepType } from "./models.js";
+
+/** What a call is for; part of the cassette key and file name. */
+export type RequestStepType = StepType | "reconcile";
+
+export interface ModelRequest {
+	stepType: RequestStepType;
+	systemPrompt: string;
+	userPrompt: string;
+	model: string;
+	workingDirectory: string;
+	alliumSkillsPath: string;
+	maxTurns: number;
+	jsonSchema: Record<string, unknown>;
+	/** Context file paths relative to `workingDirectory`, as listed in the prompt manifest. */
+	contextFiles: string[];
+	/** Continue this session; `userPrompt` then holds only the follow-up message. Set for the CLI backend only. */
+	resumeSessionId?: string;
+}
+
+export interface ModelBackend {
+	readonly kind: BackendKind;
+	/**
+	 * Run one request and return a Claude CLI style result envelope, so every
+	 * backend goes through the same `parseClaudeResponse` validation.
+	 */
+	invoke(request: ModelRequest): Promise<string>;
+}
+
+export function createBackend(config: EvolutionConfig): ModelBackend {
+	const { recordDir } = config.backend;
+	const backend = createBaseBackend(config);
+	return recordDir ? new RecordingBackend(backend, recordDir) : backend;
+}
+
+function createBaseBackend(config: EvolutionConfig): ModelBackend {
+	const { backend } = config;
+
+	switch (backend.kind) {
+		case "cli":
+			return new ClaudeCliBackend();
+		case "api":
+			return new MessagesApiBackend(backend.apiBaseUrl, process.env.ANTHROPIC_API_KEY, config.modelPrices);
+		case "fixture":
+			if (!backend.fixtureDir) {
+				throw new Error("The fixture backend requires a cassette directory (--replay)");
+			}
+			return new FixtureBackend(backend.fixtureDir);
+		default:
+			throw new Error(`Unknown model backend: ${backend.kind}`);
+	}
+}
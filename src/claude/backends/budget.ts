@@ -0,0 +1,122 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { EvolutionConfig } from "../../config.js";
+import { predictCallCost, predictRequestCost } from "../../evolution/estimator.js";
+import { GracefulShutdownError, type ShutdownSignal } from "../../shutdown.js";
+import type { CompletedStep } from "../../state/types.js";
+import { estimateTokens } from "../../utils/tokens.js";
+import type { ModelBackend, ModelRequest } from "../backend.js";
+import { envelopeCostUsd } from "../parser.js";
+import type { ModelPrice } from "../pricing.js";
+
+/** Recent calls per model that the next call's cost is predicted from. */
+const SAMPLE_SIZE = 10;
+
+/**
+ * Enforces `maxCostUsd` across every model call. Before a call, the predicted
+ * cost (the average of the model's last calls, or before there are any, the
+ * estimator's prediction from the size of the request's prompts and context
+ * files) is reserved on top of what was spent and what calls in flight have
+ * reserved. If that would pass the budget, the call is not made:
+ * a graceful shutdown is requested instead, so running steps finish, state is
+ * saved, and the run can be resumed with a higher budget.
+ */
+export class BudgetedBackend implements ModelBackend {
+	readonly kind: ModelBackend["kind"];
+	private spentUsd: number;
+	private reservedUsd = 0;
+	private readonly samples = new Map<string, number[]>();
+
+	constructor(
+		private readonly inner: ModelBackend,
+		private readonly opts: { maxCostUsd: number; spentUsd: number; prices: ModelPrice[]; shutdownSignal: ShutdownSignal },
+	) {
+		this.kind = inner.kind;
+		this.spentUsd = opts.spentUsd;
+	}
+
+	async invoke(request: ModelRequest): Promise<string> {
+		const predicted = await this.predict(request);
+		const committed = this.spentUsd + this.reservedUsd;
+		if (committed + predicted > this.opts.maxCostUsd) {
+			this.opts.shutdownSignal.request(
+				`Cost budget reached: $${committed.toFixed(4)} spent or in flight, next ${request.stepType} call on ${request.model} is estimated at $${predicted.toFixed(4)}, budget is $${this.opts.maxCostUsd.toFixed(2)}`,
+				"budget",
+			);
+			this.opts.shutdownSignal.assertContinue();
+		}
+
+		this.reservedUsd += predicted;
+		try {
+			const envelope = await this.inner.invoke(request);
+			const cost = envelopeCostUsd(envelope);
+			this.spentUsd += cost;
+			const samples = this.samples.get(request.model) ?? [];
+			samples.push(cost);
+			this.samples.set(request.model, samples.slice(-SAMPLE_SIZE));
+			return envelope;
+		} finally {
+			this.reservedUsd -= predicted;
+		}
+	}
+
+	private async predict(request: ModelRequest): Promise<number> {
+		const samples = this.samples.get(request.model);
+		if (!samples || samples.length === 0) {
+			return predictRequestCost(request.model, await requestTokens(request), this.opts.prices) ?? 0;
+		}
+		return samples.reduce((sum, cost) => sum + cost, 0) / samples.length;
+	}
+}
+
+/** Tokens a request sends: both prompts and every context file it lists. */
+async function requestTokens(request: ModelRequest): Promise<number> {
+	const files = await Promise.all(
+		request.contextFiles.map((path) => readFile(join(request.workingDirectory, path), "utf-8").catch(() => "")),
+	);
+	return estimateTokens([request.systemPrompt, request.userPrompt, ...files].join("\n"));
+}
+
+/** Flag (and log) a step whose cost went past `maxStepCostUsd`; the step itself is kept. */
+export function flagCostCeiling(step: CompletedStep, config: EvolutionConfig): void {
+	if (config.maxStepCostUsd === undefined || step.costUsd <= config.maxStepCostUsd) {
+		return;
+	}
+	step.overCostCeiling = true;
+	console.error(
+		`[allium-evolve] Step ${step.originalSha.slice(0, 8)} cost $${step.costUsd.toFixed(4)}, over the $${config.maxStepCostUsd.toFixed(2)} per-step ceiling`,
+	);
+}
+
+/**
+ * Stop the run before a step that would take its segment past
+ * `maxSegmentCostUsd`. The step is predicted at the average of the segment's
+ * earlier paid steps, or before there are any, by the estimator from its diff.
+ */
+export function assertSegmentCeiling(opts: {
+	segmentId: string;
+	steps: CompletedStep[];
+	model: string;
+	diffTokens: number;
+	config: EvolutionConfig;
+	shutdownSignal?: ShutdownSignal;
+}): void {
+	const { config } = opts;
+	if (config.maxSegmentCostUsd === undefined) {
+		return;
+	}
+	const spent = opts.steps.reduce((sum, step) => sum + step.costUsd, 0);
+	const paid = opts.steps.filter((step) => step.costUsd > 0).slice(-SAMPLE_SIZE);
+	const predicted =
+		paid.length > 0
+			? paid.reduce((sum, step) => sum + step.costUsd, 0) / paid.length
+			: (predictCallCost(opts.model, opts.diffTokens, config.modelPrices) ?? 0);
+	if (spent + predicted <= config.maxSegmentCostUsd) {
+		return;
+	}
+	opts.shutdownSignal?.request(
+		`Segment cost ceiling reached: ${opts.segmentId} has spent $${spent.toFixed(4)}, next step on ${opts.model} is estimated at $${predicted.toFixed(4)}, ceiling is $${config.maxSegmentCostUsd.toFixed(2)}`,
+		"budget",
+	);
+	throw new GracefulShutdownError();
+}
@@ -0,0 +1,177 @@
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { diffLines } from "../../utils/line-diff.js";
+import type { ModelBackend, ModelRequest } from "../backend.js";
+
+/** `writeContextFiles` puts each call's files in a random directory; strip it so keys are stable. */
+const CONTEXT_DIR_PATTERN = /\.allium-tmp\/[0-9a-f]+\//g;
+
+/** One recorded call: everything that went into the key, plus the raw envelope that came back. */
+export interface Cassette {
+	key: string;
+	stepType: string;
+	model: string;
+	systemPrompt: string;
+	userPrompt: string;
+	/** Context file name (relative to its `.allium-tmp/<id>/` directory) → contents. */
+	contextFiles: Record<string, string>;
+	envelope: string;
+}
+
+function normalizeContextPaths(text: string): string {
+	return text.replace(CONTEXT_DIR_PATTERN, ".allium-tmp/<ctx>/");
+}
+
+async function readRequestInputs(request: ModelRequest): Promise<Omit<Cassette, "key" | "envelope">> {
+	const contextFiles: Record<string, string> = {};
+	for (const path of request.contextFiles) {
+		const name = normalizeContextPaths(path).replace(".allium-tmp/<ctx>/", "");
+		contextFiles[name] = await readFile(join(request.workingDirectory, path), "utf-8");
+	}
+	return {
+		stepType: request.stepType,
+		model: request.model,
+		systemPrompt: normalizeContextPaths(request.systemPrompt),
+		userPrompt: normalizeContextPaths(request.userPrompt),
+		contextFiles,
+	};
+}
+
+function cassetteKey(inputs: Omit<Cassette, "key" | "envelope">, jsonSchema: Record<string, unknown>): string {
+	const hash = createHash("sha256");
+	for (const part of [inputs.stepType, inputs.model, inputs.systemPrompt, inputs.userPrompt, JSON.stringify(jsonSchema)]) {
+		hash.update(part);
+		hash.update("\0");
+	}
+	for (const name of Object.keys(inputs.contextFiles).sort()) {
+		hash.update(name);
+		hash.update("\0");
+		hash.update(inputs.contextFiles[name]!);
+		hash.update("\0");
+	}
+	return hash.digest("hex").slice(0, 16);
+}
+
+/**
+ * Stable key for a request: step type, model, the filled prompt template, the
+ * response schema and the contents of every context file.
+ */
+export async function fingerprintRequest(request: ModelRequest): Promise<string> {
+	return cassetteKey(await readRequestInputs(request), request.jsonSchema);
+}
+
+function cassetteFileName(cassette: Pick<Cassette, "key" | "stepType">): string {
+	return `${cassette.stepType}-${cassette.key}.json`;
+}
+
+/** Rough distance between two recordings: lines present in one but not the other. */
+function distance(a: Omit<Cassette, "key" | "envelope">, b: Omit<Cassette, "key" | "envelope">): number {
+	const lines = (c: Omit<Cassette, "key" | "envelope">) =>
+		[c.systemPrompt, c.userPrompt, ...Object.entries(c.contextFiles).map(([name, content]) => `${name}\n${content}`)]
+			.join("\n")
+			.split("\n");
+	const counts = new Map<string, number>();
+	for (const line of lines(a)) counts.set(line, (counts.get(line) ?? 0) + 1);
+	let unmatched = 0;
+	for (const line of lines(b)) {
+		const count = counts.get(line) ?? 0;
+		if (count > 0) {
+			counts.set(line, count - 1);
+		} else {
+			unmatched++;
+		}
+	}
+	return unmatched + [...counts.values()].reduce((sum, n) => sum + n, 0);
+}
+
+function describeChanges(recorded: Cassette, current: Omit<Cassette, "key" | "envelope">): string {
+	const sections: string[] = [];
+	const add = (label: string, before: string | undefined, after: string | undefined) => {
+		if (before === undefined) {
+			sections.push(`@@ ${label} (new file)`);
+		} else if (after === undefined) {
+			sections.push(`@@ ${label} (no longer written)`);
+		} else {
+			const diff = diffLines(before, after);
+			if (diff) sections.push(`@@ ${label}\n${diff}`);
+		}
+	};
+	if (recorded.model !== current.model) {
+		sections.push(`@@ model: ${recorded.model} → ${current.model}`);
+	}
+	add("system prompt", recorded.systemPrompt, current.systemPrompt);
+	add("user prompt", recorded.userPrompt, current.userPrompt);
+	const names = new Set([...Object.keys(recorded.contextFiles), ...Object.keys(current.contextFiles)]);
+	for (const name of [...names].sort()) {
+		add(name, recorded.contextFiles[name], current.contextFiles[name]);
+	}
+	return sections.length > 0 ? sections.join("\n") : "(only the response schema differs)";
+}
+
+/** Delegates to another backend and writes every call to `<dir>/<stepType>-<key>.json`. */
+export class RecordingBackend implements ModelBackend {
+	readonly kind: ModelBackend["kind"];
+
+	constructor(
+		private readonly inner: ModelBackend,
+		private readonly dir: string,
+	) {
+		this.kind = inner.kind;
+	}
+
+	async invoke(request: ModelRequest): Promise<string> {
+		const envelope = await this.inner.invoke(request);
+		const inputs = await readRequestInputs(request);
+		const cassette: Cassette = { key: cassetteKey(inputs, request.jsonSchema), ...inputs, envelope };
+		await mkdir(this.dir, { recursive: true });
+		await writeFile(join(this.dir, cassetteFileName(cassette)), `${JSON.stringify(cassette, null, 2)}\n`, "utf-8");
+		return envelope;
+	}
+}
+
+/**
+ * Replays cassettes recorded by `RecordingBackend`; never touches the network.
+ * A miss names the closest recording and shows what changed since it.
+ */
+export class FixtureBackend implements ModelBackend {
+	readonly kind = "fixture" as const;
+
+	constructor(private readonly dir: string) {}
+
+	async invoke(request: ModelRequest): Promise<string> {
+		const inputs = await readRequestInputs(request);
+		const key = cassetteKey(inputs, request.jsonSchema);
+		const fileName = cassetteFileName({ key, stepType: request.stepType });
+		try {
+			const cassette = JSON.parse(await readFile(join(this.dir, fileName), "utf-8")) as Cassette;
+			return cassette.envelope;
+		} catch (err) {
+			if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+				throw err;
+			}
+		}
+
+		const header = `No cassette for ${request.stepType} call (model ${request.model}): expected ${join(this.dir, fileName)}`;
+		const closest = await this.findClosest(inputs);
+		if (!closest) {
+			throw new Error(`${header}. No recordings for this step type in ${this.dir}.`);
+		}
+		throw new Error(
+			`${header}.\nClosest recording: ${cassetteFileName(closest)}. Changes since it was recorded:\n${describeChanges(closest, inputs)}`,
+		);
+	}
+
+	private async findClosest(inputs: Omit<Cassette, "key" | "envelope">): Promise<Cassette | null> {
+		const files = await readdir(this.dir).catch(() => [] as string[]);
+		let best: { cassette: Cassette; distance: number } | null = null;
+		for (const file of files.filter((f) => f.startsWith(`${inputs.stepType}-`) && f.endsWith(".json"))) {
+			const cassette = JSON.parse(await readFile(join(this.dir, file), "utf-8")) as Cassette;
+			const d = distance(cassette, inputs);
+			if (!best || d < best.distance) {
+				best = { cassette, distance: d };
+			}
+		}
+		return best?.cassette ?? null;
+	}
+}
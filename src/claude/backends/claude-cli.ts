@@ -0,0 +1,47 @@
+import { randomBytes } from "node:crypto";
+import { unlink, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { exec } from "../../utils/exec.js";
+import type { ModelBackend, ModelRequest } from "../backend.js";
+
+function buildClaudeCommand(request: ModelRequest): string {
+	const args = [
+		"claude",
+		"-p",
+		`--model ${request.model}`,
+		"--output-format json",
+		`--max-turns ${request.maxTurns}`,
+		`--json-schema '${JSON.stringify(request.jsonSchema)}'`,
+		"--dangerously-skip-permissions",
+		`--add-dir "${request.workingDirectory}"`,
+		`--add-dir "${request.alliumSkillsPath}"`,
+	];
+	if (request.resumeSessionId) {
+		args.push(`--resume "${request.resumeSessionId}"`);
+	}
+	return args.join(" ");
+}
+
+/**
+ * Shells out to `claude -p`. Claude reads the context files and the Allium
+ * skills itself, so the request's `contextFiles` are only referenced by path.
+ */
+export class ClaudeCliBackend implements ModelBackend {
+	readonly kind = "cli" as const;
+
+	async invoke(request: ModelRequest): Promise<string> {
+		const command = buildClaudeCommand(request);
+		// A resumed session already holds the system prompt and context.
+		const prompt = request.resumeSessionId ? request.userPrompt : `${request.systemPrompt}\n\n${request.userPrompt}`;
+
+		const tmpFile = join(tmpdir(), `allium-prompt-${randomBytes(8).toString("hex")}.txt`);
+		await writeFile(tmpFile, prompt, "utf-8");
+		try {
+			const { stdout } = await exec(`${command} < "${tmpFile}"`, { cwd: request.workingDirectory });
+			return stdout;
+		} finally {
+			await unlink(tmpFile).catch(() => {});
+		}
+	}
+}
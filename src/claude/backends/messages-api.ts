@@ -0,0 +1,107 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { ModelBackend, ModelRequest } from "../backend.js";
+import { DEFAULT_MODEL_PRICES, type ModelPrice, tokenCostUsd } from "../pricing.js";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+const DEFAULT_BASE_URL = "https://api.anthropic.com";
+const MAX_OUTPUT_TOKENS = 32000;
+const RESULT_TOOL = "submit_result";
+
+/** The CLI accepts short aliases; the Messages API needs full model IDs. */
+const MODEL_ALIASES: Record<string, string> = {
+	opus: "claude-opus-4-1",
+	sonnet: "claude-sonnet-4-5",
+	haiku: "claude-haiku-4-5",
+};
+
+interface MessagesResponse {
+	id: string;
+	content: Array<{ type: string; name?: string; input?: unknown; text?: string }>;
+	usage?: { input_tokens: number; output_tokens: number };
+}
+
+export function resolveApiModel(model: string): string {
+	return MODEL_ALIASES[model] ?? model;
+}
+
+function estimateCostUsd(model: string, usage: MessagesResponse["usage"], prices: ModelPrice[]): number {
+	if (!usage) {
+		return 0;
+	}
+	return tokenCostUsd(model, { inputTokens: usage.input_tokens, outputTokens: usage.output_tokens }, prices) ?? 0;
+}
+
+/**
+ * Calls the Anthropic Messages API directly. There is no tool loop, so the
+ * context files are inlined into the user message, and structured output is
+ * forced through a single tool whose input schema is the response schema.
+ */
+export class MessagesApiBackend implements ModelBackend {
+	readonly kind = "api" as const;
+	private readonly baseUrl: string;
+
+	constructor(
+		baseUrl: string,
+		private readonly apiKey: string | undefined,
+		private readonly prices: ModelPrice[] = DEFAULT_MODEL_PRICES,
+	) {
+		this.baseUrl = baseUrl.replace(/\/+$/, "");
+		if (!apiKey && this.baseUrl === DEFAULT_BASE_URL) {
+			throw new Error("The api backend requires ANTHROPIC_API_KEY to be set");
+		}
+	}
+
+	async invoke(request: ModelRequest): Promise<string> {
+		const model = resolveApiModel(request.model);
+		const files = await Promise.all(
+			request.contextFiles.map(async (path) => {
+				const content = await readFile(join(request.workingDirectory, path), "utf-8");
+				return `<context-file path="${path}">\n${content}\n</context-file>`;
+			}),
+		);
+
+		const startedAt = Date.now();
+		const response = await fetch(`${this.baseUrl}/v1/messages`, {
+			method: "POST",
+			headers: {
+				"content-type": "application/json",
+				"anthropic-version": ANTHROPIC_VERSION,
+				...(this.apiKey ? { "x-api-key": this.apiKey } : {}),
+			},
+			body: JSON.stringify({
+				model,
+				max_tokens: MAX_OUTPUT_TOKENS,
+				system: request.systemPrompt,
+				messages: [{ role: "user", content: [...files, request.userPrompt].join("\n\n") }],
+				tools: [
+					{
+						name: RESULT_TOOL,
+						description: "Submit the final result.",
+						input_schema: request.jsonSchema,
+					},
+				],
+				tool_choice: { type: "tool", name: RESULT_TOOL },
+			}),
+		});
+
+		if (!response.ok) {
+			const body = await response.text();
+			throw new Error(`Messages API request failed (${response.status}): ${body.slice(0, 200)}`);
+		}
+
+		const message = (await response.json()) as MessagesResponse;
+		const toolUse = message.content.find((block) => block.type === "tool_use" && block.name === RESULT_TOOL);
+
+		return JSON.stringify({
+			type: "result",
+			subtype: toolUse ? "success" : "error_no_tool_use",
+			is_error: !toolUse,
+			duration_ms: Date.now() - startedAt,
+			result: toolUse ? "" : message.content.map((block) => block.text ?? "").join(""),
+			...(toolUse ? { structured_output: toolUse.input } : {}),
+			session_id: message.id,
+			total_cost_usd: estimateCostUsd(model, message.usage, this.prices),
+		});
+	}
+}
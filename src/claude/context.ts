@@ -1,4 +1,5 @@
 import type { CommitNode } from "../dag/types.js";
+import type { CommitDiff } from "../evolution/diff-chunker.js";
 import type { WindowState } from "../evolution/window.js";
 import { getContextShas, getFullDiffShas } from "../evolution/window.js";
 import { getDiff } from "../git/diff.js";
@@ -9,6 +10,8 @@ export interface AssembledContext {
 	prevSpec: string;
 	contextCommits: string;
 	fullDiffs: string;
+	/** The raw diffs behind `fullDiffs`, oldest first, for chunking. */
+	commitDiffs: CommitDiff[];
 	totalDiffTokens: number;
 	changedPaths: string[];
 }
@@ -43,6 +46,7 @@ export async function assembleContext(opts: {
 
 	const fullDiffShas = getFullDiffShas(windowState);
 	const diffLines: string[] = [];
+	const commitDiffs: CommitDiff[] = [];
 	const allChangedPaths: string[] = [];
 	for (const sha of fullDiffShas) {
 		const node = dag.get(sha);
@@ -50,6 +54,7 @@ export async function assembleContext(opts: {
 		const parentSha = node?.parents[0] ?? null;
 		const diff = await getDiff(repoPath, parentSha, sha);
 		diffLines.push(`### ${sha.slice(0, 8)} — ${message}\n\`\`\`diff\n${diff}\n\`\`\``);
+		commitDiffs.push({ sha, message, diff });
 		allChangedPaths.push(...extractChangedPaths(diff));
 	}
 	const fullDiffs = diffLines.join("\n");
@@ -60,6 +65,7 @@ export async function assembleContext(opts: {
 		prevSpec,
 		contextCommits,
 		fullDiffs,
+		commitDiffs,
 		totalDiffTokens,
 		changedPaths: allChangedPaths,
 	};
@@ -81,5 +87,32 @@ export function assembleModuleSpec(specStore: SpecStore, changedPaths: string[])
 		}
 	}
 
+	const otherModules = [...specStore.getAllModules().keys()].filter((path) => !modules.has(path));
+	if (otherModules.length > 0) {
+		parts.push("\n## Other Modules (not shown)\n");
+		for (const modulePath of otherModules) {
+			parts.push(`- ${modulePath}`);
+		}
+	}
+
+	return parts.join("\n");
+}
+
+/** Every module, for steps that reason about the whole spec (merges, reconciliation, recombine). */
+export function assembleFullSpec(specStore: SpecStore): string {
+	const parts: string[] = [];
+	parts.push("## Master Specification\n");
+	parts.push(specStore.getMasterSpec());
+
+	const modules = specStore.getAllModules();
+	if (modules.size > 0) {
+		parts.push("\n## Module Specifications\n");
+		for (const [modulePath, content] of modules) {
+			parts.push(`### Module: ${modulePath}\n`);
+			parts.push(content);
+			parts.push("");
+		}
+	}
+
 	return parts.join("\n");
 }
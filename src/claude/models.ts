@@ -1,6 +1,11 @@
-import type { EvolutionConfig } from "../config.js";
+import type { EvolutionConfig, ModelRule } from "../config.js";
+import type { Segment } from "../dag/types.js";
+import { matchesPathPattern } from "../evolution/non-domain.js";
 
-export type StepType = "initial-commit" | "evolve" | "merge" | "chunk-recombine";
+export type StepType = "initial-commit" | "evolve" | "merge" | "sync" | "chunk-recombine";
+
+const STEP_TYPES: StepType[] = ["initial-commit", "evolve", "merge", "sync", "chunk-recombine"];
+const SEGMENT_TYPES: Segment["type"][] = ["trunk", "branch", "dead-end"];
 
 export function getModelForStep(stepType: StepType, config: EvolutionConfig): string {
 	switch (stepType) {
@@ -10,7 +15,96 @@ export function getModelForStep(stepType: StepType, config: EvolutionConfig): st
 			return config.defaultModel;
 		case "merge":
 			return config.opusModel;
+		case "sync":
+			return config.defaultModel;
 		case "chunk-recombine":
 			return config.defaultModel;
 	}
 }
+
+/** What the routing policy knows about a step. Rules on facts left unset never match. */
+export interface RoutingInput {
+	stepType: StepType;
+	/** Diff tokens after ignored and non-domain files are dropped. */
+	diffTokens?: number;
+	/** Changed paths, likewise without ignored and non-domain files. */
+	changedPaths?: string[];
+	messages?: string[];
+	segmentType?: Segment["type"];
+}
+
+export interface ModelRoute {
+	model: string;
+	maxTurns?: number;
+	/** Name of the matching rule; unset when the step fell through to `getModelForStep`. */
+	rule?: string;
+}
+
+/** Pick the model for a step: the first rule in `config.modelRules` that matches, else the step type's default. */
+export function routeModel(input: RoutingInput, config: EvolutionConfig): ModelRoute {
+	const rule = config.modelRules.find((candidate) => ruleMatches(candidate, input));
+	if (!rule) {
+		return { model: getModelForStep(input.stepType, config) };
+	}
+	return { model: rule.model, maxTurns: rule.maxTurns, rule: rule.name };
+}
+
+function ruleMatches(rule: ModelRule, input: RoutingInput): boolean {
+	if (rule.stepTypes && !rule.stepTypes.includes(input.stepType)) {
+		return false;
+	}
+	if (rule.segmentTypes && (!input.segmentType || !rule.segmentTypes.includes(input.segmentType))) {
+		return false;
+	}
+	if (rule.minDiffTokens !== undefined || rule.maxDiffTokens !== undefined) {
+		if (input.diffTokens === undefined) {
+			return false;
+		}
+		if (input.diffTokens < (rule.minDiffTokens ?? 0) || input.diffTokens > (rule.maxDiffTokens ?? Infinity)) {
+			return false;
+		}
+	}
+	if (rule.paths) {
+		const paths = input.changedPaths ?? [];
+		if (!paths.some((path) => rule.paths!.some((pattern) => matchesPathPattern(pattern, path)))) {
+			return false;
+		}
+	}
+	if (rule.messagePattern !== undefined) {
+		const pattern = new RegExp(rule.messagePattern);
+		if (!(input.messages ?? []).some((message) => pattern.test(message))) {
+			return false;
+		}
+	}
+	return true;
+}
+
+/** Validate a routing policy read from JSON, naming the offending rule in errors. */
+export function parseModelRules(value: unknown): ModelRule[] {
+	if (!Array.isArray(value)) {
+		throw new Error("Model rules must be a JSON array of rules");
+	}
+	return value.map((raw, i) => {
+		const rule = raw as Partial<ModelRule>;
+		const label = typeof rule?.name === "string" ? `'${rule.name}'` : `#${i + 1}`;
+		if (typeof rule !== "object" || rule === null || typeof rule.name !== "string" || typeof rule.model !== "string") {
+			throw new Error(`Model rule ${label} needs a string "name" and "model"`);
+		}
+		const unknownStep = rule.stepTypes?.find((stepType) => !STEP_TYPES.includes(stepType));
+		if (unknownStep !== undefined) {
+			throw new Error(`Model rule ${label} has unknown step type '${unknownStep}'`);
+		}
+		const unknownSegment = rule.segmentTypes?.find((segmentType) => !SEGMENT_TYPES.includes(segmentType));
+		if (unknownSegment !== undefined) {
+			throw new Error(`Model rule ${label} has unknown segment type '${unknownSegment}'`);
+		}
+		if (rule.messagePattern !== undefined) {
+			try {
+				new RegExp(rule.messagePattern);
+			} catch (err) {
+				throw new Error(`Model rule ${label} has an invalid messagePattern: ${(err as Error).message}`);
+			}
+		}
+		return rule as ModelRule;
+	});
+}
@@ -1,3 +1,7 @@
+import { AlliumSyntaxError } from "../spec/allium/errors.js";
+import { parseAllium } from "../spec/allium/parser.js";
+import { validateModulePath } from "../spec/store.js";
+
 export interface ClaudeResponseEnvelope {
 	type: string;
 	subtype: string;
@@ -10,14 +14,49 @@ export interface ClaudeResponseEnvelope {
 	session_id: string;
 }
 
+export const FINDING_KINDS = [
+	"missing-entity",
+	"stale-rule",
+	"contradictory-invariant",
+	"unverifiable-claim",
+] as const;
+
+export const FINDING_SEVERITIES = ["low", "medium", "high"] as const;
+
+export interface FindingEvidence {
+	file: string;
+	line?: number;
+}
+
+export interface ReconciliationFinding {
+	kind: (typeof FINDING_KINDS)[number];
+	severity: (typeof FINDING_SEVERITIES)[number];
+	/** Where in the spec the finding applies, e.g. `entity Payment` or `rule RefundWindow`. */
+	specLocation: string;
+	evidence: FindingEvidence[];
+	description: string;
+	suggestedFix: string;
+}
+
 export interface ParsedClaudeResponse {
 	spec: string;
 	changelog: string;
 	commitMessage: string;
+	/** Modular mode only: module path (e.g. `packages/billing.allium`) → full module spec, `""` to remove. */
+	modules?: Record<string, string>;
+	findings?: ReconciliationFinding[];
 	costUsd: number;
 	sessionId: string;
 }
 
+type InnerResult = {
+	spec: string;
+	changelog: string;
+	commitMessage: string;
+	modules?: Record<string, string>;
+	findings?: ReconciliationFinding[];
+};
+
 function parseEnvelope(rawOutput: string): ClaudeResponseEnvelope {
 	let envelope: unknown;
 	try {
@@ -47,16 +86,28 @@ function parseInnerJson<T>(resultStr: string): T {
 	}
 }
 
+/** What a call was billed, read from its envelope even when the response itself is unusable; 0 without one. */
+export function envelopeCostUsd(rawOutput: string): number {
+	try {
+		const envelope = JSON.parse(rawOutput) as { total_cost_usd?: number; cost_usd?: number };
+		return envelope.total_cost_usd ?? envelope.cost_usd ?? 0;
+	} catch {
+		return 0;
+	}
+}
+
 export function parseClaudeResponse(rawOutput: string): ParsedClaudeResponse {
 	const envelope = parseEnvelope(rawOutput);
 	const inner = envelope.structured_output
-		? (envelope.structured_output as { spec: string; changelog: string; commitMessage: string })
-		: parseInnerJson<{ spec: string; changelog: string; commitMessage: string }>(envelope.result);
+		? (envelope.structured_output as InnerResult)
+		: parseInnerJson<InnerResult>(envelope.result);
 
 	return {
 		spec: inner.spec,
 		changelog: inner.changelog,
 		commitMessage: inner.commitMessage,
+		modules: inner.modules,
+		findings: inner.findings,
 		costUsd: envelope.total_cost_usd ?? envelope.cost_usd ?? 0,
 		sessionId: envelope.session_id,
 	};
@@ -77,6 +128,111 @@ export function validateResponse(parsed: ParsedClaudeResponse): {
 	if (!parsed.commitMessage) {
 		errors.push("commitMessage must not be empty");
 	}
+	for (const { label, error } of findSyntaxErrors(parsed)) {
+		errors.push(`${label} does not parse: ${error.message}`);
+	}
+
+	return { valid: errors.length === 0, errors };
+}
+
+/** The master spec and each non-empty module that `parseAllium` rejects. */
+export function findSyntaxErrors(parsed: ParsedClaudeResponse): { label: string; error: AlliumSyntaxError }[] {
+	const modules = typeof parsed.modules === "object" && parsed.modules !== null ? parsed.modules : {};
+	const sources: [string, unknown][] = [
+		["spec", parsed.spec],
+		...Object.entries(modules).map(([modulePath, content]): [string, unknown] => [
+			`modules["${modulePath}"]`,
+			content,
+		]),
+	];
+	const found: { label: string; error: AlliumSyntaxError }[] = [];
+	for (const [label, source] of sources) {
+		if (typeof source !== "string" || !source) {
+			continue;
+		}
+		try {
+			parseAllium(source);
+		} catch (err) {
+			if (!(err instanceof AlliumSyntaxError)) {
+				throw err;
+			}
+			found.push({ label, error: err });
+		}
+	}
+	return found;
+}
+
+export function validateModules(modules: unknown): {
+	valid: boolean;
+	errors: string[];
+} {
+	const errors: string[] = [];
+
+	if (typeof modules !== "object" || modules === null || Array.isArray(modules)) {
+		errors.push("modules must be an object");
+		return { valid: false, errors };
+	}
+
+	for (const [modulePath, content] of Object.entries(modules)) {
+		if (typeof content !== "string") {
+			errors.push(`modules["${modulePath}"] must be a string`);
+		}
+		if (modulePath === "_master.allium") {
+			errors.push('modules must not contain "_master.allium" — return the master spec as spec');
+			continue;
+		}
+		try {
+			validateModulePath(modulePath);
+		} catch (err) {
+			errors.push((err as Error).message);
+		}
+	}
+
+	return { valid: errors.length === 0, errors };
+}
+
+export function validateFindings(findings: unknown): {
+	valid: boolean;
+	errors: string[];
+} {
+	const errors: string[] = [];
+
+	if (!Array.isArray(findings)) {
+		errors.push("findings must be an array");
+		return { valid: false, errors };
+	}
+
+	findings.forEach((raw, i) => {
+		const finding = raw as Partial<Record<keyof ReconciliationFinding, unknown>>;
+		if (typeof finding !== "object" || finding === null) {
+			errors.push(`findings[${i}] must be an object`);
+			return;
+		}
+		if (!FINDING_KINDS.includes(finding.kind as ReconciliationFinding["kind"])) {
+			errors.push(`findings[${i}].kind must be one of ${FINDING_KINDS.join(", ")}`);
+		}
+		if (!FINDING_SEVERITIES.includes(finding.severity as ReconciliationFinding["severity"])) {
+			errors.push(`findings[${i}].severity must be one of ${FINDING_SEVERITIES.join(", ")}`);
+		}
+		for (const field of ["specLocation", "description", "suggestedFix"] as const) {
+			if (typeof finding[field] !== "string" || !finding[field]) {
+				errors.push(`findings[${i}].${field} must not be empty`);
+			}
+		}
+		if (!Array.isArray(finding.evidence)) {
+			errors.push(`findings[${i}].evidence must be an array`);
+		} else {
+			finding.evidence.forEach((ev: unknown, j: number) => {
+				const evidence = ev as Partial<FindingEvidence> | null;
+				if (!evidence || typeof evidence.file !== "string" || !evidence.file) {
+					errors.push(`findings[${i}].evidence[${j}].file must not be empty`);
+				}
+				if (evidence?.line !== undefined && (!Number.isInteger(evidence.line) || evidence.line < 1)) {
+					errors.push(`findings[${i}].evidence[${j}].line must be a positive integer`);
+				}
+			});
+		}
+	});
 
 	return { valid: errors.length === 0, errors };
 }
@@ -0,0 +1,54 @@
+/** USD per million tokens for every model whose name contains `family`. */
+export interface ModelPrice {
+	family: string;
+	inputPerMTok: number;
+	outputPerMTok: number;
+}
+
+export interface TokenUsage {
+	inputTokens: number;
+	outputTokens: number;
+}
+
+export const DEFAULT_MODEL_PRICES: ModelPrice[] = [
+	{ family: "opus", inputPerMTok: 15, outputPerMTok: 75 },
+	{ family: "sonnet", inputPerMTok: 3, outputPerMTok: 15 },
+	{ family: "haiku", inputPerMTok: 1, outputPerMTok: 5 },
+];
+
+/** First entry whose family occurs in the model name, so aliases and full IDs share a price. */
+export function findModelPrice(model: string, prices: ModelPrice[]): ModelPrice | undefined {
+	return prices.find((price) => model.includes(price.family));
+}
+
+/** Cost of a call from its token usage; `undefined` when the model has no price. */
+export function tokenCostUsd(model: string, usage: TokenUsage, prices: ModelPrice[]): number | undefined {
+	const price = findModelPrice(model, prices);
+	if (!price) {
+		return undefined;
+	}
+	return (usage.inputTokens * price.inputPerMTok + usage.outputTokens * price.outputPerMTok) / 1_000_000;
+}
+
+/** Validate a price table read from JSON, naming the offending entry in errors. */
+export function parseModelPrices(value: unknown): ModelPrice[] {
+	if (!Array.isArray(value)) {
+		throw new Error("Model prices must be a JSON array of { family, inputPerMTok, outputPerMTok }");
+	}
+	return value.map((raw, i) => {
+		const price = raw as Partial<ModelPrice>;
+		const label = typeof price?.family === "string" ? `'${price.family}'` : `#${i + 1}`;
+		if (
+			typeof price !== "object" ||
+			price === null ||
+			typeof price.family !== "string" ||
+			typeof price.inputPerMTok !== "number" ||
+			typeof price.outputPerMTok !== "number" ||
+			price.inputPerMTok < 0 ||
+			price.outputPerMTok < 0
+		) {
+			throw new Error(`Model price ${label} needs a string "family" and non-negative "inputPerMTok" and "outputPerMTok"`);
+		}
+		return price as ModelPrice;
+	});
+}
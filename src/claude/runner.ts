@@ -1,19 +1,41 @@
 import { randomBytes } from "node:crypto";
-import { mkdir, readdir, rm, stat, unlink, writeFile } from "node:fs/promises";
+import { mkdir, readdir, rm, stat, writeFile } from "node:fs/promises";
 import { join } from "node:path";
-import { tmpdir } from "node:os";
-import { exec } from "../utils/exec.js";
-import { parseClaudeResponse, validateResponse } from "./parser.js";
+import type { EventBus } from "../events.js";
+import { GracefulShutdownError } from "../shutdown.js";
+import type { ModelBackend, RequestStepType } from "./backend.js";
+import {
+	FINDING_KINDS,
+	FINDING_SEVERITIES,
+	type ParsedClaudeResponse,
+	type ReconciliationFinding,
+	envelopeCostUsd,
+	findSyntaxErrors,
+	parseClaudeResponse,
+	validateFindings,
+	validateModules,
+	validateResponse,
+} from "./parser.js";
+
+export type { ReconciliationFinding } from "./parser.js";
 
 export interface ClaudeResult {
 	spec: string;
 	changelog: string;
 	commitMessage: string;
+	/** Only present when invoked with `modular: true`. */
+	modules?: Record<string, string>;
+	/** Only present when invoked with `outputSchema: "reconcile"`. */
+	findings?: ReconciliationFinding[];
 	sessionId: string;
 	costUsd: number;
 }
 
+export type ClaudeOutputSchema = "evolve" | "reconcile";
+
 export interface InvokeClaudeOpts {
+	backend: ModelBackend;
+	stepType: RequestStepType;
 	systemPrompt: string;
 	userPrompt: string;
 	model: string;
@@ -21,9 +43,21 @@ export interface InvokeClaudeOpts {
 	alliumSkillsPath: string;
 	maxRetries?: number;
 	maxTurns?: number;
+	outputSchema?: ClaudeOutputSchema;
+	/** Ask for per-module updates (`modules`) alongside the master spec. */
+	modular?: boolean;
+	/** Manifest from `writeContextFiles`, for backends that cannot read the working directory. */
+	contextFiles?: string[];
+	/**
+	 * After a rejected response, continue the same session with just the
+	 * rejection feedback instead of resending the full prompt. Only the CLI
+	 * backend can resume; other backends get the full prompt plus feedback.
+	 */
+	resumeSession?: boolean;
+	events?: EventBus;
 }
 
-const EVOLVE_JSON_SCHEMA = JSON.stringify({
+const EVOLVE_JSON_SCHEMA = {
 	type: "object",
 	properties: {
 		spec: { type: "string", description: "The updated Allium specification" },
@@ -31,37 +65,68 @@ const EVOLVE_JSON_SCHEMA = JSON.stringify({
 		commitMessage: { type: "string", description: "Commit message describing domain model changes" },
 	},
 	required: ["spec", "changelog", "commitMessage"],
-});
-
-function buildClaudeCommand(opts: InvokeClaudeOpts, jsonSchema: string): string {
-	const maxTurns = opts.maxTurns ?? 75;
-	const args = [
-		"claude",
-		"-p",
-		`--model ${opts.model}`,
-		"--output-format json",
-		`--max-turns ${maxTurns}`,
-		`--json-schema '${jsonSchema}'`,
-		"--dangerously-skip-permissions",
-		`--add-dir "${opts.workingDirectory}"`,
-		`--add-dir "${opts.alliumSkillsPath}"`,
-	];
-	return args.join(" ");
-}
+};
 
-async function invokeClaudeWithTempFile(
-	command: string,
-	prompt: string,
-	cwd: string,
-): Promise<string> {
-	const tmpFile = join(tmpdir(), `allium-prompt-${randomBytes(8).toString("hex")}.txt`);
-	await writeFile(tmpFile, prompt, "utf-8");
-	try {
-		const { stdout } = await exec(`${command} < "${tmpFile}"`, { cwd });
-		return stdout;
-	} finally {
-		await unlink(tmpFile).catch(() => {});
+const RECONCILE_JSON_SCHEMA = {
+	type: "object",
+	properties: {
+		spec: { type: "string", description: "The complete reconciled Allium specification" },
+		changelog: { type: "string", description: "Changelog entry for this reconciliation" },
+		commitMessage: { type: "string", description: "Commit message summarizing the reconciliation" },
+		findings: {
+			type: "array",
+			description: "Drift between the spec and the source, one entry per issue",
+			items: {
+				type: "object",
+				properties: {
+					kind: { type: "string", enum: [...FINDING_KINDS] },
+					severity: { type: "string", enum: [...FINDING_SEVERITIES] },
+					specLocation: {
+						type: "string",
+						description: "Spec element the finding applies to, e.g. entity Payment or rule RefundWindow",
+					},
+					evidence: {
+						type: "array",
+						items: {
+							type: "object",
+							properties: {
+								file: { type: "string", description: "Source file path relative to the repository root" },
+								line: { type: "integer", minimum: 1 },
+							},
+							required: ["file"],
+						},
+					},
+					description: { type: "string", description: "What is wrong and why" },
+					suggestedFix: { type: "string", description: "How the spec should change" },
+				},
+				required: ["kind", "severity", "specLocation", "evidence", "description", "suggestedFix"],
+			},
+		},
+	},
+	required: ["spec", "changelog", "commitMessage", "findings"],
+};
+
+const MODULES_PROPERTY = {
+	type: "object",
+	description:
+		"Modules you changed, keyed by module path (e.g. packages/billing.allium), each with its full updated content. Use an empty string to remove a module. Omit unchanged modules.",
+	additionalProperties: { type: "string" },
+};
+
+function buildJsonSchema(outputSchema: ClaudeOutputSchema, modular: boolean): Record<string, unknown> {
+	const base = outputSchema === "reconcile" ? RECONCILE_JSON_SCHEMA : EVOLVE_JSON_SCHEMA;
+	if (!modular) {
+		return base;
 	}
+	return {
+		...base,
+		properties: {
+			...base.properties,
+			spec: { type: "string", description: "The updated master specification (cross-cutting concerns)" },
+			modules: MODULES_PROPERTY,
+		},
+		required: [...base.required, "modules"],
+	};
 }
 
 export interface ContextFilesResult {
@@ -117,38 +182,172 @@ export function formatManifest(manifest: string[]): string {
 	return manifest.map((f) => `- \`${f}\``).join("\n");
 }
 
+/** Longest slice of a rejected response quoted back to the model. */
+const MAX_REJECTED_EXCERPT_CHARS = 1500;
+
+/** A response that came back but was unusable; the next attempt is told why. It was billed all the same. */
+class RejectedResponseError extends Error {
+	constructor(
+		message: string,
+		readonly reasons: string[],
+		readonly excerpt: string,
+		readonly costUsd: number,
+		readonly sessionId?: string,
+	) {
+		super(message);
+		this.name = "RejectedResponseError";
+	}
+}
+
+/** Every attempt of a step failed; `costUsd` is what the rejected responses among them were billed. */
+export class InvocationFailedError extends Error {
+	constructor(
+		message: string,
+		readonly costUsd: number,
+	) {
+		super(message);
+		this.name = "InvocationFailedError";
+	}
+}
+
+/** What a failed `invokeClaudeForStep` call was billed, for callers that record spend on failure. */
+export function failedCallCost(err: unknown): number {
+	return err instanceof InvocationFailedError ? err.costUsd : 0;
+}
+
+/** The section appended to the prompt of the attempt after a rejection. */
+export function formatRejectionFeedback(reasons: string[], excerpt: string): string {
+	const lines = [
+		"## Your previous response was rejected",
+		"",
+		"Your previous response could not be used because:",
+		"",
+		...reasons.map((reason) => `- ${reason}`),
+	];
+	if (excerpt) {
+		lines.push("", "Relevant part of the rejected response:", "", "```text", excerpt, "```");
+	}
+	lines.push("", "Fix these problems and return the complete response again as JSON matching the schema.");
+	return lines.join("\n");
+}
+
+/** The model's own output from a raw envelope, falling back to the raw text when it is not JSON. */
+function rejectedOutput(stdout: string): string {
+	let output = stdout;
+	try {
+		const envelope = JSON.parse(stdout) as { result?: unknown };
+		output = typeof envelope.result === "string" && envelope.result ? envelope.result : stdout;
+	} catch {
+		// Not even an envelope; quote it as is.
+	}
+	return output.length > MAX_REJECTED_EXCERPT_CHARS ? `${output.slice(0, MAX_REJECTED_EXCERPT_CHARS)}\n…` : output;
+}
+
+function readResponse(stdout: string, opts: InvokeClaudeOpts): ClaudeResult {
+	const isReconcile = opts.outputSchema === "reconcile";
+	let parsed: ParsedClaudeResponse;
+	try {
+		parsed = parseClaudeResponse(stdout);
+	} catch (err) {
+		const message = (err as Error).message;
+		throw new RejectedResponseError(message, [message], rejectedOutput(stdout), envelopeCostUsd(stdout));
+	}
+
+	const validation = validateResponse(parsed);
+	const errors = [...validation.errors];
+	if (isReconcile) {
+		errors.push(...validateFindings(parsed.findings).errors);
+	}
+	if (opts.modular) {
+		errors.push(...validateModules(parsed.modules ?? {}).errors);
+	}
+
+	if (errors.length > 0) {
+		const excerpt = findSyntaxErrors(parsed)
+			.map(({ label, error }) => `${label}, ${error.message}\n${error.excerpt}`)
+			.join("\n\n");
+		throw new RejectedResponseError(
+			`Validation failed: ${errors.join(", ")}`,
+			errors,
+			excerpt,
+			parsed.costUsd,
+			parsed.sessionId,
+		);
+	}
+
+	const result: ClaudeResult = {
+		spec: parsed.spec,
+		changelog: parsed.changelog,
+		commitMessage: parsed.commitMessage,
+		sessionId: parsed.sessionId,
+		costUsd: parsed.costUsd,
+	};
+	if (isReconcile) {
+		result.findings = parsed.findings ?? [];
+	}
+	if (opts.modular) {
+		result.modules = parsed.modules ?? {};
+	}
+	return result;
+}
+
+/**
+ * Invoke the model and validate its response, retrying up to `maxRetries`
+ * times. After a rejected response the next attempt carries the reasons and
+ * an excerpt of what was rejected, so the model does not repeat the mistake.
+ * Rejected responses were paid for: their cost is added to the result, or
+ * carried on the `InvocationFailedError` when no attempt succeeds.
+ */
 export async function invokeClaudeForStep(opts: InvokeClaudeOpts): Promise<ClaudeResult> {
 	const maxRetries = opts.maxRetries ?? 2;
 	let lastError: Error | null = null;
+	let rejection: RejectedResponseError | null = null;
+	let rejectedCostUsd = 0;
 
 	for (let attempt = 0; attempt <= maxRetries; attempt++) {
 		try {
-			const command = buildClaudeCommand(opts, EVOLVE_JSON_SCHEMA);
-			const fullPrompt = `${opts.systemPrompt}\n\n${opts.userPrompt}`;
+			const feedback = rejection ? formatRejectionFeedback(rejection.reasons, rejection.excerpt) : undefined;
+			const resumeSessionId =
+				opts.resumeSession && opts.backend.kind === "cli" ? rejection?.sessionId : undefined;
+			const stdout = await opts.backend.invoke({
+				stepType: opts.stepType,
+				systemPrompt: opts.systemPrompt,
+				userPrompt: resumeSessionId ? feedback! : feedback ? `${opts.userPrompt}\n\n${feedback}` : opts.userPrompt,
+				model: opts.model,
+				workingDirectory: opts.workingDirectory,
+				alliumSkillsPath: opts.alliumSkillsPath,
+				maxTurns: opts.maxTurns ?? 75,
+				jsonSchema: buildJsonSchema(opts.outputSchema ?? "evolve", opts.modular ?? false),
+				contextFiles: opts.contextFiles ?? [],
+				...(resumeSessionId ? { resumeSessionId } : {}),
+			});
 
-			const stdout = await invokeClaudeWithTempFile(command, fullPrompt, opts.workingDirectory);
-
-			const parsed = parseClaudeResponse(stdout);
-			const validation = validateResponse(parsed);
-
-			if (!validation.valid) {
-				throw new Error(`Validation failed: ${validation.errors.join(", ")}`);
-			}
-
-			return {
-				spec: parsed.spec,
-				changelog: parsed.changelog,
-				commitMessage: parsed.commitMessage,
-				sessionId: parsed.sessionId,
-				costUsd: parsed.costUsd,
-			};
+			const result = readResponse(stdout, opts);
+			return { ...result, costUsd: result.costUsd + rejectedCostUsd };
 		} catch (err) {
+			if (err instanceof GracefulShutdownError) {
+				throw err;
+			}
+			if (err instanceof RejectedResponseError) {
+				rejection = err;
+				rejectedCostUsd += err.costUsd;
+			}
 			lastError = err instanceof Error ? err : new Error(String(err));
 			if (attempt < maxRetries) {
 				console.error(`Claude invocation attempt ${attempt + 1} failed, retrying: ${lastError.message}`);
+				opts.events?.emit({
+					type: "retry",
+					stepType: opts.stepType,
+					model: opts.model,
+					attempt: attempt + 1,
+					error: lastError.message,
+				});
 			}
 		}
 	}
 
-	throw new Error(`Claude invocation failed after ${maxRetries + 1} attempts: ${lastError?.message}`);
+	throw new InvocationFailedError(
+		`Claude invocation failed after ${maxRetries + 1} attempts: ${lastError?.message}`,
+		rejectedCostUsd,
+	);
 }
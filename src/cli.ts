@@ -1,9 +1,28 @@
 #!/usr/bin/env node --import tsx
-import { Command } from "commander";
+import { readFileSync } from "node:fs";
+import { Command, type OptionValues } from "commander";
+import { parseModelRules } from "./claude/models.js";
+import { parseModelPrices } from "./claude/pricing.js";
 import { defaultConfig, type EvolutionConfig } from "./config.js";
 import { computeSetupStats, formatSetupStats } from "./evolution/estimator.js";
-import { runEvolution, setupEvolution } from "./evolution/orchestrator.js";
+import { follow } from "./evolution/follow.js";
+import { collectCommitFacts } from "./evolution/commit-facts.js";
+import { runEvolution, setupEvolution, UpToDateError } from "./evolution/orchestrator.js";
+import { startDashboard } from "./dashboard.js";
+import { createNdjsonWriter, EventBus } from "./events.js";
+import { blameSpec, formatBlame } from "./history/blame.js";
+import { diffRevisions, formatSpecDiff, formatSpecDiffMarkdown } from "./history/diff.js";
+import { formatResolution } from "./history/resolve.js";
+import { checkoutRevision, formatSnapshot, showRevision } from "./history/show.js";
+import { buildTimeline, formatTimeline } from "./history/timeline.js";
+import { type RunStatus, type RunSummary, summarizeRun } from "./evolution/run-summary.js";
 import { GracefulShutdownError, ShutdownSignal } from "./shutdown.js";
+import { StateTracker } from "./state/tracker.js";
+
+/** Exit status when there were no new commits to process; 1 always means failure. */
+const EXIT_UP_TO_DATE = 3;
+/** Exit status when the run stopped at `--max-cost`; state is saved and resumable. */
+const EXIT_BUDGET_REACHED = 4;
 
 const program = new Command();
 
@@ -17,38 +36,52 @@ program
 	.option("--process-depth <n>", "Number of tail commits to get full diffs", "1")
 	.option("--model <model>", "Default Claude model", "sonnet")
 	.option("--opus-model <model>", "Opus Claude model for complex steps", "opus")
+	.option("--model-rules <file>", "JSON file with model routing rules, tried in order before the defaults")
+	.option("--model-prices <file>", "JSON file with per-model token prices for cost estimates and the api backend")
 	.option("--max-diff-tokens <n>", "Maximum diff tokens before chunking", "80000")
+	.option("--max-chunk-concurrency <n>", "Max parallel Claude calls for a chunked diff", "4")
+	.option("--max-cost <usd>", "Stop gracefully before the total cost recorded in the state file would pass <usd>")
+	.option("--max-step-cost <usd>", "Flag steps costing more than <usd> in the state file")
+	.option("--max-segment-cost <usd>", "Stop gracefully before a step would take its segment's cost past <usd>")
 	.option("--state-file <path>", "State file path", ".allium-state.json")
 	.option("--allium-branch <name>", "Allium branch name", "allium/evolution")
+	.option("--batch-max-tokens <n>", "Send consecutive small commits together while their filtered diffs total at most <n> tokens (0 disables)", "0")
+	.option("--batch-layout <layout>", "Allium commits for a batch: per-commit or single", "per-commit")
+	.option("--non-domain-paths <globs>", "Comma-separated globs for files that never change the spec (replaces the defaults)")
+	.option("--no-dag-cache", "Rebuild the commit DAG from git log instead of using the cache under .git/allium/")
+	.option("--modular-spec", "Write a modular spec tree under spec/ instead of a single spec.allium")
 	.option("--max-concurrency <n>", "Max parallel segment runners", "4")
 	.option("--max-parse-retries <n>", "Max retries for parser validation failures", "2")
+	.option(
+		"--regression-guard <mode>",
+		"When a step drops declarations without a changelog note: warn, retry, escalate (to --opus-model) or off",
+		"warn",
+	)
+	.option("--resume-session-on-retry", "Retry rejected responses in the same Claude session (cli backend)")
 	.option("--parallel-branches", "Enable parallel branch processing (default)", true)
 	.option("--no-parallel-branches", "Disable parallel branch processing")
 	.option("--allium-skills-path <path>", "Path to Allium skills directory")
 	.option("--reconciliation-strategy <strategy>", "Reconciliation strategy (none, n-commits, n-trunk-commits, token-count)", "n-trunk-commits")
 	.option("--reconciliation-interval <n>", "Reconciliation interval (commits or token threshold)", "50")
+	.option("--backend <kind>", "Model backend (cli, api, fixture)", "cli")
+	.option("--api-base-url <url>", "Messages API base URL for the api backend (default: $ANTHROPIC_BASE_URL or https://api.anthropic.com)")
+	.option("--record <dir>", "Record every model call as a cassette in <dir>")
+	.option("--replay <dir>", "Replay model calls from cassettes in <dir> (implies --backend fixture)")
 	.option("--setup-only", "Analyze repository and display cost/time estimates without processing")
+	.option("--output <format>", "Output for --setup-only and the run summary on stdout: text or json", "text")
+	.option("--events <file>", "Append progress events to <file> as NDJSON ('-' for stdout)")
+	.option("--dashboard", "Show live per-segment progress at the bottom of the terminal (plain logs when stderr is not a TTY)")
 	.action(async (opts) => {
-		const config: EvolutionConfig = defaultConfig({
-			repoPath: opts.repo,
-			targetRef: opts.ref,
-			autoConfirm: opts.yes ?? false,
-			windowSize: Number.parseInt(opts.windowSize, 10),
-			processDepth: Number.parseInt(opts.processDepth, 10),
-			defaultModel: opts.model,
-			opusModel: opts.opusModel,
-			maxDiffTokens: Number.parseInt(opts.maxDiffTokens, 10),
-			parallelBranches: opts.parallelBranches,
-			maxConcurrency: Number.parseInt(opts.maxConcurrency, 10),
-			maxParseRetries: Number.parseInt(opts.maxParseRetries, 10),
-			stateFile: opts.stateFile,
-			alliumBranch: opts.alliumBranch,
-			alliumSkillsPath: opts.alliumSkillsPath,
-			reconciliation: {
-				strategy: opts.reconciliationStrategy,
-				interval: Number.parseInt(opts.reconciliationInterval, 10),
-			},
-		});
+		const config = buildConfig(opts);
+		if (opts.output !== "text" && opts.output !== "json") {
+			console.error(`Unknown --output format '${opts.output}' (expected text or json)`);
+			process.exit(1);
+		}
+		const json = opts.output === "json";
+		if (json && opts.events === "-") {
+			console.error("--events - and --output json would both write to stdout; send events to a file");
+			process.exit(1);
+		}
 
 		if (opts.setupOnly) {
 			try {
@@ -59,34 +92,43 @@ program
 					setup.stateTracker,
 					config,
 					setup.isResume,
+					await collectCommitFacts(config, { withDiffTokens: true }),
 				);
-				console.log(formatSetupStats(stats));
+				console.log(json ? JSON.stringify({ resumeInfo: setup.resumeInfo, setupStats: stats }) : formatSetupStats(stats));
 				process.exit(0);
 			} catch (err) {
+				if (err instanceof UpToDateError) {
+					console.error(`[allium-evolve] ${err.message}`);
+					if (json) {
+						console.log(JSON.stringify(await summarizeFailedRun(config, err)));
+					}
+					process.exit(EXIT_UP_TO_DATE);
+				}
 				console.error("Setup failed:", err);
 				process.exit(1);
 			}
 		}
 
-		const shutdownSignal = new ShutdownSignal();
-		let forceExit = false;
-	process.on("SIGINT", () => {
-		if (forceExit) {
-			console.error("[allium-evolve] Force shutdown.");
-			process.exit(1);
-		}
-		console.error("[allium-evolve] Graceful shutdown requested. Press Ctrl+C again to force-quit.");
-		shutdownSignal.request();
-		forceExit = true;
-	});
+		const shutdownSignal = installShutdownHandler();
+		const { events, stopDashboard } = openEventStream(opts, shutdownSignal);
 
 		try {
-			await runEvolution(config, shutdownSignal);
+			const summary = await runEvolution(config, shutdownSignal, undefined, events);
+			stopDashboard();
+			if (json) {
+				console.log(JSON.stringify(summary));
+			}
 			process.exit(0);
 		} catch (err) {
+			stopDashboard();
+			if (json) {
+				console.log(JSON.stringify(await summarizeFailedRun(config, err, shutdownSignal)));
+			}
 			if (err instanceof GracefulShutdownError) {
-				console.error("[allium-evolve] Graceful shutdown complete. State saved — safe to resume.");
-				process.exit(0);
+				exitAfterShutdown(shutdownSignal);
+			} else if (err instanceof UpToDateError) {
+				console.error(`[allium-evolve] ${err.message}`);
+				process.exit(EXIT_UP_TO_DATE);
 			} else {
 				console.error("Evolution failed:", err);
 				process.exit(1);
@@ -94,4 +136,233 @@ program
 		}
 	});
 
+program
+	.command("follow")
+	.description("Keep the allium branch up to date with new commits on --ref")
+	.option("--interval <seconds>", "Seconds between polls of --ref", "60")
+	.option("--once", "Process new commits once and exit (e.g. from a post-receive hook)")
+	.action(async (followOpts) => {
+		const config = buildConfig(program.opts());
+		const shutdownSignal = installShutdownHandler();
+		const { events, stopDashboard } = openEventStream(program.opts(), shutdownSignal);
+
+		try {
+			const outcome = await follow(config, {
+				intervalSeconds: Number.parseInt(followOpts.interval, 10),
+				once: followOpts.once ?? false,
+				shutdownSignal,
+				events,
+			});
+			stopDashboard();
+			process.exit(followOpts.once && outcome === "up-to-date" ? EXIT_UP_TO_DATE : 0);
+		} catch (err) {
+			stopDashboard();
+			if (err instanceof GracefulShutdownError) {
+				exitAfterShutdown(shutdownSignal);
+			}
+			console.error("Follow failed:", err);
+			process.exit(1);
+		}
+	});
+
+program
+	.command("show")
+	.description("Print the spec and changelog entry for an original revision (SHA, tag, main~40, ...)")
+	.argument("<rev>", "Original revision; unprocessed commits use their nearest processed ancestor")
+	.action(async (rev: string) => {
+		const opts = program.opts();
+		try {
+			const snapshot = await showRevision(buildConfig(opts), rev);
+			console.error(formatResolution(snapshot));
+			console.log(opts.output === "json" ? JSON.stringify(snapshot) : formatSnapshot(snapshot));
+			process.exit(0);
+		} catch (err) {
+			console.error(`Show failed: ${err instanceof Error ? err.message : String(err)}`);
+			process.exit(1);
+		}
+	});
+
+program
+	.command("checkout")
+	.description("Write the spec files for an original revision to a directory")
+	.argument("<rev>", "Original revision; unprocessed commits use their nearest processed ancestor")
+	.requiredOption("--out <dir>", "Directory to write spec.allium or the spec/ tree into")
+	.action(async (rev: string, checkoutOpts) => {
+		try {
+			const { resolved, files } = await checkoutRevision(buildConfig(program.opts()), rev, checkoutOpts.out);
+			console.error(formatResolution(resolved));
+			console.error(`[allium-evolve] Wrote ${files.length} spec file(s) to ${checkoutOpts.out}`);
+			process.exit(0);
+		} catch (err) {
+			console.error(`Checkout failed: ${err instanceof Error ? err.message : String(err)}`);
+			process.exit(1);
+		}
+	});
+
+program
+	.command("diff")
+	.description("Compare the specs at two original revisions, with the changelog entries in between")
+	.argument("<rev-a>", "Older original revision")
+	.argument("<rev-b>", "Newer original revision")
+	.option("--format <format>", "text or markdown (release notes)", "text")
+	.action(async (revA: string, revB: string, diffOpts) => {
+		const opts = program.opts();
+		if (diffOpts.format !== "text" && diffOpts.format !== "markdown") {
+			console.error(`Unknown --format '${diffOpts.format}' (expected text or markdown)`);
+			process.exit(1);
+		}
+		try {
+			const diff = await diffRevisions(buildConfig(opts), revA, revB);
+			console.error(formatResolution(diff.from));
+			console.error(formatResolution(diff.to));
+			if (opts.output === "json") {
+				console.log(JSON.stringify(diff));
+			} else {
+				process.stdout.write(diffOpts.format === "markdown" ? formatSpecDiffMarkdown(diff) : formatSpecDiff(diff));
+			}
+			process.exit(0);
+		} catch (err) {
+			console.error(`Diff failed: ${err instanceof Error ? err.message : String(err)}`);
+			process.exit(1);
+		}
+	});
+
+program
+	.command("blame")
+	.description("Attribute each line of the spec on the allium branch to the source commit whose step wrote it")
+	.argument("[file]", "spec.allium, spec/_master.allium or a module under spec/ (default: the branch's spec)")
+	.option("--changelog", "Also show the changelog entries of each step")
+	.action(async (file: string | undefined, blameOpts) => {
+		const opts = program.opts();
+		try {
+			const blame = await blameSpec(buildConfig(opts), { file, withChangelog: blameOpts.changelog ?? false });
+			process.stdout.write(opts.output === "json" ? `${JSON.stringify(blame)}\n` : formatBlame(blame));
+			process.exit(0);
+		} catch (err) {
+			console.error(`Blame failed: ${err instanceof Error ? err.message : String(err)}`);
+			process.exit(1);
+		}
+	});
+
+program
+	.command("history")
+	.description("Markdown timeline of every step where an entity, rule or relationship appeared, changed or disappeared")
+	.argument("<name>", "Declared name, e.g. Subscription")
+	.action(async (name: string) => {
+		const opts = program.opts();
+		try {
+			const entries = await buildTimeline(buildConfig(opts), name);
+			process.stdout.write(opts.output === "json" ? `${JSON.stringify(entries)}\n` : formatTimeline(name, entries));
+			process.exit(0);
+		} catch (err) {
+			console.error(`History failed: ${err instanceof Error ? err.message : String(err)}`);
+			process.exit(1);
+		}
+	});
+
+function buildConfig(opts: OptionValues): EvolutionConfig {
+	return defaultConfig({
+		repoPath: opts.repo,
+		targetRef: opts.ref,
+		autoConfirm: opts.yes ?? false,
+		windowSize: Number.parseInt(opts.windowSize, 10),
+		processDepth: Number.parseInt(opts.processDepth, 10),
+		defaultModel: opts.model,
+		opusModel: opts.opusModel,
+		maxCostUsd: opts.maxCost !== undefined ? Number.parseFloat(opts.maxCost) : undefined,
+		maxStepCostUsd: opts.maxStepCost !== undefined ? Number.parseFloat(opts.maxStepCost) : undefined,
+		maxSegmentCostUsd: opts.maxSegmentCost !== undefined ? Number.parseFloat(opts.maxSegmentCost) : undefined,
+		modelRules: opts.modelRules ? parseModelRules(JSON.parse(readFileSync(opts.modelRules, "utf-8"))) : undefined,
+		modelPrices: opts.modelPrices ? parseModelPrices(JSON.parse(readFileSync(opts.modelPrices, "utf-8"))) : undefined,
+		maxDiffTokens: Number.parseInt(opts.maxDiffTokens, 10),
+		maxChunkConcurrency: Number.parseInt(opts.maxChunkConcurrency, 10),
+		batchMaxTokens: Number.parseInt(opts.batchMaxTokens, 10),
+		batchLayout: opts.batchLayout,
+		nonDomainPaths: opts.nonDomainPaths
+			? (opts.nonDomainPaths as string).split(",").map((glob) => glob.trim()).filter(Boolean)
+			: undefined,
+		parallelBranches: opts.parallelBranches,
+		maxConcurrency: Number.parseInt(opts.maxConcurrency, 10),
+		maxParseRetries: Number.parseInt(opts.maxParseRetries, 10),
+		resumeSessionOnRetry: opts.resumeSessionOnRetry ?? false,
+		regressionGuard: opts.regressionGuard,
+		stateFile: opts.stateFile,
+		dagCache: opts.dagCache,
+		alliumBranch: opts.alliumBranch,
+		modularSpec: opts.modularSpec ?? false,
+		alliumSkillsPath: opts.alliumSkillsPath,
+		reconciliation: {
+			strategy: opts.reconciliationStrategy,
+			interval: Number.parseInt(opts.reconciliationInterval, 10),
+		},
+		backend: {
+			kind: opts.replay ? "fixture" : opts.backend,
+			apiBaseUrl: opts.apiBaseUrl,
+			fixtureDir: opts.replay,
+			recordDir: opts.record,
+		},
+	});
+}
+
+/** Summary of a run that ended in an error, from what the state file recorded. */
+async function summarizeFailedRun(
+	config: EvolutionConfig,
+	err: unknown,
+	shutdownSignal?: ShutdownSignal,
+): Promise<RunSummary> {
+	const tracker = new StateTracker(config.stateFile);
+	const state = (await tracker.load()) ? tracker.getState() : undefined;
+	let status: RunStatus = "failed";
+	if (err instanceof GracefulShutdownError) {
+		status = shutdownSignal?.reason === "budget" ? "budget-reached" : "shutdown";
+	} else if (err instanceof UpToDateError) {
+		status = "up-to-date";
+	}
+	return summarizeRun(state, config.alliumBranch, status, status === "failed" ? { error: err instanceof Error ? err.message : String(err) } : {});
+}
+
+/**
+ * Event bus feeding the `--events` file and the `--dashboard`, or `undefined`
+ * when neither is on. NDJSON output is synchronous, so exiting loses nothing.
+ */
+function openEventStream(
+	opts: OptionValues,
+	shutdownSignal: ShutdownSignal,
+): { events?: EventBus; stopDashboard: () => void } {
+	if (opts.events === undefined && !opts.dashboard) {
+		return { stopDashboard: () => {} };
+	}
+	const events = new EventBus();
+	if (opts.events !== undefined) {
+		events.on(createNdjsonWriter(opts.events).listener);
+	}
+	const stopDashboard = opts.dashboard ? startDashboard({ events, shutdownSignal }) : () => {};
+	return { events, stopDashboard };
+}
+
+function exitAfterShutdown(shutdownSignal: ShutdownSignal): never {
+	if (shutdownSignal.reason === "budget") {
+		console.error("[allium-evolve] Stopped at the cost budget. State saved — raise --max-cost to resume.");
+		process.exit(EXIT_BUDGET_REACHED);
+	}
+	console.error("[allium-evolve] Graceful shutdown complete. State saved — safe to resume.");
+	process.exit(0);
+}
+
+/** First Ctrl+C finishes the current step(s) and saves state; a second one exits immediately. */
+function installShutdownHandler(): ShutdownSignal {
+	const shutdownSignal = new ShutdownSignal();
+	let forceExit = false;
+	process.on("SIGINT", () => {
+		if (forceExit) {
+			console.error("[allium-evolve] Force shutdown.");
+			process.exit(1);
+		}
+		console.error("[allium-evolve] Graceful shutdown requested. Press Ctrl+C again to force-quit.");
+		shutdownSignal.request();
+		forceExit = true;
+	});
+	return shutdownSignal;
+}
+
 program.parse();
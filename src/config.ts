@@ -1,5 +1,8 @@
 import { homedir } from "node:os";
 import { join, resolve } from "node:path";
+import type { StepType } from "./claude/models.js";
+import { DEFAULT_MODEL_PRICES, type ModelPrice } from "./claude/pricing.js";
+import type { Segment } from "./dag/types.js";
 
 export type ReconciliationStrategy = "none" | "n-commits" | "n-trunk-commits" | "token-count";
 
@@ -13,6 +16,48 @@ export interface ReconciliationConfig {
 	maxFileTokens?: number;
 }
 
+/**
+ * One entry of the model routing policy. A rule matches a step when every
+ * criterion it sets holds; the first matching rule picks the model.
+ */
+export interface ModelRule {
+	/** Recorded on the allium commit (`Rule:`) and in `CompletedStep.rule`. */
+	name: string;
+	model: string;
+	maxTurns?: number;
+	stepTypes?: StepType[];
+	/** Bounds (inclusive) on the step's diff tokens after ignored and non-domain files are dropped. */
+	minDiffTokens?: number;
+	maxDiffTokens?: number;
+	/** Globs as in `nonDomainPaths`; matches when any changed path matches any of them. */
+	paths?: string[];
+	/** Regular expression tested against the message of each commit in the step. */
+	messagePattern?: string;
+	segmentTypes?: Segment["type"][];
+}
+
+/** `per-commit` writes one allium commit per original commit of a batch; `single` writes one commit for the batch. */
+export type BatchLayout = "per-commit" | "single";
+
+export type BackendKind = "cli" | "api" | "fixture";
+
+/**
+ * What to do when a step or merge drops top-level declarations without its
+ * changelog reporting their removal: log it, retry once with the missing
+ * items listed, or retry once with `opusModel`. Flags are recorded either way.
+ */
+export type RegressionGuardMode = "off" | "warn" | "retry" | "escalate";
+
+export interface BackendConfig {
+	kind: BackendKind;
+	/** Messages API endpoint for the `api` backend; point it at a local mock server in CI. */
+	apiBaseUrl: string;
+	/** Cassette directory the `fixture` backend replays from. */
+	fixtureDir?: string;
+	/** When set, every call is also written to this directory as a cassette. */
+	recordDir?: string;
+}
+
 export interface EvolutionConfig {
 	repoPath: string;
 	targetRef: string;
@@ -21,18 +66,47 @@ export interface EvolutionConfig {
 	defaultModel: string;
 	opusModel: string;
 	maxDiffTokens: number;
+	maxChunkConcurrency: number;
 	parallelBranches: boolean;
 	maxConcurrency: number;
 	stateFile: string;
+	/** Persist the commit DAG under `.git/allium/` and extend it with new commits on later runs. */
+	dagCache: boolean;
 	alliumBranch: string;
+	/** Write the spec as `spec/_master.allium` plus per-module files instead of a single `spec.allium`. */
+	modularSpec: boolean;
 	maxParseRetries: number;
+	/** Retry a rejected response by resuming its Claude session with the feedback alone (cli backend). */
+	resumeSessionOnRetry: boolean;
+	regressionGuard: RegressionGuardMode;
 	diffIgnorePatterns: string[];
+	/** Path globs for docs, CI and other files that never carry domain changes; commits touching only these skip the model. */
+	nonDomainPaths: string[];
+	/** Send runs of consecutive commits whose filtered diffs total at most this many tokens in one step; `0` disables batching. */
+	batchMaxTokens: number;
+	batchLayout: BatchLayout;
+	/** Model routing policy, tried in order; steps no rule matches use `defaultModel` / `opusModel`. */
+	modelRules: ModelRule[];
+	/** Stop gracefully before a model call would take the recorded total cost past this (USD). */
+	maxCostUsd?: number;
+	/** Steps costing more than this (USD) are flagged with `overCostCeiling` in the state file. */
+	maxStepCostUsd?: number;
+	/** Stop gracefully before a step that would take its segment's cost (USD) past this. */
+	maxSegmentCostUsd?: number;
+	/** Token prices for cost estimates and the api backend, matched on the model family. */
+	modelPrices: ModelPrice[];
 	/** Defaults to `~/.claude/skills/allium` when constructed via `defaultConfig`. Must be set explicitly if constructing `EvolutionConfig` directly. */
 	alliumSkillsPath: string;
 	reconciliation: ReconciliationConfig;
+	backend: BackendConfig;
 	autoConfirm: boolean;
 }
 
+export type EvolutionConfigOverrides = Partial<Omit<EvolutionConfig, "reconciliation" | "backend">> & {
+	reconciliation?: Partial<ReconciliationConfig>;
+	backend?: Partial<BackendConfig>;
+};
+
 const DEFAULT_SOURCE_IGNORE_PATTERNS = [
 	"*.test.*",
 	"*.spec.*",
@@ -46,6 +120,17 @@ const DEFAULT_SOURCE_IGNORE_PATTERNS = [
 	"*.map",
 ];
 
+const DEFAULT_NON_DOMAIN_PATHS = [
+	"*.md",
+	"docs/**",
+	".github/**",
+	".circleci/**",
+	".gitlab-ci.yml",
+	".gitignore",
+	".editorconfig",
+	"LICENSE*",
+];
+
 function defaultReconciliationConfig(
 	overrides?: Partial<ReconciliationConfig>,
 ): ReconciliationConfig {
@@ -60,7 +145,16 @@ function defaultReconciliationConfig(
 	};
 }
 
-export function defaultConfig(overrides: Partial<EvolutionConfig> = {}): EvolutionConfig {
+function defaultBackendConfig(overrides?: Partial<BackendConfig>): BackendConfig {
+	return {
+		kind: overrides?.kind ?? "cli",
+		apiBaseUrl: overrides?.apiBaseUrl ?? process.env.ANTHROPIC_BASE_URL ?? "https://api.anthropic.com",
+		fixtureDir: overrides?.fixtureDir,
+		recordDir: overrides?.recordDir,
+	};
+}
+
+export function defaultConfig(overrides: EvolutionConfigOverrides = {}): EvolutionConfig {
 	return {
 		repoPath: resolve(overrides.repoPath ?? process.cwd()),
 		targetRef: overrides.targetRef ?? "HEAD",
@@ -69,14 +163,28 @@ export function defaultConfig(overrides: Partial<EvolutionConfig> = {}): Evoluti
 		defaultModel: overrides.defaultModel ?? "sonnet",
 		opusModel: overrides.opusModel ?? "opus",
 		maxDiffTokens: overrides.maxDiffTokens ?? 80000,
+		maxChunkConcurrency: overrides.maxChunkConcurrency ?? 4,
 		parallelBranches: overrides.parallelBranches ?? true,
 		maxConcurrency: overrides.maxConcurrency ?? 4,
 		stateFile: overrides.stateFile ?? ".allium-state.json",
+		dagCache: overrides.dagCache ?? true,
 		alliumBranch: overrides.alliumBranch ?? "allium/evolution",
+		modularSpec: overrides.modularSpec ?? false,
 		maxParseRetries: overrides.maxParseRetries ?? 2,
+		resumeSessionOnRetry: overrides.resumeSessionOnRetry ?? false,
+		regressionGuard: overrides.regressionGuard ?? "warn",
 		diffIgnorePatterns: overrides.diffIgnorePatterns ?? ["*-lock.*", "*.min.*", "*.generated.*"],
+		nonDomainPaths: overrides.nonDomainPaths ?? DEFAULT_NON_DOMAIN_PATHS,
+		batchMaxTokens: overrides.batchMaxTokens ?? 0,
+		batchLayout: overrides.batchLayout ?? "per-commit",
+		modelRules: overrides.modelRules ?? [],
+		maxCostUsd: overrides.maxCostUsd,
+		maxStepCostUsd: overrides.maxStepCostUsd,
+		maxSegmentCostUsd: overrides.maxSegmentCostUsd,
+		modelPrices: overrides.modelPrices ?? DEFAULT_MODEL_PRICES,
 		alliumSkillsPath: overrides.alliumSkillsPath ?? join(homedir(), ".claude", "skills", "allium"),
 		reconciliation: defaultReconciliationConfig(overrides.reconciliation),
+		backend: defaultBackendConfig(overrides.backend),
 		autoConfirm: overrides.autoConfirm ?? false,
 	};
 }
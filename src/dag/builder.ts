@@ -4,3 +4,35 @@ import type { CommitNode } from "./types.js";
 export async function buildDag(repoPath: string, targetRef?: string): Promise<Map<string, CommitNode>> {
 	return parseGitLog(repoPath, targetRef);
 }
+
+/**
+ * Add the commits reachable from `targetRef` but not from `knownTip` to a DAG
+ * built earlier, linking them to their existing parents. Trunk flags are
+ * cleared because the new tip decides the trunk; call `identifyTrunk` again.
+ * Returns the number of commits added.
+ */
+export async function extendDag(
+	dag: Map<string, CommitNode>,
+	repoPath: string,
+	targetRef: string,
+	knownTip: string,
+): Promise<number> {
+	const added = await parseGitLog(repoPath, `${targetRef} ^${knownTip}`);
+
+	for (const node of added.values()) {
+		dag.set(node.sha, node);
+	}
+	for (const node of added.values()) {
+		for (const parentSha of node.parents) {
+			const parent = dag.get(parentSha);
+			if (parent && !added.has(parentSha)) {
+				parent.children.push(node.sha);
+			}
+		}
+	}
+	for (const node of dag.values()) {
+		node.isTrunk = false;
+	}
+
+	return added.size;
+}
@@ -0,0 +1,95 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { isAncestor } from "../git/log.js";
+import { exec } from "../utils/exec.js";
+import { buildDag, extendDag } from "./builder.js";
+import type { CommitNode } from "./types.js";
+
+const CACHE_VERSION = 1;
+const CACHE_FILE = "dag-cache.json";
+
+interface DagCacheFile {
+	version: number;
+	/** The commit the cached DAG was built for; every cached commit is its ancestor. */
+	tip: string;
+	/** `[sha, parents, message, authorDate]`; children and trunk flags are rebuilt on load. */
+	commits: Array<[string, string[], string, string]>;
+}
+
+/** `<git-dir>/allium/dag-cache.json`, so the cache follows the repository rather than the state file. */
+export async function dagCachePath(repoPath: string): Promise<string> {
+	const { stdout } = await exec("git rev-parse --absolute-git-dir", { cwd: repoPath });
+	return join(stdout.trim(), "allium", CACHE_FILE);
+}
+
+/**
+ * Build the DAG for `targetRef`, reusing the cached DAG from an earlier run.
+ * If the cached tip is the current tip the cache is used as is; if it is an
+ * ancestor, only `git log <cachedTip>..<tip>` is read. Otherwise (history was
+ * rewritten, or the cache is missing or unreadable) the DAG is rebuilt in
+ * full. The cache is rewritten whenever the tip moved.
+ */
+export async function loadCachedDag(repoPath: string, targetRef: string): Promise<Map<string, CommitNode>> {
+	const { stdout } = await exec(`git rev-parse ${targetRef}`, { cwd: repoPath });
+	const tip = stdout.trim();
+	const cachePath = await dagCachePath(repoPath);
+	const cached = await readDagCache(cachePath);
+
+	if (cached?.tip === tip) {
+		console.error(`[allium-evolve] DAG cache hit at ${tip.slice(0, 8)} (${cached.dag.size} commits)`);
+		return cached.dag;
+	}
+
+	let dag: Map<string, CommitNode>;
+	if (cached && (await isAncestor(repoPath, cached.tip, tip))) {
+		const added = await extendDag(cached.dag, repoPath, tip, cached.tip);
+		console.error(`[allium-evolve] DAG cache extended from ${cached.tip.slice(0, 8)} with ${added} new commits`);
+		dag = cached.dag;
+	} else {
+		if (cached) {
+			console.error(
+				`[allium-evolve] Cached DAG tip ${cached.tip.slice(0, 8)} is not an ancestor of ${tip.slice(0, 8)} (history rewritten?); rebuilding`,
+			);
+		}
+		dag = await buildDag(repoPath, tip);
+	}
+
+	await writeDagCache(cachePath, tip, dag);
+	return dag;
+}
+
+async function readDagCache(cachePath: string): Promise<{ tip: string; dag: Map<string, CommitNode> } | null> {
+	let file: DagCacheFile;
+	try {
+		file = JSON.parse(await readFile(cachePath, "utf-8")) as DagCacheFile;
+	} catch {
+		return null;
+	}
+	if (file.version !== CACHE_VERSION || typeof file.tip !== "string" || !Array.isArray(file.commits)) {
+		return null;
+	}
+
+	const dag = new Map<string, CommitNode>();
+	for (const [sha, parents, message, authorDate] of file.commits) {
+		dag.set(sha, { sha, parents, children: [], message, authorDate, isTrunk: false });
+	}
+	for (const node of dag.values()) {
+		for (const parentSha of node.parents) {
+			dag.get(parentSha)?.children.push(node.sha);
+		}
+	}
+	return { tip: file.tip, dag };
+}
+
+/** Written to a temp file and renamed, so a concurrent or interrupted run never reads half a cache. */
+async function writeDagCache(cachePath: string, tip: string, dag: Map<string, CommitNode>): Promise<void> {
+	const file: DagCacheFile = {
+		version: CACHE_VERSION,
+		tip,
+		commits: [...dag.values()].map((node) => [node.sha, node.parents, node.message, node.authorDate]),
+	};
+	await mkdir(join(cachePath, ".."), { recursive: true });
+	const tmpPath = `${cachePath}.${process.pid}.tmp`;
+	await writeFile(tmpPath, JSON.stringify(file), "utf-8");
+	await rename(tmpPath, cachePath);
+}
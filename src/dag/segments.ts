@@ -3,6 +3,12 @@ import type { CommitNode, Segment } from "./types.js";
 /**
  * Decompose a trunk-annotated DAG into linear segments in topological order.
  *
+ * A commit continues its parent's segment only when it has a single parent
+ * that parent has no other children, and both are on the same side of the
+ * trunk. Every merge and every fork therefore starts new segments, so each
+ * segment's `dependsOn` entries end exactly at the commits it builds on —
+ * trunk, another branch, or all parents of an octopus merge.
+ *
  * Precondition: `identifyTrunk` has already been called on the DAG so that
  * every trunk commit has `isTrunk === true`.
  */
@@ -13,88 +19,94 @@ export function decompose(dag: Map<string, CommitNode>): Segment[] {
 	// ── 1. Build the ordered trunk path (root → tip) ───────────────────
 	const trunkPath = buildOrderedTrunkPath(dag);
 
-	// ── 2. Split the trunk into segments at merge commits ──────────────
+	// ── 2. Split the trunk into segments ───────────────────────────────
 	let trunkIndex = 0;
-	let currentCommits: string[] = [];
 
-	function flushTrunkSegment(): void {
-		if (currentCommits.length === 0) {
-			return;
+	for (const node of trunkPath) {
+		if (!startsSegment(node, dag)) {
+			continue;
 		}
-		const id = `trunk-${trunkIndex}`;
-		allSegments.push({
-			id,
-			type: "trunk",
-			commits: currentCommits,
-			forkFrom: null,
-			mergesInto: null,
-			dependsOn: [],
-		});
-		for (const s of currentCommits) {
+		const id = `trunk-${trunkIndex++}`;
+		const commits = traceChain(node.sha, dag);
+		allSegments.push({ id, type: "trunk", commits, forkFrom: null, mergesInto: null, dependsOn: [] });
+		for (const s of commits) {
 			shaToSegmentId.set(s, id);
 		}
-		trunkIndex++;
-		currentCommits = [];
-	}
-
-	for (const node of trunkPath) {
-		if (node.parents.length > 1 && currentCommits.length > 0) {
-			flushTrunkSegment();
-		}
-		currentCommits.push(node.sha);
 	}
-	flushTrunkSegment();
 
 	// ── 3. Discover branch / dead-end segments ─────────────────────────
+	// Depth-first from the trunk, so a branch is numbered before the
+	// branches that fork from it. Roots the trunk never reaches (unrelated
+	// histories merged in) are picked up afterwards. Sibling branches are
+	// visited newest first by author date, so numbering does not depend on
+	// whether the DAG came from a full `git log` or an extended cache.
 	let branchIndex = 0;
 	let deadEndIndex = 0;
 
-	for (const node of trunkPath) {
-		const nonTrunkChildren = node.children.filter((ch) => !dag.get(ch)?.isTrunk);
-
-		for (const childSha of nonTrunkChildren) {
-			const { commits, mergesInto } = traceBranch(childSha, dag);
-			const type = mergesInto ? "branch" : "dead-end";
-			const id = type === "branch" ? `branch-${branchIndex++}` : `dead-end-${deadEndIndex++}`;
-
-			allSegments.push({
-				id,
-				type,
-				commits,
-				forkFrom: node.sha,
-				mergesInto,
-				dependsOn: [],
-			});
-			for (const s of commits) {
-				shaToSegmentId.set(s, id);
+	function discoverFrom(commits: string[]): void {
+		for (const sha of commits) {
+			for (const childSha of newestFirst(dag.get(sha)?.children ?? [], dag)) {
+				const child = dag.get(childSha);
+				if (!child || shaToSegmentId.has(childSha) || !startsSegment(child, dag)) {
+					continue;
+				}
+				addBranchSegment(child);
 			}
 		}
 	}
 
-	// ── 4. Compute dependsOn edges ─────────────────────────────────────
+	function addBranchSegment(start: CommitNode): void {
+		const commits = traceChain(start.sha, dag);
+		const tip = dag.get(commits[commits.length - 1]!)!;
+		const type = tip.children.length > 0 ? "branch" : "dead-end";
+		const id = type === "branch" ? `branch-${branchIndex++}` : `dead-end-${deadEndIndex++}`;
+
+		allSegments.push({
+			id,
+			type,
+			commits,
+			forkFrom: start.parents[0] ?? null,
+			mergesInto: findMergeTarget(tip, dag),
+			dependsOn: [],
+		});
+		for (const s of commits) {
+			shaToSegmentId.set(s, id);
+		}
+		discoverFrom(commits);
+	}
+
+	discoverFrom(trunkPath.map((node) => node.sha));
+	for (const sha of newestFirst([...dag.keys()], dag).reverse()) {
+		const node = dag.get(sha)!;
+		if (!shaToSegmentId.has(sha) && startsSegment(node, dag)) {
+			addBranchSegment(node);
+		}
+	}
+
+	// ── 4. Compute dependsOn edges and merge points ────────────────────
+	// A segment depends on every segment that contains a parent of its
+	// first commit, in parent order: the first entry is the line it
+	// continues, any others are the lines merged into it.
 	for (const seg of allSegments) {
-		if (seg.type === "trunk") {
-			// A trunk segment depends on every segment that contains a parent
-			// of its first commit.
-			const firstCommit = dag.get(seg.commits[0]!);
-			if (!firstCommit) {
-				continue;
-			}
-			for (const parentSha of firstCommit.parents) {
-				const depId = shaToSegmentId.get(parentSha);
-				if (depId && depId !== seg.id && !seg.dependsOn.includes(depId)) {
-					seg.dependsOn.push(depId);
-				}
-			}
-		} else {
-			// Branch / dead-end depends on the trunk segment that holds forkFrom.
-			if (seg.forkFrom) {
-				const depId = shaToSegmentId.get(seg.forkFrom);
-				if (depId && !seg.dependsOn.includes(depId)) {
-					seg.dependsOn.push(depId);
-				}
+		const firstCommit = dag.get(seg.commits[0]!);
+		if (!firstCommit) {
+			continue;
+		}
+		for (const parentSha of firstCommit.parents) {
+			const depId = shaToSegmentId.get(parentSha);
+			if (depId && depId !== seg.id && !seg.dependsOn.includes(depId)) {
+				seg.dependsOn.push(depId);
 			}
 		}
+		if (firstCommit.parents.length > 1 && seg.dependsOn.length > 1) {
+			const [baseSegmentId, ...mergedSegmentIds] = seg.dependsOn as [string, ...string[]];
+			seg.mergePoint = {
+				sha: firstCommit.sha,
+				kind: isTrunkSync(firstCommit, dag) ? "sync" : "merge",
+				baseSegmentId,
+				mergedSegmentIds,
+			};
+		}
 	}
 
 	// ── 5. Topological sort (DFS) ──────────────────────────────────────
@@ -125,30 +137,51 @@ function buildOrderedTrunkPath(dag: Map<string, CommitNode>): CommitNode[] {
 	return path;
 }
 
-function traceBranch(startSha: string, dag: Map<string, CommitNode>): { commits: string[]; mergesInto: string | null } {
-	const commits: string[] = [];
-	let currentSha: string | undefined = startSha;
+function newestFirst(shas: string[], dag: Map<string, CommitNode>): string[] {
+	const time = (sha: string) => Date.parse(dag.get(sha)?.authorDate ?? "") || 0;
+	return [...shas].sort((a, b) => time(b) - time(a) || a.localeCompare(b));
+}
 
-	while (currentSha) {
-		const current = dag.get(currentSha);
-		if (!current || current.isTrunk) {
+function startsSegment(node: CommitNode, dag: Map<string, CommitNode>): boolean {
+	if (node.parents.length !== 1) {
+		return true;
+	}
+	const parent = dag.get(node.parents[0]!);
+	return !parent || parent.children.length !== 1 || parent.isTrunk !== node.isTrunk;
+}
+
+/** Follow single-parent, single-child links from a segment start to its tip. */
+function traceChain(startSha: string, dag: Map<string, CommitNode>): string[] {
+	const commits = [startSha];
+	let current = dag.get(startSha);
+
+	while (current && current.children.length === 1) {
+		const next = dag.get(current.children[0]!);
+		if (!next || startsSegment(next, dag)) {
 			break;
 		}
+		commits.push(next.sha);
+		current = next;
+	}
+
+	return commits;
+}
 
-		commits.push(current.sha);
+/** A branch commit whose first parent is on the branch and whose other parents are all trunk commits. */
+function isTrunkSync(merge: CommitNode, dag: Map<string, CommitNode>): boolean {
+	const [first, ...others] = merge.parents.map((sha) => dag.get(sha));
+	return !merge.isTrunk && first !== undefined && !first.isTrunk && others.every((parent) => parent?.isTrunk === true);
+}
 
-		// If any child is a trunk commit, this branch merges there.
-		const trunkChild = current.children.find((sha) => dag.get(sha)?.isTrunk);
-		if (trunkChild) {
-			return { commits, mergesInto: trunkChild };
+/** The merge commit that takes `tip` as a non-first parent, if any. */
+function findMergeTarget(tip: CommitNode, dag: Map<string, CommitNode>): string | null {
+	for (const childSha of tip.children) {
+		const child = dag.get(childSha);
+		if (child && child.parents.indexOf(tip.sha) > 0) {
+			return childSha;
 		}
-
-		// Follow the next non-trunk child (linear branch assumption).
-		const nextChild = current.children.find((sha) => !dag.get(sha)?.isTrunk);
-		currentSha = nextChild;
 	}
-
-	return { commits, mergesInto: null };
+	return null;
 }
 
 function topologicalSort(segments: Segment[]): Segment[] {
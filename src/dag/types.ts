@@ -14,6 +14,8 @@ export interface Segment {
 	forkFrom: string | null;
 	mergesInto: string | null;
 	dependsOn: string[];
+	/** Set when the segment starts at a merge commit. */
+	mergePoint?: MergePoint;
 }
 
 export interface ForkPoint {
@@ -21,8 +23,13 @@ export interface ForkPoint {
 	branchSegmentIds: string[];
 }
 
+/**
+ * A merge commit and the segments it joins. `"sync"` marks a branch merging
+ * trunk back in ("sync with main"); everything else is a `"merge"`.
+ */
 export interface MergePoint {
 	sha: string;
-	trunkSegmentId: string;
-	branchSegmentId: string;
+	kind: "merge" | "sync";
+	baseSegmentId: string;
+	mergedSegmentIds: string[];
 }
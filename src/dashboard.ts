@@ -0,0 +1,219 @@
+import type { EventBus, EvolutionEvent } from "./events.js";
+import type { ShutdownSignal } from "./shutdown.js";
+
+/** How often the elapsed times and ETA refresh between events. */
+const REFRESH_MS = 1_000;
+
+interface SegmentRow {
+	segmentId: string;
+	totalSteps: number;
+	doneSteps: number;
+	current?: { sha: string; model: string; merge: boolean; startedAt: number };
+}
+
+/**
+ * Progress of a run folded from its events: one row per in-flight segment
+ * plus overall progress, spend against the estimate and an ETA from the
+ * durations of the steps completed so far.
+ */
+export class Dashboard {
+	private readonly segments = new Map<string, SegmentRow>();
+	private totalSteps = 0;
+	private doneSteps = 0;
+	private spentUsd = 0;
+	private estimatedCostUsd: number | undefined;
+	private concurrency = 1;
+	/** Model time and commit count of the steps completed by this run, for the ETA. */
+	private timedMs = 0;
+	private timedSteps = 0;
+	private stopping = false;
+
+	constructor(private readonly now: () => number = Date.now) {}
+
+	handle(event: EvolutionEvent): void {
+		switch (event.type) {
+			case "run-started":
+				this.segments.clear();
+				this.totalSteps = event.totalSteps;
+				this.doneSteps = event.completedSteps;
+				this.spentUsd = event.spentUsd;
+				this.estimatedCostUsd = event.estimatedCostUsd;
+				this.concurrency = event.concurrency;
+				this.timedMs = 0;
+				this.timedSteps = 0;
+				break;
+			case "segment-started":
+				this.segments.set(event.segmentId, {
+					segmentId: event.segmentId,
+					totalSteps: event.commits,
+					doneSteps: event.completedSteps,
+				});
+				break;
+			case "segment-completed":
+			case "segment-failed":
+				this.segments.delete(event.segmentId);
+				break;
+			case "step-started": {
+				const row = this.segments.get(event.segmentId);
+				if (row) {
+					row.current = { sha: event.sha, model: event.model, merge: false, startedAt: this.now() };
+				}
+				break;
+			}
+			case "merge-started": {
+				const row = event.segmentId ? this.segments.get(event.segmentId) : undefined;
+				if (row) {
+					row.current = { sha: event.mergeSha, model: event.model, merge: true, startedAt: this.now() };
+				}
+				break;
+			}
+			case "step-completed":
+			case "merge-completed": {
+				const row = event.segmentId ? this.segments.get(event.segmentId) : undefined;
+				if (row) {
+					row.doneSteps += 1;
+					// The other commits of a batch complete with the step that made the call.
+					if (event.type === "merge-completed" || event.durationMs !== undefined) {
+						row.current = undefined;
+					}
+				}
+				this.doneSteps += 1;
+				this.spentUsd += event.costUsd;
+				this.timedMs += event.durationMs ?? 0;
+				this.timedSteps += 1;
+				break;
+			}
+			case "reconciliation":
+				this.spentUsd += event.costUsd;
+				break;
+			case "shutdown-requested":
+				this.stopping = true;
+				break;
+			case "retry":
+				break;
+		}
+	}
+
+	/** Marks the run as finishing its in-flight steps. */
+	shutdownRequested(): void {
+		this.stopping = true;
+	}
+
+	/** The dashboard, one string per terminal row. */
+	render(): string[] {
+		const remaining = Math.max(0, this.totalSteps - this.doneSteps);
+		const percent = this.totalSteps > 0 ? Math.floor((this.doneSteps / this.totalSteps) * 100) : 0;
+		const spend =
+			this.estimatedCostUsd !== undefined
+				? `$${this.spentUsd.toFixed(4)} of ~$${this.estimatedCostUsd.toFixed(4)}`
+				: `$${this.spentUsd.toFixed(4)}`;
+		const lines = [
+			`[allium-evolve] ${this.doneSteps}/${this.totalSteps} steps (${percent}%)  ${spend}  ETA ${this.eta(remaining)}`,
+		];
+
+		const now = this.now();
+		const idWidth = Math.max(0, ...[...this.segments.keys()].map((id) => id.length));
+		for (const row of this.segments.values()) {
+			const step = row.current?.merge ? "merge" : `step ${Math.min(row.doneSteps + 1, row.totalSteps)}/${row.totalSteps}`;
+			const detail = row.current
+				? `${row.current.sha.slice(0, 8)}  ${step.padEnd(12)} ${formatElapsed(now - row.current.startedAt).padStart(7)}  ${row.current.model}`
+				: `waiting   ${step}`;
+			lines.push(`  ${row.segmentId.padEnd(idWidth)}  ${detail}`);
+		}
+
+		if (this.stopping) {
+			lines.push("  Finishing in-flight steps before exiting... press Ctrl+C again to force-quit.");
+		}
+		return lines;
+	}
+
+	private eta(remaining: number): string {
+		if (remaining === 0) {
+			return "0s";
+		}
+		if (this.timedSteps === 0) {
+			return "-";
+		}
+		const parallel = Math.max(1, Math.min(this.concurrency, this.segments.size));
+		return formatElapsed(((this.timedMs / this.timedSteps) * remaining) / parallel);
+	}
+}
+
+function formatElapsed(ms: number): string {
+	const seconds = Math.max(0, Math.round(ms / 1000));
+	if (seconds < 60) {
+		return `${seconds}s`;
+	}
+	const minutes = Math.floor(seconds / 60);
+	if (minutes < 60) {
+		return `${minutes}m${String(seconds % 60).padStart(2, "0")}s`;
+	}
+	return `${Math.floor(minutes / 60)}h${String(minutes % 60).padStart(2, "0")}m`;
+}
+
+/**
+ * Draw a `Dashboard` at the bottom of `stream` from the first `run-started`
+ * event on, printing `console.error` logs above it. Returns a function that
+ * stops redrawing and restores `console.error`. When `stream` is not a TTY
+ * nothing changes and logs stay plain.
+ */
+export function startDashboard(opts: {
+	events: EventBus;
+	shutdownSignal?: ShutdownSignal;
+	stream?: NodeJS.WriteStream;
+}): () => void {
+	const { events, shutdownSignal, stream = process.stderr } = opts;
+	if (!stream.isTTY) {
+		return () => {};
+	}
+
+	const dashboard = new Dashboard();
+	const log = console.error;
+	let active = false;
+	let drawnLines = 0;
+
+	const clear = () => {
+		if (drawnLines > 0) {
+			stream.write(`\x1b[${drawnLines}A\r\x1b[0J`);
+			drawnLines = 0;
+		}
+	};
+	const draw = () => {
+		const width = Math.max(20, (stream.columns ?? 80) - 1);
+		const lines = dashboard.render().map((line) => (line.length > width ? line.slice(0, width) : line));
+		stream.write(`${lines.join("\n")}\n`);
+		drawnLines = lines.length;
+	};
+	const redraw = () => {
+		if (active) {
+			clear();
+			draw();
+		}
+	};
+
+	console.error = (...args: unknown[]) => {
+		clear();
+		log(...args);
+		if (active) {
+			draw();
+		}
+	};
+	const unsubscribe = events.on((event) => {
+		dashboard.handle(event);
+		active ||= event.type === "run-started";
+		redraw();
+	});
+	const unsubscribeShutdown = shutdownSignal?.onRequest(() => {
+		dashboard.shutdownRequested();
+		redraw();
+	});
+	const timer = setInterval(redraw, REFRESH_MS);
+	timer.unref();
+
+	return () => {
+		clearInterval(timer);
+		unsubscribe();
+		unsubscribeShutdown?.();
+		console.error = log;
+	};
+}
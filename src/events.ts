@@ -0,0 +1,121 @@
+import { closeSync, openSync, writeSync } from "node:fs";
+import type { RequestStepType } from "./claude/backend.js";
+import type { MergePoint, Segment } from "./dag/types.js";
+import type { ShutdownReason } from "./shutdown.js";
+
+/** Lifecycle transitions of a run, as written by `--events`. */
+export type EvolutionEvent =
+	| {
+			type: "run-started";
+			/** Steps in the whole history, `completedSteps` included. */
+			totalSteps: number;
+			completedSteps: number;
+			/** Cost already recorded in the state file. */
+			spentUsd: number;
+			/**
+			 * Expected total cost of the run, `spentUsd` included: the remaining steps at the average
+			 * cost of the completed ones, or before there are enough of those, priced without diff sizes.
+			 */
+			estimatedCostUsd: number;
+			/** Segments that may run at once. */
+			concurrency: number;
+	  }
+	| {
+			type: "segment-started";
+			segmentId: string;
+			segmentType: Segment["type"];
+			commits: number;
+			/** Steps already done by an earlier run, which this one skips. */
+			completedSteps: number;
+	  }
+	| { type: "segment-completed"; segmentId: string }
+	| { type: "segment-failed"; segmentId: string; error: string }
+	| {
+			type: "step-started";
+			segmentId: string;
+			sha: string;
+			stepType: RequestStepType;
+			model: string;
+			/** Filtered diff tokens the step sends. */
+			diffTokens: number;
+			/** Original commits covered by the step; more than one for a batch. */
+			commits: string[];
+	  }
+	| {
+			type: "step-completed";
+			segmentId: string;
+			sha: string;
+			model: string;
+			diffTokens?: number;
+			costUsd: number;
+			durationMs?: number;
+			alliumSha: string;
+			/** Set on the earlier commits of a batch: the commit whose step made the call. */
+			batchedWith?: string;
+	  }
+	| { type: "merge-started"; segmentId?: string; mergeSha: string; kind: MergePoint["kind"]; model: string }
+	| {
+			type: "merge-completed";
+			segmentId?: string;
+			mergeSha: string;
+			model: string;
+			costUsd: number;
+			durationMs: number;
+			alliumSha: string;
+	  }
+	| { type: "retry"; stepType: RequestStepType; model: string; attempt: number; error: string }
+	| {
+			type: "reconciliation";
+			segmentId: string;
+			atSha: string;
+			model: string;
+			costUsd: number;
+			findings: number;
+			skipped: boolean;
+			alliumSha: string;
+	  }
+	| { type: "shutdown-requested"; reason: ShutdownReason; message: string };
+
+export type TimedEvent = EvolutionEvent & { timestamp: string };
+
+export type EventListener = (event: TimedEvent) => void;
+
+/** Fans events out to listeners; emitting with no listeners is a no-op. */
+export class EventBus {
+	private readonly listeners: EventListener[] = [];
+
+	on(listener: EventListener): () => void {
+		this.listeners.push(listener);
+		return () => {
+			const index = this.listeners.indexOf(listener);
+			if (index !== -1) {
+				this.listeners.splice(index, 1);
+			}
+		};
+	}
+
+	emit(event: EvolutionEvent): void {
+		const timed = { timestamp: new Date().toISOString(), ...event } as TimedEvent;
+		for (const listener of this.listeners) {
+			listener(timed);
+		}
+	}
+}
+
+/**
+ * Listener appending one JSON line per event to `target` (`-` for stdout).
+ * Writes are synchronous so nothing is lost when the CLI exits right after a run.
+ */
+export function createNdjsonWriter(target: string): { listener: EventListener; close: () => void } {
+	const fd = target === "-" ? 1 : openSync(target, "a");
+	return {
+		listener: (event) => {
+			writeSync(fd, `${JSON.stringify(event)}\n`);
+		},
+		close: () => {
+			if (fd !== 1) {
+				closeSync(fd);
+			}
+		},
+	};
+}
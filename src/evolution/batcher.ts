@@ -0,0 +1,48 @@
+import type { EvolutionConfig } from "../config.js";
+import type { CommitNode } from "../dag/types.js";
+import { getDiff } from "../git/diff.js";
+import { parseDiffIntoFiles } from "./diff-chunker.js";
+import { isNonDomainPath } from "./non-domain.js";
+
+/** Token count of a diff after dropping ignored and non-domain files. */
+export function filteredDiffTokens(diff: string, config: EvolutionConfig): number {
+	return parseDiffIntoFiles(diff)
+		.filter((file) => !isNonDomainPath(file.path, config))
+		.reduce((sum, file) => sum + file.tokens, 0);
+}
+
+/**
+ * The longest run of `candidates` (consecutive commits of one segment, next
+ * commit first) that can go to the model as a single step: ordinary
+ * single-parent commits with domain changes whose filtered diffs together stay
+ * within `config.batchMaxTokens`. Capped at `windowSize` so the whole batch is
+ * in the window and gets full diffs. A result of fewer than two commits means
+ * the next commit is processed on its own.
+ */
+export async function collectBatch(opts: {
+	candidates: string[];
+	dag: Map<string, CommitNode>;
+	config: EvolutionConfig;
+}): Promise<string[]> {
+	const { candidates, dag, config } = opts;
+	if (config.batchMaxTokens <= 0) {
+		return candidates.slice(0, 1);
+	}
+
+	const batch: string[] = [];
+	let totalTokens = 0;
+	for (const sha of candidates.slice(0, config.windowSize)) {
+		const node = dag.get(sha);
+		if (!node || node.parents.length !== 1) {
+			break;
+		}
+		const diff = await getDiff(config.repoPath, node.parents[0]!, sha);
+		const tokens = filteredDiffTokens(diff, config);
+		if (tokens === 0 || totalTokens + tokens > config.batchMaxTokens) {
+			break;
+		}
+		batch.push(sha);
+		totalTokens += tokens;
+	}
+	return batch;
+}
@@ -0,0 +1,78 @@
+import type { EvolutionConfig } from "../config.js";
+import { exec } from "../utils/exec.js";
+import { filteredDiffTokens } from "./batcher.js";
+import { parseDiffIntoFiles } from "./diff-chunker.js";
+
+const COMMIT_MARKER = "<<COMMIT>>";
+/** Full patches of a long history are large; only read when token counts are needed. */
+const PATCH_MAX_BUFFER = 512 * 1024 * 1024;
+/** Commits named on one `git log --no-walk` command line when facts are read for a subset. */
+const SHAS_PER_LOG = 200;
+
+/** Per-commit facts the estimator needs to route steps without running them. */
+export interface CommitFacts {
+	/** Every path the commit changed (against its first parent for merges). */
+	changedPaths: string[];
+	/** Filtered diff tokens, as in `filteredDiffTokens`; only read when `withDiffTokens` is set. */
+	diffTokens?: number;
+	/** Tokens of the whole diff, which decides chunking; only read when `withDiffTokens` is set. */
+	totalDiffTokens?: number;
+}
+
+/**
+ * Facts for every commit on `config.targetRef` from a single `git log`:
+ * `--name-only` normally, full patches when `withDiffTokens` is set. With
+ * `shas`, only those commits are read, a few hundred per `git log`.
+ */
+export async function collectCommitFacts(
+	config: EvolutionConfig,
+	opts: { withDiffTokens: boolean; shas?: string[] },
+): Promise<Map<string, CommitFacts>> {
+	const facts = new Map<string, CommitFacts>();
+	if (!opts.shas) {
+		await readFacts(config, opts.withDiffTokens, config.targetRef, facts);
+		return facts;
+	}
+	for (let i = 0; i < opts.shas.length; i += SHAS_PER_LOG) {
+		const revs = `--no-walk=unsorted ${opts.shas.slice(i, i + SHAS_PER_LOG).join(" ")}`;
+		await readFacts(config, opts.withDiffTokens, revs, facts);
+	}
+	return facts;
+}
+
+async function readFacts(
+	config: EvolutionConfig,
+	withDiffTokens: boolean,
+	revs: string,
+	facts: Map<string, CommitFacts>,
+): Promise<void> {
+	const mode = withDiffTokens ? "-p" : "--name-only";
+	const { stdout } = await exec(`git log ${revs} --diff-merges=first-parent ${mode} --format="${COMMIT_MARKER}%H"`, {
+		cwd: config.repoPath,
+		...(withDiffTokens ? { maxBuffer: PATCH_MAX_BUFFER } : {}),
+	});
+
+	for (const record of stdout.split(COMMIT_MARKER)) {
+		const newline = record.indexOf("\n");
+		const sha = (newline === -1 ? record : record.slice(0, newline)).trim();
+		if (!sha) {
+			continue;
+		}
+		const body = newline === -1 ? "" : record.slice(newline + 1);
+		if (withDiffTokens) {
+			const files = parseDiffIntoFiles(body);
+			facts.set(sha, {
+				changedPaths: files.map((file) => file.path),
+				diffTokens: filteredDiffTokens(body, config),
+				totalDiffTokens: files.reduce((sum, file) => sum + file.tokens, 0),
+			});
+		} else {
+			facts.set(sha, {
+				changedPaths: body
+					.split("\n")
+					.map((line) => line.trim())
+					.filter(Boolean),
+			});
+		}
+	}
+}
@@ -4,6 +4,15 @@ export interface DiffFile {
 	path: string;
 	diff: string;
 	tokens: number;
+	/** The commit that changed the file, set when chunking a window of commits. */
+	commit?: Pick<CommitDiff, "sha" | "message">;
+}
+
+/** One commit's raw diff, as `git diff` prints it. */
+export interface CommitDiff {
+	sha: string;
+	message: string;
+	diff: string;
 }
 
 export interface DiffChunk {
@@ -48,12 +57,15 @@ export function parseDiffIntoFiles(fullDiff: string): DiffFile[] {
 	return files;
 }
 
+/** Whether a path's basename matches any of the ignore patterns */
+export function isIgnoredPath(path: string, patterns: string[]): boolean {
+	const basename = path.split("/").pop() ?? path;
+	return patterns.some((pattern) => simpleGlobMatch(pattern, basename));
+}
+
 /** Filter out files matching ignore patterns (glob-style on basename) */
 export function filterIgnoredFiles(files: DiffFile[], patterns: string[]): DiffFile[] {
-	return files.filter((file) => {
-		const basename = file.path.split("/").pop() ?? file.path;
-		return !patterns.some((pattern) => simpleGlobMatch(pattern, basename));
-	});
+	return files.filter((file) => !isIgnoredPath(file.path, patterns));
 }
 
 /** Known monorepo container directories that use 2-segment grouping */
@@ -152,11 +164,13 @@ export function splitOversizedChunks(chunks: DiffChunk[], maxTokens: number): Di
 }
 
 /** Main entry: determine if chunking is needed and produce chunks */
-export function chunkDiff(opts: { fullDiff: string; maxDiffTokens: number; ignorePatterns: string[] }): {
+export function chunkDiff(opts: { commits: CommitDiff[]; maxDiffTokens: number; ignorePatterns: string[] }): {
 	needsChunking: boolean;
 	chunks: DiffChunk[];
 } {
-	const allFiles = parseDiffIntoFiles(opts.fullDiff);
+	const allFiles = opts.commits.flatMap(({ sha, message, diff }) =>
+		parseDiffIntoFiles(diff).map((file) => ({ ...file, commit: { sha, message } })),
+	);
 	const files = filterIgnoredFiles(allFiles, opts.ignorePatterns);
 
 	const totalTokens = files.reduce((sum, f) => sum + f.tokens, 0);
@@ -170,3 +184,27 @@ export function chunkDiff(opts: { fullDiff: string; maxDiffTokens: number; ignor
 
 	return { needsChunking: true, chunks: splitChunks };
 }
+
+/**
+ * A chunk as the diff file sent to the model: a heading for each commit with
+ * files in the chunk, oldest first, listing those files, then every file of
+ * the chunk in one fenced block.
+ */
+export function formatChunkDiff(chunk: DiffChunk): string {
+	const commits = new Map<string, { message: string; paths: string[] }>();
+	for (const file of chunk.files) {
+		if (!file.commit) {
+			continue;
+		}
+		const entry = commits.get(file.commit.sha);
+		if (entry) {
+			entry.paths.push(file.path);
+		} else {
+			commits.set(file.commit.sha, { message: file.commit.message, paths: [file.path] });
+		}
+	}
+	const headings = [...commits].map(
+		([sha, { message, paths }]) => `### ${sha.slice(0, 8)} — ${message}\n${paths.map((p) => `- \`${p}\``).join("\n")}`,
+	);
+	return `${headings.join("\n")}\n\`\`\`diff\n${chunk.files.map((f) => f.diff).join("")}\n\`\`\``;
+}
@@ -1,22 +1,140 @@
-import { getModelForStep } from "../claude/models.js";
+import { type RoutingInput, routeModel, type StepType } from "../claude/models.js";
+import { type ModelPrice, tokenCostUsd } from "../claude/pricing.js";
 import type { EvolutionConfig } from "../config.js";
 import type { CommitNode, Segment } from "../dag/types.js";
 import type { StateTracker } from "../state/tracker.js";
+import type { EvolutionState } from "../state/types.js";
+import type { CommitFacts } from "./commit-facts.js";
+import { isNonDomainPath, SKIPPED_MODEL } from "./non-domain.js";
 
-interface CostRange {
+export interface CostRange {
 	low: number;
 	high: number;
 }
 
-const MODEL_COST_PER_STEP: Record<string, CostRange> = {
-	sonnet: { low: 0.01, high: 0.05 },
-	opus: { low: 0.05, high: 0.25 },
-	haiku: { low: 0.002, high: 0.01 },
-};
+/** A range with the most likely value inside it. */
+export interface Estimate extends CostRange {
+	expected: number;
+}
+
+/** Input tokens a call sends besides its diff: prompts, the previous spec, window context and tool turns. */
+const CALL_BASE_INPUT_TOKENS = 8_000;
+/** Output tokens of a call: the rewritten spec, changelog and commit message. */
+const CALL_OUTPUT_TOKENS = 2_000;
+/** Before there are enough completed steps, actual costs are assumed to land within this factor of the prediction. */
+const UNCALIBRATED_COST_RATIO: Estimate = { low: 0.5, expected: 1, high: 2 };
+const DEFAULT_SECONDS_PER_STEP: Estimate = { low: 45, expected: 60, high: 90 };
+/** Completed steps needed before their costs and durations replace the defaults above. */
+const MIN_CALIBRATION_SAMPLES = 5;
+const EXPENSIVE_COMMITS_SHOWN = 20;
+
+/** Predicted cost of one model call sending `diffTokens` of diff; `undefined` when the model has no price. */
+export function predictCallCost(model: string, diffTokens: number, prices: ModelPrice[]): number | undefined {
+	return tokenCostUsd(
+		model,
+		{ inputTokens: CALL_BASE_INPUT_TOKENS + diffTokens, outputTokens: CALL_OUTPUT_TOKENS },
+		prices,
+	);
+}
+
+/** Predicted cost of a call whose prompts and context files come to `inputTokens`, never below a call with no diff. */
+export function predictRequestCost(model: string, inputTokens: number, prices: ModelPrice[]): number | undefined {
+	return tokenCostUsd(
+		model,
+		{ inputTokens: Math.max(CALL_BASE_INPUT_TOKENS, inputTokens), outputTokens: CALL_OUTPUT_TOKENS },
+		prices,
+	);
+}
+
+/**
+ * Predicted cost of a step. A chunked step makes one call per chunk, each with
+ * its share of the diff, then a recombine call that reads every partial spec.
+ */
+function predictStepCost(
+	step: { model: string; recombineModel: string; diffTokens: number; chunks: number },
+	prices: ModelPrice[],
+): number | undefined {
+	if (step.chunks <= 1) {
+		return predictCallCost(step.model, step.diffTokens, prices);
+	}
+	const chunkCost = predictCallCost(step.model, step.diffTokens / step.chunks, prices);
+	const recombineCost = predictCallCost(step.recombineModel, step.chunks * CALL_OUTPUT_TOKENS, prices);
+	if (chunkCost === undefined || recombineCost === undefined) {
+		return undefined;
+	}
+	return step.chunks * chunkCost + recombineCost;
+}
+
+/** A step of the run as the estimator predicts it. */
+export interface PredictedStep {
+	sha: string;
+	message: string;
+	stepType: StepType;
+	model: string;
+	/** Filtered diff tokens, as routing sees them. */
+	diffTokens: number;
+	/** Chunk calls the diff is split into; `1` when it fits in `maxDiffTokens`. */
+	chunks: number;
+	/** Expected cost, calibrated when the state file has enough completed steps. */
+	costUsd: number;
+}
+
+export interface Calibration {
+	/** Completed steps with recorded diff sizes the cost ratio was measured on. */
+	samples: number;
+	calibrated: boolean;
+	/** Actual cost over predicted cost. */
+	costRatio: Estimate;
+	secondsPerStep: Estimate;
+}
 
-const DEFAULT_COST_RANGE: CostRange = { low: 0.01, high: 0.10 };
+/**
+ * Compare the costs and durations of completed steps with what the token model
+ * predicts for them. With fewer than `MIN_CALIBRATION_SAMPLES` the defaults are
+ * used; otherwise the median and 10th/90th percentiles give the band.
+ */
+export function calibrate(state: EvolutionState, config: EvolutionConfig): Calibration {
+	const ratios: number[] = [];
+	const seconds: number[] = [];
+	for (const progress of Object.values(state.segmentProgress)) {
+		for (const step of progress.completedSteps) {
+			if (step.durationMs !== undefined) {
+				seconds.push(step.durationMs / 1000);
+			}
+			if (step.diffTokens === undefined || step.costUsd <= 0) {
+				continue;
+			}
+			const chunkCalls = step.subCalls?.filter((call) => call.kind === "chunk").length ?? 0;
+			const recombine = step.subCalls?.find((call) => call.kind === "chunk-recombine");
+			const predicted = predictStepCost(
+				{
+					model: step.model,
+					recombineModel: recombine?.model ?? step.model,
+					diffTokens: step.diffTokens,
+					chunks: Math.max(1, chunkCalls),
+				},
+				config.modelPrices,
+			);
+			if (predicted) {
+				ratios.push(step.costUsd / predicted);
+			}
+		}
+	}
 
-const AVG_SECONDS_PER_STEP = { low: 45, high: 90 };
+	const calibrated = ratios.length >= MIN_CALIBRATION_SAMPLES;
+	return {
+		samples: ratios.length,
+		calibrated,
+		costRatio: calibrated ? percentileBand(ratios) : UNCALIBRATED_COST_RATIO,
+		secondsPerStep: seconds.length >= MIN_CALIBRATION_SAMPLES ? percentileBand(seconds) : DEFAULT_SECONDS_PER_STEP,
+	};
+}
+
+function percentileBand(values: number[]): Estimate {
+	const sorted = [...values].sort((a, b) => a - b);
+	const at = (p: number) => sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))]!;
+	return { low: at(0.1), expected: at(0.5), high: at(0.9) };
+}
 
 export interface SetupStats {
 	totalCommits: number;
@@ -25,28 +143,51 @@ export interface SetupStats {
 	completedSteps: number;
 	remainingSteps: number;
 	mergePoints: number;
+	syncPoints: number;
+	skippedSteps: number;
+	/** Remaining steps whose diff is over `maxDiffTokens` and will be split into chunk calls. */
+	chunkedSteps: number;
 	modelDistribution: Record<string, number>;
-	estimatedCost: CostRange;
+	/** Models routed to that have no entry in `modelPrices`; their steps are left out of the cost estimate. */
+	unpricedModels: string[];
+	estimatedCost: Estimate;
 	costSoFar: number;
+	calibration: Calibration;
+	/** The most expensive remaining steps, most expensive first. */
+	expensiveCommits: PredictedStep[];
 	criticalPathSteps: number;
-	estimatedWallClock: { low: number; high: number };
+	estimatedWallClock: Estimate;
 	concurrency: number;
 	isResume: boolean;
 }
 
+/**
+ * Step counts, model mix and cost/time estimates for a run. With
+ * `commitFacts` (see `collectCommitFacts`), non-domain commits count as free,
+ * routing rules apply as they would during the run, and each step is priced
+ * from its diff size; commits without facts are priced as empty diffs.
+ */
 export function computeSetupStats(
 	dag: Map<string, CommitNode>,
 	segments: Segment[],
 	stateTracker: StateTracker,
 	config: EvolutionConfig,
 	isResume: boolean,
+	commitFacts: Map<string, CommitFacts> = new Map(),
 ): SetupStats {
 	const state = stateTracker.getState();
+	const calibration = calibrate(state, config);
 
 	const segmentsByType: Record<string, { count: number; commits: number }> = {};
 	let totalSteps = 0;
 	let mergePoints = 0;
+	let syncPoints = 0;
+	let skippedSteps = 0;
+	let chunkedSteps = 0;
 	const modelDistribution: Record<string, number> = {};
+	const unpricedModels = new Set<string>();
+	const remaining: PredictedStep[] = [];
+	let predictedCost = 0;
 
 	for (const seg of segments) {
 		const entry = segmentsByType[seg.type] ?? { count: 0, commits: 0 };
@@ -58,33 +199,81 @@ export function computeSetupStats(
 		for (const commitSha of seg.commits) {
 			const node = dag.get(commitSha);
 			const isRoot = node !== undefined && node.parents.length === 0;
-			const isMerge = node !== undefined && node.parents.length > 1 && seg.type === "trunk";
+			const isMerge = node !== undefined && node.parents.length > 1;
+
+			const facts = commitFacts.get(commitSha);
+			const domainPaths = facts?.changedPaths.filter((path) => !isNonDomainPath(path, config));
 
-			let model: string;
+			let stepType: StepType;
 			if (isRoot) {
-				model = getModelForStep("initial-commit", config);
+				stepType = "initial-commit";
+			} else if (isMerge && seg.mergePoint?.kind === "sync") {
+				stepType = "sync";
+				syncPoints += 1;
 			} else if (isMerge) {
-				model = getModelForStep("merge", config);
+				stepType = "merge";
 				mergePoints += 1;
+			} else if (domainPaths?.length === 0) {
+				modelDistribution[SKIPPED_MODEL] = (modelDistribution[SKIPPED_MODEL] ?? 0) + 1;
+				skippedSteps += 1;
+				continue;
 			} else {
-				model = getModelForStep("evolve", config);
+				stepType = "evolve";
 			}
+
+			const routing: RoutingInput = {
+				stepType,
+				diffTokens: facts?.diffTokens,
+				changedPaths: domainPaths,
+				messages: node ? [node.message] : undefined,
+				segmentType: seg.type,
+			};
+			const { model } = routeModel(routing, config);
 			modelDistribution[model] = (modelDistribution[model] ?? 0) + 1;
+
+			if (state.shaMap[commitSha] !== undefined) {
+				continue;
+			}
+
+			// Merges send both specs instead of a diff; priced as one more spec's worth of input.
+			const isSpecMerge = stepType === "merge" || stepType === "sync";
+			const diffTokens = isSpecMerge ? 0 : (facts?.diffTokens ?? 0);
+			const totalDiffTokens = facts?.totalDiffTokens ?? 0;
+			const chunks =
+				!isSpecMerge && totalDiffTokens > config.maxDiffTokens ? Math.ceil(totalDiffTokens / config.maxDiffTokens) : 1;
+			if (chunks > 1) {
+				chunkedSteps += 1;
+			}
+			const cost = predictStepCost(
+				{
+					model,
+					recombineModel: routeModel({ ...routing, stepType: "chunk-recombine" }, config).model,
+					diffTokens: isSpecMerge ? CALL_BASE_INPUT_TOKENS : diffTokens,
+					chunks,
+				},
+				config.modelPrices,
+			);
+			if (cost === undefined) {
+				unpricedModels.add(model);
+			}
+			predictedCost += cost ?? 0;
+			remaining.push({
+				sha: commitSha,
+				message: node?.message ?? "",
+				stepType,
+				model,
+				diffTokens,
+				chunks,
+				costUsd: (cost ?? 0) * calibration.costRatio.expected,
+			});
 		}
 	}
 
 	const completedSteps = state.totalSteps;
 	const remainingSteps = totalSteps - completedSteps;
 
-	let estimatedCostLow = 0;
-	let estimatedCostHigh = 0;
-	for (const [model, count] of Object.entries(modelDistribution)) {
-		const completedForModel = Math.min(count, completedSteps);
-		const remainingForModel = count - completedForModel;
-		const range = MODEL_COST_PER_STEP[model] ?? DEFAULT_COST_RANGE;
-		estimatedCostLow += remainingForModel * range.low;
-		estimatedCostHigh += remainingForModel * range.high;
-	}
+	const estimatedCost = scaleBy(predictedCost, calibration.costRatio);
+	const expensiveCommits = [...remaining].sort((a, b) => b.costUsd - a.costUsd).slice(0, EXPENSIVE_COMMITS_SHOWN);
 
 	const criticalPathSteps = computeCriticalPath(segments);
 
@@ -92,10 +281,7 @@ export function computeSetupStats(
 		criticalPathSteps,
 		Math.ceil(remainingSteps / config.maxConcurrency),
 	);
-	const estimatedWallClock = {
-		low: effectiveParallelSteps * AVG_SECONDS_PER_STEP.low,
-		high: effectiveParallelSteps * AVG_SECONDS_PER_STEP.high,
-	};
+	const estimatedWallClock = scaleBy(effectiveParallelSteps, calibration.secondsPerStep);
 
 	return {
 		totalCommits: dag.size,
@@ -104,9 +290,15 @@ export function computeSetupStats(
 		completedSteps,
 		remainingSteps,
 		mergePoints,
+		syncPoints,
+		skippedSteps,
+		chunkedSteps,
 		modelDistribution,
-		estimatedCost: { low: estimatedCostLow, high: estimatedCostHigh },
+		unpricedModels: [...unpricedModels],
+		estimatedCost,
 		costSoFar: state.totalCostUsd,
+		calibration,
+		expensiveCommits,
 		criticalPathSteps,
 		estimatedWallClock,
 		concurrency: config.maxConcurrency,
@@ -114,6 +306,25 @@ export function computeSetupStats(
 	};
 }
 
+/**
+ * Expected total cost of a run for `run-started`, spend included. Once enough
+ * steps are done the rest are priced at their average cost, reconciliations
+ * and batching included; before that, as `computeSetupStats` priced them.
+ * Neither needs diff sizes, so the stats can come from `--name-only` facts.
+ */
+export function projectRunCost(
+	stats: Pick<SetupStats, "costSoFar" | "completedSteps" | "remainingSteps" | "estimatedCost">,
+): number {
+	if (stats.completedSteps >= MIN_CALIBRATION_SAMPLES && stats.costSoFar > 0) {
+		return stats.costSoFar + (stats.costSoFar / stats.completedSteps) * stats.remainingSteps;
+	}
+	return stats.costSoFar + stats.estimatedCost.expected;
+}
+
+function scaleBy(value: number, factor: Estimate): Estimate {
+	return { low: value * factor.low, expected: value * factor.expected, high: value * factor.high };
+}
+
 function computeCriticalPath(segments: Segment[]): number {
 	const segmentMap = new Map<string, Segment>();
 	for (const seg of segments) {
@@ -192,6 +403,15 @@ export function formatSetupStats(stats: SetupStats): string {
 	}
 	lines.push(`    Remaining:      ${stats.remainingSteps}`);
 	lines.push(`    Merge points:   ${stats.mergePoints}`);
+	if (stats.syncPoints > 0) {
+		lines.push(`    Trunk syncs:    ${stats.syncPoints}`);
+	}
+	if (stats.skippedSteps > 0) {
+		lines.push(`    Non-domain:     ${stats.skippedSteps} (no model call)`);
+	}
+	if (stats.chunkedSteps > 0) {
+		lines.push(`    Chunked:        ${stats.chunkedSteps} (diff over maxDiffTokens)`);
+	}
 	lines.push("");
 
 	lines.push("  Model distribution (all steps):");
@@ -200,9 +420,19 @@ export function formatSetupStats(stats: SetupStats): string {
 	}
 	lines.push("");
 
+	const { calibration } = stats;
 	lines.push("  Cost estimate (remaining steps):");
+	lines.push(`    Expected:       $${stats.estimatedCost.expected.toFixed(2)}`);
 	lines.push(`    Low:            $${stats.estimatedCost.low.toFixed(2)}`);
 	lines.push(`    High:           $${stats.estimatedCost.high.toFixed(2)}`);
+	lines.push(
+		calibration.calibrated
+			? `    Confidence:     calibrated on ${calibration.samples} completed steps (10th–90th percentile)`
+			: `    Confidence:     uncalibrated (token prices only, ${calibration.samples}/${MIN_CALIBRATION_SAMPLES} completed steps)`,
+	);
+	if (stats.unpricedModels.length > 0) {
+		lines.push(`    Not priced:     ${stats.unpricedModels.join(", ")} (add to modelPrices)`);
+	}
 	if (stats.isResume && stats.costSoFar > 0) {
 		lines.push(`    Spent so far:   $${stats.costSoFar.toFixed(4)}`);
 	}
@@ -214,6 +444,18 @@ export function formatSetupStats(stats: SetupStats): string {
 	lines.push(`    Wall clock:     ${formatDuration(stats.estimatedWallClock.low)} – ${formatDuration(stats.estimatedWallClock.high)}`);
 	lines.push("");
 
+	if (stats.expensiveCommits.length > 0) {
+		lines.push(`  Most expensive commits (top ${stats.expensiveCommits.length}):`);
+		for (const step of stats.expensiveCommits) {
+			const chunks = step.chunks > 1 ? `, ${step.chunks} chunks` : "";
+			const subject = step.message.split("\n")[0]!.slice(0, 50);
+			lines.push(
+				`    ${step.sha.slice(0, 8)}  $${step.costUsd.toFixed(2).padStart(6)}  ${step.model.padEnd(8)} ${String(step.diffTokens).padStart(7)} tokens${chunks}  ${subject}`,
+			);
+		}
+		lines.push("");
+	}
+
 	lines.push(`  Ready:            run without --setup-only to begin processing`);
 	lines.push("");
 
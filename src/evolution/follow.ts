@@ -0,0 +1,93 @@
+import type { EvolutionConfig } from "../config.js";
+import { buildDag, extendDag } from "../dag/builder.js";
+import { loadCachedDag } from "../dag/cache.js";
+import type { CommitNode } from "../dag/types.js";
+import type { EventBus } from "../events.js";
+import { isAncestor } from "../git/log.js";
+import { GracefulShutdownError, type ShutdownSignal } from "../shutdown.js";
+import { exec } from "../utils/exec.js";
+import { runEvolution, UpToDateError } from "./orchestrator.js";
+
+/** How often a sleeping follower checks for a shutdown request. */
+const SHUTDOWN_CHECK_MS = 500;
+
+export type FollowOutcome = "processed" | "up-to-date";
+
+export interface FollowOptions {
+	/** Seconds between polls of the target ref. */
+	intervalSeconds: number;
+	/** Check once and return instead of polling, e.g. from a post-receive hook. */
+	once: boolean;
+	shutdownSignal?: ShutdownSignal;
+	/** Receives the events of every run. */
+	events?: EventBus;
+}
+
+interface KnownTip {
+	sha: string;
+	dag: Map<string, CommitNode>;
+}
+
+/**
+ * Keep the allium branch up to date with `config.targetRef`. Each pass pins
+ * the ref to the SHA it resolved to, reads only the commits added since the
+ * previous pass, and lets `runEvolution` seed from the allium branch and
+ * process the rest.
+ *
+ * With `once`, returns whether the pass processed anything. Otherwise polls
+ * until shutdown is requested; a failed pass is logged and retried at the next
+ * poll with a freshly built DAG.
+ */
+export async function follow(config: EvolutionConfig, opts: FollowOptions): Promise<FollowOutcome> {
+	let known: KnownTip | undefined;
+	let outcome: FollowOutcome = "up-to-date";
+
+	for (;;) {
+		const { stdout } = await exec(`git rev-parse ${config.targetRef}`, { cwd: config.repoPath });
+		const tip = stdout.trim();
+
+		if (tip !== known?.sha) {
+			console.error(`[allium-evolve] Following ${config.targetRef}: processing up to ${tip.slice(0, 8)}`);
+			const dag = await loadDag(config, tip, known);
+			try {
+				await runEvolution({ ...config, targetRef: tip, autoConfirm: true }, opts.shutdownSignal, { dag }, opts.events);
+				outcome = "processed";
+				known = { sha: tip, dag };
+			} catch (err) {
+				if (err instanceof UpToDateError) {
+					console.error(`[allium-evolve] ${err.message}`);
+					known = { sha: tip, dag };
+				} else if (opts.once || err instanceof GracefulShutdownError) {
+					throw err;
+				} else {
+					console.error(`[allium-evolve] Follow pass failed, retrying at next poll: ${(err as Error).message}`);
+					known = undefined;
+				}
+			}
+		}
+
+		if (opts.once) {
+			return outcome;
+		}
+		await waitForNextPoll(opts.intervalSeconds, opts.shutdownSignal);
+		if (opts.shutdownSignal?.requested) {
+			return outcome;
+		}
+	}
+}
+
+async function loadDag(config: EvolutionConfig, tip: string, known: KnownTip | undefined): Promise<Map<string, CommitNode>> {
+	if (known && (await isAncestor(config.repoPath, known.sha, tip))) {
+		const added = await extendDag(known.dag, config.repoPath, tip, known.sha);
+		console.error(`[allium-evolve] Read ${added} new commits since ${known.sha.slice(0, 8)}`);
+		return known.dag;
+	}
+	return config.dagCache ? loadCachedDag(config.repoPath, tip) : buildDag(config.repoPath, tip);
+}
+
+async function waitForNextPoll(seconds: number, shutdownSignal: ShutdownSignal | undefined): Promise<void> {
+	const deadline = Date.now() + seconds * 1000;
+	while (Date.now() < deadline && !shutdownSignal?.requested) {
+		await new Promise((resolve) => setTimeout(resolve, Math.min(SHUTDOWN_CHECK_MS, deadline - Date.now())));
+	}
+}
@@ -1,17 +1,34 @@
 import { readFile } from "node:fs/promises";
 import { dirname, resolve } from "node:path";
 import { fileURLToPath } from "node:url";
-import { getModelForStep } from "../claude/models.js";
+import type { ModelBackend } from "../claude/backend.js";
+import { assembleFullSpec } from "../claude/context.js";
+import { routeModel } from "../claude/models.js";
 import {
+	type ClaudeResult,
+	failedCallCost,
 	invokeClaudeForStep,
 	writeContextFiles,
 	formatManifest,
 } from "../claude/runner.js";
 import type { EvolutionConfig } from "../config.js";
-import type { CommitNode } from "../dag/types.js";
+import type { CommitNode, MergePoint, Segment } from "../dag/types.js";
+import type { EventBus } from "../events.js";
 import { formatOriginalLine } from "../git/commit-metadata.js";
 import { getDiff, getDiffstat } from "../git/diff.js";
 import { createAlliumCommit } from "../git/plumbing.js";
+import { applySpecUpdate, cloneSpecStore, type SpecStore } from "../spec/store.js";
+import { filteredDiffTokens } from "./batcher.js";
+import { parseDiffIntoFiles } from "./diff-chunker.js";
+import { isNonDomainPath } from "./non-domain.js";
+import {
+	findDroppedDeclarations,
+	formatDroppedLine,
+	formatRegressionFeedback,
+	regressionRetryModel,
+	specSources,
+	updatedSpecSources,
+} from "./regression-guard.js";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const PROMPTS_DIR = resolve(__dirname, "../../prompts");
@@ -20,7 +37,14 @@ export interface MergeRunnerResult {
 	alliumSha: string;
 	mergedSpec: string;
 	mergedChangelog: string;
+	/** Merged module tree, present when every input was given a spec store. */
+	specStore?: SpecStore;
+	model: string;
+	/** Name of the `modelRules` entry that picked the model, if any. */
+	rule?: string;
 	costUsd: number;
+	/** Declarations of any input missing from the merged spec without a changelog note; see `CompletedStep`. */
+	droppedDeclarations?: string[];
 }
 
 async function loadPromptTemplate(name: string): Promise<string> {
@@ -51,32 +75,45 @@ export function extractUniqueEntries(trunkChangelog: string, branchChangelog: st
 	return unique.join("");
 }
 
+/** One line of development flowing into a merge commit. */
+export interface MergeInput {
+	segmentId: string;
+	spec: string;
+	changelog: string;
+	alliumSha: string;
+	specStore?: SpecStore;
+}
+
+/**
+ * Reconcile the specs of every parent line at a merge commit. `inputs` follow
+ * the merge's parent order: the first is the line being merged into, the
+ * rest (one for a normal merge, several for an octopus) are merged into it.
+ *
+ * A `"sync"` merge brings trunk into a branch; it uses a lighter prompt and
+ * the default model, since the branch spec stays authoritative.
+ */
 export async function runMerge(opts: {
 	mergeSha: string;
-	trunkSpec: string;
-	branchSpec: string;
-	trunkChangelog: string;
-	branchChangelog: string;
-	trunkAlliumSha: string;
-	branchAlliumSha: string;
-	trunkSegmentId: string;
-	branchSegmentId: string;
+	inputs: MergeInput[];
+	kind?: MergePoint["kind"];
+	/** Type of the segment the merge starts, for model routing. */
+	segmentType?: Segment["type"];
+	/** Segment the merge starts, for events. */
+	segmentId?: string;
 	config: EvolutionConfig;
 	dag: Map<string, CommitNode>;
+	backend: ModelBackend;
+	/** Called with the cost of calls already made when the merge fails, e.g. rejected responses or a failed retry. */
+	onUnrecordedCost?: (costUsd: number) => Promise<void>;
+	events?: EventBus;
 }): Promise<MergeRunnerResult> {
-	const {
-		mergeSha,
-		trunkSpec,
-		branchSpec,
-		trunkChangelog,
-		branchChangelog,
-		trunkAlliumSha,
-		branchAlliumSha,
-		trunkSegmentId,
-		branchSegmentId,
-		config,
-		dag,
-	} = opts;
+	const { mergeSha, inputs, kind = "merge", config, dag, backend, segmentId, events } = opts;
+	const [base, ...merged] = inputs;
+	if (!base || merged.length === 0) {
+		throw new Error(`Merge ${mergeSha.slice(0, 8)} needs at least two inputs, got ${inputs.length}`);
+	}
+	const modular = inputs.every((input) => input.specStore !== undefined);
+	const specFor = (input: MergeInput) => (modular ? assembleFullSpec(input.specStore!) : input.spec);
 
 	const node = dag.get(mergeSha);
 	const parentSha = node?.parents[0] ?? null;
@@ -84,57 +121,161 @@ export async function runMerge(opts: {
 	const mergeDiffstat = await getDiffstat(config.repoPath, parentSha, mergeSha);
 
 	const contextFiles: Record<string, string> = {
-		"trunk-spec.allium": trunkSpec,
-		"branch-spec.allium": branchSpec,
-		"merge.diff": mergeDiff,
-		"merge.diffstat": mergeDiffstat,
+		"base-spec.allium": specFor(base),
 	};
+	for (const input of merged) {
+		contextFiles[`merged-specs/${input.segmentId}.allium`] = specFor(input);
+	}
+	contextFiles["merge.diff"] = mergeDiff;
+	contextFiles["merge.diffstat"] = mergeDiffstat;
 
 	const ctx = await writeContextFiles(config.repoPath, contextFiles);
 
 	try {
-		const template = await loadPromptTemplate("merge-specs");
+		const template = await loadPromptTemplate(kind === "sync" ? "sync-trunk" : "merge-specs");
 		const systemPrompt = fillTemplate(template, {
 			contextManifest: formatManifest(ctx.manifest),
+			modularInstructions: modular ? await loadPromptTemplate("modular-output") : "",
 		});
 
-		const model = getModelForStep("merge", config);
-		const result = await invokeClaudeForStep({
-			systemPrompt,
-			userPrompt: "Read the context files, reconcile the two specifications, and produce a unified version. Return JSON.",
-			model,
-			workingDirectory: config.repoPath,
-			alliumSkillsPath: config.alliumSkillsPath,
-			maxRetries: config.maxParseRetries,
-		});
+		const route = routeModel(
+			{
+				stepType: kind,
+				diffTokens: filteredDiffTokens(mergeDiff, config),
+				changedPaths: parseDiffIntoFiles(mergeDiff)
+					.map((file) => file.path)
+					.filter((path) => !isNonDomainPath(path, config)),
+				messages: [node?.message ?? ""],
+				segmentType: opts.segmentType,
+			},
+			config,
+		);
+		let model = route.model;
+		events?.emit({ type: "merge-started", segmentId, mergeSha, kind, model });
+		const startedAt = Date.now();
+		const userPrompt =
+			kind === "sync"
+				? "Read the context files, bring the trunk changes into the branch specification. Return JSON."
+				: "Read the context files, reconcile the specifications, and produce a unified version. Return JSON.";
+		const callModel = (callModelName: string, feedback?: string) =>
+			invokeClaudeForStep({
+				backend,
+				stepType: kind,
+				systemPrompt,
+				userPrompt: feedback ? `${userPrompt}\n\n${feedback}` : userPrompt,
+				model: callModelName,
+				workingDirectory: config.repoPath,
+				alliumSkillsPath: config.alliumSkillsPath,
+				maxRetries: config.maxParseRetries,
+				resumeSession: config.resumeSessionOnRetry,
+				maxTurns: route.maxTurns,
+				modular,
+				contextFiles: ctx.manifest,
+				events,
+			}).catch(async (err: unknown) => {
+				const costUsd = failedCallCost(err);
+				if (costUsd > 0) {
+					await opts.onUnrecordedCost?.(costUsd);
+				}
+				throw err;
+			});
+
+		let changelogBase = base.changelog;
+		// Only the entries the merged lines bring in are new here; older lines must not excuse a drop.
+		let broughtIn = "";
+		for (const input of merged) {
+			const unique = extractUniqueEntries(changelogBase, input.changelog);
+			changelogBase += unique;
+			broughtIn += unique;
+		}
 
-		const uniqueBranchEntries = extractUniqueEntries(trunkChangelog, branchChangelog);
-		const mergedChangelog =
-			trunkChangelog + uniqueBranchEntries + `\n## ${mergeSha.slice(0, 8)} (merge)\n\n${result.changelog}\n`;
+		// Regression guard: whatever any line declared must survive the merge unless a changelog reports its removal.
+		const previousSources = inputs.flatMap((input) => specSources(input.spec, modular ? input.specStore : undefined));
+		const findDropped = (candidate: ClaudeResult) =>
+			config.regressionGuard === "off"
+				? []
+				: findDroppedDeclarations(
+						previousSources,
+						updatedSpecSources(candidate, modular ? base.specStore : undefined),
+						`${broughtIn}\n${candidate.changelog}`,
+					);
+
+		let result = await callModel(model);
+		let dropped = findDropped(result);
+		const retryModel = dropped.length > 0 ? regressionRetryModel(config.regressionGuard, model, config.opusModel) : undefined;
+		let rule = route.rule;
+		if (retryModel) {
+			console.error(
+				`[allium-evolve] Merge ${mergeSha.slice(0, 8)}: response dropped ${dropped.join(", ")}; retrying with ${retryModel}`,
+			);
+			const retried = await callModel(retryModel, formatRegressionFeedback(dropped)).catch(async (err: unknown) => {
+				await opts.onUnrecordedCost?.(result.costUsd);
+				throw err;
+			});
+			// The rejected attempt was paid for too.
+			result = { ...retried, costUsd: result.costUsd + retried.costUsd };
+			if (retryModel !== model) {
+				model = retryModel;
+				rule = undefined;
+			}
+			dropped = findDropped(result);
+		}
+		if (dropped.length > 0) {
+			console.error(
+				`[allium-evolve] Merge ${mergeSha.slice(0, 8)}: spec dropped ${dropped.join(", ")} without the changelog reporting their removal`,
+			);
+		}
+
+		// The merged modules start from the base; Claude lists what the merged lines added or changed.
+		let specStore: SpecStore | undefined;
+		if (modular) {
+			specStore = cloneSpecStore(base.specStore!);
+			applySpecUpdate(specStore, result);
+		}
+
+		const mergedChangelog = `${changelogBase}\n## ${mergeSha.slice(0, 8)} (${kind})\n\n${result.changelog}\n`;
 
 		const originalMessage = node?.message ?? "";
 		const commitMessage = [
 			`allium: ${result.commitMessage}`,
 			"",
 			formatOriginalLine(mergeSha, originalMessage),
-			`Merge: ${trunkSegmentId} + ${branchSegmentId}`,
+			kind === "sync"
+				? `Sync: ${merged.map((input) => input.segmentId).join(" + ")} → ${base.segmentId}`
+				: `Merge: ${inputs.map((input) => input.segmentId).join(" + ")}`,
 			`Model: ${model}`,
+			...(rule ? [`Rule: ${rule}`] : []),
+			...(dropped.length > 0 ? [formatDroppedLine(dropped)] : []),
 		].join("\n");
 
 		const alliumSha = await createAlliumCommit({
 			repoPath: config.repoPath,
 			originalSha: mergeSha,
-			parentShas: [trunkAlliumSha, branchAlliumSha],
+			parentShas: inputs.map((input) => input.alliumSha),
 			specContent: result.spec,
+			specFiles: specStore?.toFileMap(),
 			changelogContent: mergedChangelog,
 			commitMessage,
 		});
 
+		events?.emit({
+			type: "merge-completed",
+			segmentId,
+			mergeSha,
+			model,
+			costUsd: result.costUsd,
+			durationMs: Date.now() - startedAt,
+			alliumSha,
+		});
 		return {
 			alliumSha,
 			mergedSpec: result.spec,
 			mergedChangelog,
+			specStore,
+			model,
+			rule,
 			costUsd: result.costUsd,
+			...(dropped.length > 0 ? { droppedDeclarations: dropped } : {}),
 		};
 	} finally {
 		await ctx.cleanup();
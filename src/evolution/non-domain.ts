@@ -0,0 +1,29 @@
+import type { EvolutionConfig } from "../config.js";
+import { isIgnoredPath, parseDiffIntoFiles } from "./diff-chunker.js";
+
+/** Recorded as the step model for commits that were not sent to the model. */
+export const SKIPPED_MODEL = "skipped";
+
+const GLOB_TOKENS: Record<string, string> = { "**/": "(?:.*/)?", "**": ".*", "*": "[^/]*" };
+
+/**
+ * Match a path against a non-domain glob. Patterns with a `/` match the whole
+ * path (`**` spans directories, `*` stays within one); patterns without one
+ * match the basename, like `diffIgnorePatterns`.
+ */
+export function matchesPathPattern(pattern: string, path: string): boolean {
+	const target = pattern.includes("/") ? path : (path.split("/").pop() ?? path);
+	const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+	const regexStr = escaped.replace(/\*\*\/|\*\*|\*/g, (token) => GLOB_TOKENS[token]!);
+	return new RegExp(`^${regexStr}$`).test(target);
+}
+
+/** Whether a changed file is dropped by `diffIgnorePatterns` or `nonDomainPaths`. */
+export function isNonDomainPath(path: string, config: EvolutionConfig): boolean {
+	return isIgnoredPath(path, config.diffIgnorePatterns) || config.nonDomainPaths.some((p) => matchesPathPattern(p, path));
+}
+
+/** True when nothing in a commit's own diff survives the non-domain filters. */
+export function isNonDomainDiff(diff: string, config: EvolutionConfig): boolean {
+	return parseDiffIntoFiles(diff).every((file) => isNonDomainPath(file.path, config));
+}
@@ -1,18 +1,28 @@
 import type { EvolutionConfig } from "../config.js";
 import { collectAncestors } from "../dag/ancestors.js";
+import { createBackend, type ModelBackend } from "../claude/backend.js";
+import { BudgetedBackend, flagCostCeiling } from "../claude/backends/budget.js";
 import { buildDag } from "../dag/builder.js";
+import { loadCachedDag } from "../dag/cache.js";
 import { decompose } from "../dag/segments.js";
 import { identifyTrunk } from "../dag/trunk.js";
 import type { CommitNode, Segment } from "../dag/types.js";
-import { readChangelogFromCommit, readSpecFromCommit } from "../git/read-spec.js";
+import type { EventBus } from "../events.js";
+import { readChangelogFromCommit, readSpecFromCommit, readSpecModulesFromCommit } from "../git/read-spec.js";
 import { updateRef } from "../git/plumbing.js";
-import type { ShutdownSignal } from "../shutdown.js";
+import { createScheduler } from "../reconciliation/scheduler.js";
+import { GracefulShutdownError, ShutdownSignal } from "../shutdown.js";
+import { cloneSpecStore, createSpecStore, specStoreFromSingleSpec, type SpecStore } from "../spec/store.js";
 import { StateTracker } from "../state/tracker.js";
 import { confirmContinue } from "../utils/confirm.js";
 import type { CompletedStep, SegmentProgress } from "../state/types.js";
 import { exec } from "../utils/exec.js";
+import { collectCommitFacts } from "./commit-facts.js";
+import { computeSetupStats, projectRunCost } from "./estimator.js";
 import { resolveFromAlliumBranch } from "./seed-resolver.js";
-import { runMerge } from "./merge-runner.js";
+import { type MergeInput, runMerge } from "./merge-runner.js";
+import { createReconcileHook, type ReconcileHook } from "./reconcile-hook.js";
+import { formatRunSummary, type RunSummary, summarizeRun } from "./run-summary.js";
 import { runSegment, type SegmentRunnerResult } from "./segment-runner.js";
 
 export type ResumeMode = "fresh" | "state-file" | "allium-branch";
@@ -30,6 +40,19 @@ export interface ResumeInfo {
 	costSoFar?: number;
 }
 
+/** Thrown by `setupEvolution` when every commit on the target ref already has an allium commit. */
+export class UpToDateError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "UpToDateError";
+	}
+}
+
+export interface SetupOptions {
+	/** A DAG already built for `config.targetRef` (e.g. extended by `follow`); skips `git log`. */
+	dag?: Map<string, CommitNode>;
+}
+
 export interface SetupResult {
 	dag: Map<string, CommitNode>;
 	segments: Segment[];
@@ -39,11 +62,15 @@ export interface SetupResult {
 	resumeInfo: ResumeInfo;
 }
 
-export async function setupEvolution(config: EvolutionConfig): Promise<SetupResult> {
+export async function setupEvolution(config: EvolutionConfig, opts: SetupOptions = {}): Promise<SetupResult> {
 	console.error(`[allium-evolve] Starting setup for ${config.repoPath}`);
 	console.error(`[allium-evolve] Target ref: ${config.targetRef}`);
 
-	const dag = await buildDag(config.repoPath, config.targetRef);
+	const dag =
+		opts.dag ??
+		(config.dagCache
+			? await loadCachedDag(config.repoPath, config.targetRef)
+			: await buildDag(config.repoPath, config.targetRef));
 	if (dag.size === 0) {
 		throw new Error(
 			`No commits found for ref '${config.targetRef}'. Verify the repository has commits and the ref exists.`,
@@ -92,6 +119,24 @@ export async function setupEvolution(config: EvolutionConfig): Promise<SetupResu
 				}
 			}
 		}
+		// New commits re-segment the history, and so does a state file written
+		// before forks split segments, so progress keyed by its segment IDs no
+		// longer applies. Its shaMap still records every processed commit.
+		if (!sameSegments(state.segments, segments)) {
+			console.error(
+				"[allium-evolve] State file segments do not match the current history (new commits on the target ref, or a state file from an older version); carrying its progress over to the current segments",
+			);
+			const previous = structuredClone(state);
+			stateTracker.initState(config, segments, rootCommit);
+			stateTracker.carryOver(previous);
+			await seedSegments(config, segments, stateTracker, previous.shaMap, new Set(Object.keys(previous.shaMap)));
+		}
+	}
+	if (isResume) {
+		const state = stateTracker.getState();
+		if (segments.every((seg) => state.segmentProgress[seg.id]?.status === "complete")) {
+			throw new UpToDateError(`State file shows every commit on ${config.targetRef} processed. No new commits to process.`);
+		}
 		console.error("[allium-evolve] Resumed from existing state");
 		resumeInfo = {
 			mode: "state-file",
@@ -113,77 +158,14 @@ export async function setupEvolution(config: EvolutionConfig): Promise<SetupResu
 			const { stdout: tipRef } = await exec(`git rev-parse ${config.targetRef}`, { cwd: config.repoPath });
 			const tipSha = tipRef.trim();
 			if (tipSha === startAfterSha) {
-				throw new Error(
+				throw new UpToDateError(
 					`Allium branch is already at the tip of ${config.targetRef}. No new commits to process.`,
 				);
 			}
 			stateTracker.initState(config, segments, rootCommit);
 			stateTracker.setShaMap(shaMap);
 			stateTracker.updateBranchHead(tipAlliumSha);
-			const ancestorSet = collectAncestors(dag, startAfterSha);
-			for (const segment of segments) {
-				const prefixLength = segment.commits.filter((c) => ancestorSet.has(c)).length;
-				if (prefixLength === 0) continue;
-				if (prefixLength === segment.commits.length) {
-					const segTipSha = segment.commits[segment.commits.length - 1]!;
-					const segTipAlliumSha = shaMap[segTipSha];
-					if (!segTipAlliumSha) {
-						throw new Error(
-							`Cannot seed segment '${segment.id}': no allium SHA found for original commit ${segTipSha.slice(0, 8)}. The corresponding allium commit may have been manually edited or lacks an 'Original:' tag. Fix the allium branch commit message for ${segTipSha.slice(0, 8)}.`,
-						);
-					}
-					const currentSpec = await readSpecFromCommit(config.repoPath, segTipAlliumSha);
-					const currentChangelog = await readChangelogFromCommit(config.repoPath, segTipAlliumSha);
-					const tipStep: CompletedStep = {
-						originalSha: segTipSha,
-						alliumSha: segTipAlliumSha,
-						model: "seeded",
-						costUsd: 0,
-						timestamp: new Date().toISOString(),
-					};
-					stateTracker.seedSegmentProgress(
-						segment.id,
-						{
-							status: "complete",
-							completedSteps: [tipStep],
-							currentSpec,
-							currentChangelog,
-						},
-						segment.commits.length,
-					);
-				} else {
-					const prefixCommits = segment.commits.slice(0, prefixLength);
-					const completedSteps: CompletedStep[] = [];
-					for (const commitSha of prefixCommits) {
-						const alliumSha = shaMap[commitSha];
-						if (!alliumSha) {
-							throw new Error(
-								`Cannot seed partial segment '${segment.id}': no allium SHA found for original commit ${commitSha.slice(0, 8)}. The corresponding allium commit may have been manually edited or lacks an 'Original:' tag. Fix the allium branch commit message for ${commitSha.slice(0, 8)}.`,
-							);
-						}
-						completedSteps.push({
-							originalSha: commitSha,
-							alliumSha,
-							model: "seeded",
-							costUsd: 0,
-							timestamp: new Date().toISOString(),
-						});
-					}
-					const lastAlliumSha = completedSteps[completedSteps.length - 1]!.alliumSha;
-					const currentSpec = await readSpecFromCommit(config.repoPath, lastAlliumSha);
-					const currentChangelog = await readChangelogFromCommit(config.repoPath, lastAlliumSha);
-					stateTracker.seedSegmentProgress(
-						segment.id,
-						{
-							status: "in-progress",
-							completedSteps,
-							currentSpec,
-							currentChangelog,
-						},
-						prefixLength,
-					);
-				}
-			}
+			await seedSegments(config, segments, stateTracker, shaMap, collectAncestors(dag, startAfterSha));
 			isResume = true;
 			console.error("[allium-evolve] Seeded from allium branch");
 			const completedSteps = stateTracker.getState().totalSteps;
@@ -212,6 +194,101 @@ export async function setupEvolution(config: EvolutionConfig): Promise<SetupResu
 	return { dag, segments, rootCommit, stateTracker, isResume, resumeInfo };
 }
 
+/**
+ * Seed segment progress for the commits in `done` from their allium commits
+ * in `shaMap`: whole segments as complete, a leading run of commits as a
+ * partial segment that resumes after it.
+ */
+async function seedSegments(
+	config: EvolutionConfig,
+	segments: Segment[],
+	stateTracker: StateTracker,
+	shaMap: Record<string, string>,
+	done: Set<string>,
+): Promise<void> {
+	for (const segment of segments) {
+		const prefixLength = segment.commits.filter((c) => done.has(c)).length;
+		if (prefixLength === 0) continue;
+		if (prefixLength === segment.commits.length) {
+			const segTipSha = segment.commits[segment.commits.length - 1]!;
+			const segTipAlliumSha = shaMap[segTipSha];
+			if (!segTipAlliumSha) {
+				throw new Error(
+					`Cannot seed segment '${segment.id}': no allium SHA found for original commit ${segTipSha.slice(0, 8)}. The corresponding allium commit may have been manually edited or lacks an 'Original:' tag. Fix the allium branch commit message for ${segTipSha.slice(0, 8)}.`,
+				);
+			}
+			const currentSpec = await readSpecFromCommit(config.repoPath, segTipAlliumSha);
+			const currentSpecModules = await readSpecModulesFromCommit(config.repoPath, segTipAlliumSha);
+			const currentChangelog = await readChangelogFromCommit(config.repoPath, segTipAlliumSha);
+			const tipStep: CompletedStep = {
+				originalSha: segTipSha,
+				alliumSha: segTipAlliumSha,
+				model: "seeded",
+				costUsd: 0,
+				timestamp: new Date().toISOString(),
+			};
+			stateTracker.seedSegmentProgress(
+				segment.id,
+				{
+					status: "complete",
+					completedSteps: [tipStep],
+					currentSpec,
+					currentChangelog,
+					...(currentSpecModules ? { currentSpecModules } : {}),
+				},
+				segment.commits.length,
+			);
+		} else {
+			const prefixCommits = segment.commits.slice(0, prefixLength);
+			const completedSteps: CompletedStep[] = [];
+			for (const commitSha of prefixCommits) {
+				const alliumSha = shaMap[commitSha];
+				if (!alliumSha) {
+					throw new Error(
+						`Cannot seed partial segment '${segment.id}': no allium SHA found for original commit ${commitSha.slice(0, 8)}. The corresponding allium commit may have been manually edited or lacks an 'Original:' tag. Fix the allium branch commit message for ${commitSha.slice(0, 8)}.`,
+					);
+				}
+				completedSteps.push({
+					originalSha: commitSha,
+					alliumSha,
+					model: "seeded",
+					costUsd: 0,
+					timestamp: new Date().toISOString(),
+				});
+			}
+			const lastAlliumSha = completedSteps[completedSteps.length - 1]!.alliumSha;
+			const currentSpec = await readSpecFromCommit(config.repoPath, lastAlliumSha);
+			const currentSpecModules = await readSpecModulesFromCommit(config.repoPath, lastAlliumSha);
+			const currentChangelog = await readChangelogFromCommit(config.repoPath, lastAlliumSha);
+			stateTracker.seedSegmentProgress(
+				segment.id,
+				{
+					status: "in-progress",
+					completedSteps,
+					currentSpec,
+					currentChangelog,
+					...(currentSpecModules ? { currentSpecModules } : {}),
+				},
+				prefixLength,
+			);
+		}
+	}
+}
+
+function sameSegments(a: Segment[], b: Segment[]): boolean {
+	return (
+		a.length === b.length &&
+		a.every((seg, i) => {
+			const other = b[i]!;
+			return (
+				seg.id === other.id &&
+				seg.commits.length === other.commits.length &&
+				seg.commits.every((sha, j) => sha === other.commits[j])
+			);
+		})
+	);
+}
+
 function formatResumeMessage(resumeInfo: ResumeInfo, alliumBranch: string): string {
 	const lines: string[] = [];
 	if (resumeInfo.mode === "allium-branch") {
@@ -239,10 +316,15 @@ function formatResumeMessage(resumeInfo: ResumeInfo, alliumBranch: string): stri
 	return lines.join("\n");
 }
 
-export async function runEvolution(config: EvolutionConfig, shutdownSignal?: ShutdownSignal): Promise<void> {
+export async function runEvolution(
+	config: EvolutionConfig,
+	shutdownSignal?: ShutdownSignal,
+	setupOptions?: SetupOptions,
+	events?: EventBus,
+): Promise<RunSummary> {
 	console.error(`[allium-evolve] Parallel branches: ${config.parallelBranches}`);
 
-	const { dag, segments, stateTracker, resumeInfo } = await setupEvolution(config);
+	const { dag, segments, stateTracker, resumeInfo, isResume } = await setupEvolution(config, setupOptions);
 
 	const message = formatResumeMessage(resumeInfo, config.alliumBranch);
 	console.error(message);
@@ -254,13 +336,13 @@ export async function runEvolution(config: EvolutionConfig, shutdownSignal?: Shu
 		} catch (err) {
 			if (err instanceof Error && err.message.includes("Non-interactive terminal")) {
 				console.error("[allium-evolve] Cannot prompt for confirmation in non-interactive mode. Use --yes / -y to skip.");
-				return;
+				return summarizeRun(stateTracker.getState(), config.alliumBranch, "aborted", { resumeInfo });
 			}
 			throw err;
 		}
 		if (!confirmed) {
 			console.error("[allium-evolve] Aborted by user.");
-			return;
+			return summarizeRun(stateTracker.getState(), config.alliumBranch, "aborted", { resumeInfo });
 		}
 	}
 
@@ -270,27 +352,80 @@ export async function runEvolution(config: EvolutionConfig, shutdownSignal?: Shu
 	for (const seg of segments) {
 		const progress = stateTracker.getSegmentProgress(seg.id);
 		if (progress?.status === "complete" && progress.completedSteps.length > 0) {
-			const lastStep = progress.completedSteps[progress.completedSteps.length - 1]!;
 			segmentResults.set(seg.id, {
 				currentSpec: progress.currentSpec,
 				currentChangelog: progress.currentChangelog,
-				tipAlliumSha: lastStep.alliumSha,
+				tipAlliumSha: getLastAlliumSha(stateTracker, seg.id)!,
 				completedSteps: progress.completedSteps,
+				specStore: resolveSpecStore(config, undefined, progress),
 			});
 		}
 	}
 
-	if (config.parallelBranches) {
-		await runParallel(config, dag, segments, stateTracker, segmentResults, shutdownSignal);
-	} else {
-		await runSequential(config, dag, segments, stateTracker, segmentResults, shutdownSignal);
+	let backend = createBackend(config);
+	if (config.maxSegmentCostUsd !== undefined) {
+		// A segment ceiling stops the whole run, like the budget.
+		shutdownSignal ??= new ShutdownSignal();
+	}
+	if (config.maxCostUsd !== undefined) {
+		shutdownSignal ??= new ShutdownSignal();
+		const spentUsd = stateTracker.getState().totalCostUsd;
+		console.error(`[allium-evolve] Cost budget: $${config.maxCostUsd.toFixed(2)} ($${spentUsd.toFixed(4)} spent so far)`);
+		backend = new BudgetedBackend(backend, {
+			maxCostUsd: config.maxCostUsd,
+			spentUsd,
+			prices: config.modelPrices,
+			shutdownSignal,
+		});
 	}
+	const reconcile = createReconcileHook({
+		config,
+		dag,
+		backend,
+		stateTracker,
+		scheduler: createScheduler(config),
+		events,
+	});
 
-	const state = stateTracker.getState();
-	console.error("[allium-evolve] Evolution complete!");
-	console.error(`  Total steps: ${state.totalSteps}`);
-	console.error(`  Total cost: $${state.totalCostUsd.toFixed(4)}`);
-	console.error(`  Allium branch: ${config.alliumBranch} (${state.alliumBranchHead.slice(0, 8)})`);
+	if (events) {
+		// Only commits still to process need facts, and only their paths: reading patches delays the first step on a long history.
+		const { shaMap } = stateTracker.getState();
+		const pending = [...dag.keys()].filter((sha) => !(sha in shaMap));
+		const stats = computeSetupStats(
+			dag,
+			segments,
+			stateTracker,
+			config,
+			isResume,
+			await collectCommitFacts(config, { withDiffTokens: false, shas: pending }),
+		);
+		events.emit({
+			type: "run-started",
+			totalSteps: stats.totalSteps,
+			completedSteps: stats.completedSteps,
+			spentUsd: stats.costSoFar,
+			estimatedCostUsd: projectRunCost(stats),
+			concurrency: config.parallelBranches ? config.maxConcurrency : 1,
+		});
+	}
+
+	// `follow` reuses one signal across runs, so each run drops its own subscription.
+	const unsubscribe = events
+		? shutdownSignal?.onRequest((reason, message) => events.emit({ type: "shutdown-requested", reason, message }))
+		: undefined;
+	try {
+		if (config.parallelBranches) {
+			await runParallel(config, dag, segments, stateTracker, segmentResults, backend, shutdownSignal, reconcile, events);
+		} else {
+			await runSequential(config, dag, segments, stateTracker, segmentResults, backend, shutdownSignal, reconcile, events);
+		}
+	} finally {
+		unsubscribe?.();
+	}
+
+	const summary = summarizeRun(stateTracker.getState(), config.alliumBranch, "complete", { resumeInfo });
+	console.error(formatRunSummary(summary));
+	return summary;
 }
 
 async function runSequential(
@@ -299,11 +434,14 @@ async function runSequential(
 	segments: Segment[],
 	stateTracker: StateTracker,
 	segmentResults: Map<string, SegmentRunnerResult>,
+	backend: ModelBackend,
 	shutdownSignal?: ShutdownSignal,
+	reconcile?: ReconcileHook,
+	events?: EventBus,
 ): Promise<void> {
 	for (const segment of segments) {
 		shutdownSignal?.assertContinue();
-		await processSegmentOrMerge(config, dag, segment, segments, stateTracker, segmentResults, shutdownSignal);
+		await processSegmentOrMerge(config, dag, segment, stateTracker, segmentResults, backend, shutdownSignal, reconcile, events);
 	}
 }
 
@@ -313,7 +451,10 @@ async function runParallel(
 	segments: Segment[],
 	stateTracker: StateTracker,
 	segmentResults: Map<string, SegmentRunnerResult>,
+	backend: ModelBackend,
 	shutdownSignal?: ShutdownSignal,
+	reconcile?: ReconcileHook,
+	events?: EventBus,
 ): Promise<void> {
 	const completed = new Set<string>();
 	const inProgress = new Map<string, Promise<void>>();
@@ -324,7 +465,7 @@ async function runParallel(
 
 	async function processAndTrack(seg: Segment): Promise<void> {
 		try {
-			await processSegmentOrMerge(config, dag, seg, segments, stateTracker, segmentResults, shutdownSignal);
+			await processSegmentOrMerge(config, dag, seg, stateTracker, segmentResults, backend, shutdownSignal, reconcile, events);
 			completed.add(seg.id);
 		} catch (err) {
 			stateTracker.updateSegmentStatus(seg.id, "failed");
@@ -372,10 +513,12 @@ async function processSegmentOrMerge(
 	config: EvolutionConfig,
 	dag: Map<string, CommitNode>,
 	segment: Segment,
-	allSegments: Segment[],
 	stateTracker: StateTracker,
 	segmentResults: Map<string, SegmentRunnerResult>,
+	backend: ModelBackend,
 	shutdownSignal?: ShutdownSignal,
+	reconcile?: ReconcileHook,
+	events?: EventBus,
 ): Promise<void> {
 	const progress = stateTracker.getSegmentProgress(segment.id);
 	if (progress?.status === "complete") {
@@ -389,13 +532,43 @@ async function processSegmentOrMerge(
 	}
 
 	const firstCommit = dag.get(firstCommitSha);
-	const isMergeStart = firstCommit && firstCommit.parents.length > 1 && segment.type === "trunk";
-
-	if (isMergeStart) {
-		await handleMergeAndSegment(config, dag, segment, allSegments, stateTracker, segmentResults, shutdownSignal);
-	} else {
-		await handleSegment(config, dag, segment, stateTracker, segmentResults, shutdownSignal);
+	const isMergeStart = firstCommit && firstCommit.parents.length > 1;
+
+	events?.emit({
+		type: "segment-started",
+		segmentId: segment.id,
+		segmentType: segment.type,
+		commits: segment.commits.length,
+		completedSteps: progress?.completedSteps.length ?? 0,
+	});
+	try {
+		if (isMergeStart) {
+			await handleMergeAndSegment(
+				config,
+				dag,
+				segment,
+				stateTracker,
+				segmentResults,
+				backend,
+				shutdownSignal,
+				reconcile,
+				events,
+			);
+		} else {
+			await handleSegment(config, dag, segment, stateTracker, segmentResults, backend, shutdownSignal, reconcile, events);
+		}
+	} catch (err) {
+		// A graceful stop leaves the segment resumable rather than failed.
+		if (!(err instanceof GracefulShutdownError)) {
+			events?.emit({
+				type: "segment-failed",
+				segmentId: segment.id,
+				error: err instanceof Error ? err.message : String(err),
+			});
+		}
+		throw err;
 	}
+	events?.emit({ type: "segment-completed", segmentId: segment.id });
 }
 
 async function handleSegment(
@@ -404,7 +577,10 @@ async function handleSegment(
 	segment: Segment,
 	stateTracker: StateTracker,
 	segmentResults: Map<string, SegmentRunnerResult>,
+	backend: ModelBackend,
 	shutdownSignal?: ShutdownSignal,
+	reconcile?: ReconcileHook,
+	events?: EventBus,
 ): Promise<void> {
 	console.error(
 		`[allium-evolve] Processing segment: ${segment.id} (${segment.type}, ${segment.commits.length} commits)`,
@@ -414,6 +590,7 @@ async function handleSegment(
 	let initialChangelog = "";
 	let parentAlliumSha: string | null = null;
 	let trunkContextShas: string[] | undefined;
+	let specStore: SpecStore | undefined;
 
 	if (segment.dependsOn.length > 0) {
 		const depId = segment.dependsOn[0]!;
@@ -422,24 +599,24 @@ async function handleSegment(
 			initialSpec = depResult.currentSpec;
 			initialChangelog = depResult.currentChangelog;
 			parentAlliumSha = depResult.tipAlliumSha;
+			specStore = resolveSpecStore(config, depResult);
 		} else {
 			const depProgress = stateTracker.getSegmentProgress(depId);
 			if (depProgress) {
 				initialSpec = depProgress.currentSpec;
 				initialChangelog = depProgress.currentChangelog;
-				const lastStep = depProgress.completedSteps[depProgress.completedSteps.length - 1];
-				if (lastStep) {
-					parentAlliumSha = lastStep.alliumSha;
-				}
+				parentAlliumSha = getLastAlliumSha(stateTracker, depId) ?? null;
+				specStore = resolveSpecStore(config, undefined, depProgress);
 			}
 		}
 	}
+	specStore ??= resolveSpecStore(config);
 
-	if (segment.forkFrom && segment.type !== "trunk") {
-		const forkNode = dag.get(segment.forkFrom);
-		if (forkNode) {
-			trunkContextShas = getTrunkContextBefore(dag, segment.forkFrom, config.windowSize - 1);
-		}
+	// Branches start from their fork point; a trunk segment split off at a
+	// fork carries on from the trunk commit before it.
+	const contextFrom = segment.type === "trunk" ? singleParentOf(dag, segment) : segment.forkFrom;
+	if (contextFrom && dag.has(contextFrom)) {
+		trunkContextShas = getTrunkContextBefore(dag, contextFrom, config.windowSize - 1);
 	}
 
 	const existingProgress = stateTracker.getSegmentProgress(segment.id);
@@ -451,17 +628,22 @@ async function handleSegment(
 		segment,
 		config,
 		dag,
+		backend,
 		initialSpec,
 		initialChangelog,
 		parentAlliumSha,
 		trunkContextShas,
-		onStepComplete: async (step: CompletedStep, spec: string, changelog: string) => {
-			stateTracker.recordStep(segment.id, step, spec, changelog);
+		onStepComplete: async (step, spec, changelog, specModules) => {
+			flagCostCeiling(step, config);
+			stateTracker.recordStep(segment.id, step, spec, changelog, specModules);
 			await stateTracker.save();
 		},
 		stateTracker,
+		specStore,
 		existingProgress,
 		shutdownSignal,
+		reconcile,
+		events,
 	});
 
 	segmentResults.set(segment.id, result);
@@ -480,43 +662,43 @@ async function handleMergeAndSegment(
 	config: EvolutionConfig,
 	dag: Map<string, CommitNode>,
 	segment: Segment,
-	allSegments: Segment[],
 	stateTracker: StateTracker,
 	segmentResults: Map<string, SegmentRunnerResult>,
+	backend: ModelBackend,
 	shutdownSignal?: ShutdownSignal,
+	reconcile?: ReconcileHook,
+	events?: EventBus,
 ): Promise<void> {
 	const mergeSha = segment.commits[0]!;
+	const mergePoint = segment.mergePoint;
 
-	const trunkDepId = segment.dependsOn.find((id) => {
-		const dep = allSegments.find((s) => s.id === id);
-		return dep?.type === "trunk";
-	});
-	const branchDepId = segment.dependsOn.find((id) => {
-		const dep = allSegments.find((s) => s.id === id);
-		return dep?.type === "branch";
-	});
-
-	if (!trunkDepId || !branchDepId) {
+	if (!mergePoint) {
 		console.error(
-			`[allium-evolve] Merge ${mergeSha.slice(0, 8)} missing trunk or branch dep, treating as regular segment`,
+			`[allium-evolve] Merge ${mergeSha.slice(0, 8)} has fewer than two parent segments, treating as regular segment`,
 		);
-		await handleSegment(config, dag, segment, stateTracker, segmentResults, shutdownSignal);
+		await handleSegment(config, dag, segment, stateTracker, segmentResults, backend, shutdownSignal, reconcile, events);
 		return;
 	}
 
-	const trunkResult = segmentResults.get(trunkDepId);
-	const branchResult = segmentResults.get(branchDepId);
-
-	const trunkSpec = trunkResult?.currentSpec ?? stateTracker.getSegmentProgress(trunkDepId)?.currentSpec ?? "";
-	const branchSpec = branchResult?.currentSpec ?? stateTracker.getSegmentProgress(branchDepId)?.currentSpec ?? "";
-	const trunkChangelog =
-		trunkResult?.currentChangelog ?? stateTracker.getSegmentProgress(trunkDepId)?.currentChangelog ?? "";
-	const branchChangelog =
-		branchResult?.currentChangelog ?? stateTracker.getSegmentProgress(branchDepId)?.currentChangelog ?? "";
-	const trunkAlliumSha = trunkResult?.tipAlliumSha ?? getLastAlliumSha(stateTracker, trunkDepId) ?? "";
-	const branchAlliumSha = branchResult?.tipAlliumSha ?? getLastAlliumSha(stateTracker, branchDepId) ?? "";
+	const inputs: MergeInput[] = segment.dependsOn.map((depId) => {
+		const depResult = segmentResults.get(depId);
+		const depProgress = stateTracker.getSegmentProgress(depId);
+		return {
+			segmentId: depId,
+			spec: depResult?.currentSpec ?? depProgress?.currentSpec ?? "",
+			changelog: depResult?.currentChangelog ?? depProgress?.currentChangelog ?? "",
+			alliumSha: depResult?.tipAlliumSha ?? getLastAlliumSha(stateTracker, depId) ?? "",
+			specStore: resolveSpecStore(config, depResult, depProgress),
+		};
+	});
 
-	console.error(`[allium-evolve] Merging: ${trunkDepId} + ${branchDepId} at ${mergeSha.slice(0, 8)}`);
+	if (mergePoint.kind === "sync") {
+		console.error(
+			`[allium-evolve] Syncing: ${mergePoint.mergedSegmentIds.join(" + ")} into ${mergePoint.baseSegmentId} at ${mergeSha.slice(0, 8)}`,
+		);
+	} else {
+		console.error(`[allium-evolve] Merging: ${segment.dependsOn.join(" + ")} at ${mergeSha.slice(0, 8)}`);
+	}
 
 	stateTracker.updateSegmentStatus(segment.id, "in-progress");
 	await stateTracker.save();
@@ -528,6 +710,7 @@ async function handleMergeAndSegment(
 	let currentSpec: string;
 	let currentChangelog: string;
 	let tipAlliumSha: string;
+	let specStore: SpecStore | undefined;
 
 	if (segmentProgress && segmentProgress.completedSteps.length > 0) {
 		const steps = segmentProgress.completedSteps;
@@ -541,9 +724,13 @@ async function handleMergeAndSegment(
 
 			if (isValidPostMergePrefix) {
 				mergeStep = steps[0];
-				tipAlliumSha = mergeStep!.alliumSha;
+				tipAlliumSha =
+					postMergeSteps.length === 0
+						? (stateTracker.getSegmentTipAlliumSha(segment.id) ?? mergeStep!.alliumSha)
+						: mergeStep!.alliumSha;
 				currentSpec = segmentProgress.currentSpec;
 				currentChangelog = segmentProgress.currentChangelog;
+				specStore = resolveSpecStore(config, undefined, segmentProgress);
 
 				filteredProgress = {
 					...segmentProgress,
@@ -563,40 +750,74 @@ async function handleMergeAndSegment(
 	}
 
 	if (!filteredProgress) {
+		const startedAt = Date.now();
 		const mergeResult = await runMerge({
 			mergeSha,
-			trunkSpec,
-			branchSpec,
-			trunkChangelog,
-			branchChangelog,
-			trunkAlliumSha,
-			branchAlliumSha,
-			trunkSegmentId: trunkDepId,
-			branchSegmentId: branchDepId,
+			inputs,
+			kind: mergePoint.kind,
+			segmentType: segment.type,
 			config,
 			dag,
+			backend,
+			segmentId: segment.id,
+			onUnrecordedCost: async (costUsd) => {
+				stateTracker.recordSpend(costUsd);
+				await stateTracker.save();
+			},
+			events,
 		});
 
 		stateTracker.recordMerge({
 			mergeSha,
 			alliumSha: mergeResult.alliumSha,
-			trunkSegmentId: trunkDepId,
-			branchSegmentId: branchDepId,
+			baseSegmentId: mergePoint.baseSegmentId,
+			mergedSegmentIds: mergePoint.mergedSegmentIds,
 			timestamp: new Date().toISOString(),
 		});
 
 		mergeStep = {
 			originalSha: mergeSha,
 			alliumSha: mergeResult.alliumSha,
-			model: "opus",
+			model: mergeResult.model,
 			costUsd: mergeResult.costUsd,
 			timestamp: new Date().toISOString(),
+			durationMs: Date.now() - startedAt,
 		};
-		stateTracker.recordStep(segment.id, mergeStep, mergeResult.mergedSpec, mergeResult.mergedChangelog);
+		if (mergeResult.rule) {
+			mergeStep.rule = mergeResult.rule;
+		}
+		if (mergeResult.droppedDeclarations) {
+			mergeStep.droppedDeclarations = mergeResult.droppedDeclarations;
+		}
+		flagCostCeiling(mergeStep, config);
+		stateTracker.recordStep(
+			segment.id,
+			mergeStep,
+			mergeResult.mergedSpec,
+			mergeResult.mergedChangelog,
+			mergeResult.specStore?.toSerializable(),
+		);
 
 		tipAlliumSha = mergeResult.alliumSha;
 		currentSpec = mergeResult.mergedSpec;
 		currentChangelog = mergeResult.mergedChangelog;
+		specStore = mergeResult.specStore;
+		await stateTracker.save();
+
+		const reconciled = await reconcile?.({
+			segment,
+			commitSha: mergeSha,
+			diffTokens: 0,
+			currentSpec,
+			currentChangelog,
+			tipAlliumSha,
+			specStore,
+		});
+		if (reconciled) {
+			currentSpec = reconciled.spec;
+			currentChangelog = reconciled.changelog;
+			tipAlliumSha = reconciled.alliumSha;
+		}
 	}
 
 	if (remainingCommits.length > 0) {
@@ -611,16 +832,21 @@ async function handleMergeAndSegment(
 			segment: subSegment,
 			config,
 			dag,
+			backend,
 			initialSpec: currentSpec!,
 			initialChangelog: currentChangelog!,
 			parentAlliumSha: tipAlliumSha!,
-			onStepComplete: async (step: CompletedStep, spec: string, changelog: string) => {
-				stateTracker.recordStep(segment.id, step, spec, changelog);
+			onStepComplete: async (step, spec, changelog, specModules) => {
+				flagCostCeiling(step, config);
+				stateTracker.recordStep(segment.id, step, spec, changelog, specModules);
 				await stateTracker.save();
 			},
 			stateTracker,
+			specStore,
 			existingProgress: filteredProgress,
 			shutdownSignal,
+			reconcile,
+			events,
 		});
 
 		currentSpec = subResult.currentSpec;
@@ -633,24 +859,51 @@ async function handleMergeAndSegment(
 		currentSpec: currentSpec!,
 		currentChangelog: currentChangelog!,
 		tipAlliumSha: tipAlliumSha!,
+		specStore,
 	};
 	segmentResults.set(segment.id, result);
 
 	stateTracker.updateSegmentStatus(segment.id, "complete");
-	await updateRef(config.repoPath, `refs/heads/${config.alliumBranch}`, tipAlliumSha!);
-	stateTracker.updateBranchHead(tipAlliumSha!);
+	if (segment.type === "trunk") {
+		await updateRef(config.repoPath, `refs/heads/${config.alliumBranch}`, tipAlliumSha!);
+		stateTracker.updateBranchHead(tipAlliumSha!);
+	} else if (config.parallelBranches) {
+		await updateRef(config.repoPath, `refs/allium/segments/${segment.id}`, tipAlliumSha!);
+	}
 	await stateTracker.save();
 
 	console.error(`[allium-evolve] Completed merge segment: ${segment.id}`);
 }
 
-function getLastAlliumSha(stateTracker: StateTracker, segmentId: string): string | undefined {
-	const progress = stateTracker.getSegmentProgress(segmentId);
-	if (!progress) {
+/**
+ * Each segment evolves its own copy of the module tree; branches that fork
+ * from the same dependency must not share one store.
+ */
+function resolveSpecStore(
+	config: EvolutionConfig,
+	result?: SegmentRunnerResult,
+	progress?: SegmentProgress,
+): SpecStore | undefined {
+	if (!config.modularSpec) {
 		return undefined;
 	}
-	const lastStep = progress.completedSteps[progress.completedSteps.length - 1];
-	return lastStep?.alliumSha;
+	if (result?.specStore) {
+		return cloneSpecStore(result.specStore);
+	}
+	if (progress?.currentSpecModules) {
+		return createSpecStore(progress.currentSpecModules);
+	}
+	return specStoreFromSingleSpec(result?.currentSpec ?? progress?.currentSpec ?? "");
+}
+
+function getLastAlliumSha(stateTracker: StateTracker, segmentId: string): string | undefined {
+	return stateTracker.getSegmentTipAlliumSha(segmentId);
+}
+
+/** The parent of the segment's first commit, unless that commit is a merge or a root. */
+function singleParentOf(dag: Map<string, CommitNode>, segment: Segment): string | null {
+	const parents = dag.get(segment.commits[0]!)?.parents ?? [];
+	return parents.length === 1 ? parents[0]! : null;
 }
 
 function getTrunkContextBefore(dag: Map<string, CommitNode>, forkSha: string, count: number): string[] {
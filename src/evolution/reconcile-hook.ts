@@ -0,0 +1,195 @@
+import type { ModelBackend } from "../claude/backend.js";
+import type { EvolutionConfig } from "../config.js";
+import type { CommitNode, Segment } from "../dag/types.js";
+import type { EventBus } from "../events.js";
+import { formatOriginalLine } from "../git/commit-metadata.js";
+import { createAlliumCommit, updateRef } from "../git/plumbing.js";
+import { runReconciliation, summarizeFindings } from "../reconciliation/runner.js";
+import type { ReconciliationContext, ReconciliationScheduler } from "../reconciliation/scheduler.js";
+import { assembleFullSpec } from "../claude/context.js";
+import { failedCallCost } from "../claude/runner.js";
+import { applySpecUpdate, type SpecStore } from "../spec/store.js";
+import type { StateTracker } from "../state/tracker.js";
+
+/** Under `.allium/` so it cannot overwrite a source file of the same name in the commit's tree. */
+export const FINDINGS_FILE = ".allium/findings.json";
+
+export interface ReconcileOutcome {
+	spec: string;
+	changelog: string;
+	alliumSha: string;
+}
+
+/**
+ * Called after every completed step. Returns the reconciled spec and the
+ * allium commit it was written to when the scheduler fired, `null` otherwise.
+ * A `specStore` is updated in place with the reconciled modules.
+ */
+export type ReconcileHook = (opts: {
+	segment: Segment;
+	commitSha: string;
+	diffTokens: number;
+	currentSpec: string;
+	currentChangelog: string;
+	tipAlliumSha: string;
+	specStore?: SpecStore;
+}) => Promise<ReconcileOutcome | null>;
+
+export function createReconcileHook(opts: {
+	config: EvolutionConfig;
+	dag: Map<string, CommitNode>;
+	backend: ModelBackend;
+	stateTracker: StateTracker;
+	scheduler: ReconciliationScheduler;
+	events?: EventBus;
+}): ReconcileHook {
+	const { config, dag, backend, stateTracker, scheduler, events } = opts;
+	// Parallel segments share one schedule; a second segment crossing the
+	// threshold while a reconciliation is running would only duplicate it.
+	let inFlight = false;
+
+	return async ({ segment, commitSha, diffTokens, currentSpec, currentChangelog, tipAlliumSha, specStore }) => {
+		stateTracker.addDiffTokens(diffTokens);
+		if (inFlight) {
+			return null;
+		}
+
+		const reconciliationState = stateTracker.getReconciliationState();
+		const totalSteps = stateTracker.getState().totalSteps;
+		const trunkSteps = stateTracker.getTrunkStepCount();
+		const ctx: ReconciliationContext = {
+			totalStepsCompleted: totalSteps,
+			trunkStepsCompleted: trunkSteps,
+			cumulativeDiffTokensSinceLastReconciliation: reconciliationState.cumulativeDiffTokens,
+			segmentType: segment.type,
+			lastReconciliationStep: reconciliationState.lastStep,
+		};
+		if (!scheduler.shouldReconcile(ctx)) {
+			return null;
+		}
+
+		// The trunk scheduler measures its interval in trunk steps, the others in total steps.
+		const atStep = config.reconciliation.strategy === "n-trunk-commits" ? trunkSteps : totalSteps;
+
+		inFlight = true;
+		try {
+			console.error(
+				`[allium-evolve] Reconciling spec against source at ${commitSha.slice(0, 8)} (${config.reconciliation.strategy}, step ${atStep})`,
+			);
+			// Reconciliation compares against the whole source, so it needs every module.
+			const result = await runReconciliation({
+				currentSpec: specStore ? assembleFullSpec(specStore) : currentSpec,
+				commitSha,
+				config,
+				backend,
+				lastReconciliationSha: reconciliationState.lastSha,
+				modular: specStore !== undefined,
+				events,
+			}).catch(async (err: unknown) => {
+				const costUsd = failedCallCost(err);
+				if (costUsd > 0) {
+					stateTracker.recordSpend(costUsd);
+					await stateTracker.save();
+				}
+				throw err;
+			});
+
+			if (result.skipped) {
+				stateTracker.recordReconciliation(
+					{
+						segmentId: segment.id,
+						atStep,
+						atSha: commitSha,
+						alliumSha: tipAlliumSha,
+						model: result.model,
+						costUsd: 0,
+						findingsCount: 0,
+						skipped: true,
+						timestamp: new Date().toISOString(),
+					},
+					commitSha,
+				);
+				await stateTracker.save();
+				events?.emit({
+					type: "reconciliation",
+					segmentId: segment.id,
+					atSha: commitSha,
+					model: result.model,
+					costUsd: 0,
+					findings: 0,
+					skipped: true,
+					alliumSha: tipAlliumSha,
+				});
+				return null;
+			}
+
+			const changelog = `${currentChangelog}\n${result.changelog}\n`;
+			if (specStore) {
+				applySpecUpdate(specStore, { spec: result.updatedSpec, modules: result.modules });
+			}
+			const commitMessage = [
+				`allium: ${result.commitMessage}`,
+				"",
+				formatOriginalLine(commitSha, dag.get(commitSha)?.message ?? ""),
+				`Reconciliation: ${config.reconciliation.strategy} (step ${atStep})`,
+				`Findings: ${summarizeFindings(result.findings)}`,
+				`Model: ${result.model}`,
+			].join("\n");
+
+			const alliumSha = await createAlliumCommit({
+				repoPath: config.repoPath,
+				originalSha: commitSha,
+				parentShas: tipAlliumSha ? [tipAlliumSha] : [],
+				specContent: result.updatedSpec,
+				changelogContent: changelog,
+				specFiles: specStore?.toFileMap(),
+				extraFiles: new Map([[FINDINGS_FILE, `${JSON.stringify(result.findings, null, 2)}\n`]]),
+				commitMessage,
+				segmentId: segment.id,
+			});
+
+			console.error(
+				`[allium-evolve] Reconciliation at ${commitSha.slice(0, 8)}: ${summarizeFindings(result.findings)} findings → ${alliumSha.slice(0, 8)}:${FINDINGS_FILE}`,
+			);
+
+			if (config.parallelBranches && segment.type !== "trunk") {
+				await updateRef(config.repoPath, `refs/allium/segments/${segment.id}`, alliumSha);
+			}
+
+			stateTracker.recordReconciliation(
+				{
+					segmentId: segment.id,
+					atStep,
+					atSha: commitSha,
+					alliumSha,
+					model: result.model,
+					costUsd: result.costUsd,
+					findingsCount: result.findings.length,
+					skipped: false,
+					timestamp: new Date().toISOString(),
+				},
+				commitSha,
+				{
+					currentSpec: result.updatedSpec,
+					currentChangelog: changelog,
+					currentSpecModules: specStore?.toSerializable(),
+				},
+			);
+			await stateTracker.save();
+			events?.emit({
+				type: "reconciliation",
+				segmentId: segment.id,
+				atSha: commitSha,
+				model: result.model,
+				costUsd: result.costUsd,
+				findings: result.findings.length,
+				skipped: false,
+				alliumSha,
+			});
+
+			return { spec: result.updatedSpec, changelog, alliumSha };
+		} finally {
+			inFlight = false;
+		}
+	};
+}
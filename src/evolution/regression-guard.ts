@@ -0,0 +1,94 @@
+import type { RegressionGuardMode } from "../config.js";
+import type { AlliumSpec } from "../spec/allium/ast.js";
+import { parseAllium } from "../spec/allium/parser.js";
+import { applySpecUpdate, cloneSpecStore, type SpecStore } from "../spec/store.js";
+
+/** Trailer on allium commits listing the declarations a step dropped without saying so. */
+export const DROPPED_PREFIX = "Dropped: ";
+
+/** A changelog line naming a declaration with one of these words counts as reporting its removal. */
+const REMOVAL_PATTERN = /\b(remov|delet|drop|deprecat|retir|renam|replac|consolidat|split|eliminat|obsolet)/i;
+
+/** The spec texts to compare: `spec` alone, or the master and every module of `store`. */
+export function specSources(spec: string, store?: SpecStore): string[] {
+	return store ? [store.getMasterSpec(), ...store.getAllModules().values()] : [spec];
+}
+
+/** The spec texts after a model response: its spec alone, or `store` with the response applied to a copy. */
+export function updatedSpecSources(
+	update: { spec: string; modules?: Record<string, string> },
+	store?: SpecStore,
+): string[] {
+	if (!store) {
+		return [update.spec];
+	}
+	const next = cloneSpecStore(store);
+	applySpecUpdate(next, update);
+	return specSources(update.spec, next);
+}
+
+/** `keyword Name` → name for each named top-level declaration. Sources that do not parse are skipped. */
+function topLevelDeclarations(sources: string[]): Map<string, string> {
+	const found = new Map<string, string>();
+	for (const source of sources) {
+		let spec: AlliumSpec;
+		try {
+			spec = parseAllium(source);
+		} catch {
+			// Specs written before responses were parsed may not parse; nothing to compare there.
+			continue;
+		}
+		for (const declaration of spec.declarations) {
+			if (declaration.name) {
+				found.set(`${declaration.keyword} ${declaration.name}`, declaration.name);
+			}
+		}
+	}
+	return found;
+}
+
+/**
+ * Top-level declarations present before a step (in any of `previous`) and
+ * gone after it, whose removal no line of `changelog` reports. Each is
+ * `keyword Name`, e.g. `entity Subscription`.
+ */
+export function findDroppedDeclarations(previous: string[], next: string[], changelog: string): string[] {
+	const after = topLevelDeclarations(next);
+	const reported = changelog.split("\n").filter((line) => REMOVAL_PATTERN.test(line));
+	const dropped: string[] = [];
+	for (const [key, name] of topLevelDeclarations(previous)) {
+		if (after.has(key)) {
+			continue;
+		}
+		const mention = new RegExp(`\\b${name}\\b`);
+		if (!reported.some((line) => mention.test(line))) {
+			dropped.push(key);
+		}
+	}
+	return dropped;
+}
+
+/** Appended to the prompt when a step is retried for dropping declarations. */
+export function formatRegressionFeedback(dropped: string[]): string {
+	return [
+		"## Your previous response dropped declarations",
+		"",
+		"These top-level declarations were in the specification before this change and are missing from your response, and the changelog does not say they were removed:",
+		"",
+		...dropped.map((key) => `- \`${key}\``),
+		"",
+		"Restore them, or, if the change really removes them, say so in the changelog. Return the complete response again.",
+	].join("\n");
+}
+
+/** Model to retry with after a step dropped declarations, or `undefined` when the guard only warns. */
+export function regressionRetryModel(mode: RegressionGuardMode, model: string, opusModel: string): string | undefined {
+	if (mode === "retry") {
+		return model;
+	}
+	return mode === "escalate" ? opusModel : undefined;
+}
+
+export function formatDroppedLine(dropped: string[]): string {
+	return `${DROPPED_PREFIX}${dropped.join(", ")}`;
+}
@@ -0,0 +1,66 @@
+import type { EvolutionState } from "../state/types.js";
+import type { ResumeInfo } from "./orchestrator.js";
+
+/** How a run ended. */
+export type RunStatus = "complete" | "aborted" | "up-to-date" | "failed" | "shutdown" | "budget-reached";
+
+/** End-of-run report; `--output json` prints it on stdout. */
+export interface RunSummary {
+	status: RunStatus;
+	/** How the run started; unset when setup itself did not finish. */
+	resumeInfo?: ResumeInfo;
+	totalSteps: number;
+	totalCostUsd: number;
+	alliumBranch: string;
+	/** Allium branch head recorded in the state file; `null` before the first step. */
+	alliumHead: string | null;
+	/** Segments marked failed, plus those still in progress when a run failed. */
+	failedSegments: string[];
+	/** Completed steps per model, `skipped` included. */
+	modelCounts: Record<string, number>;
+	error?: string;
+}
+
+export function summarizeRun(
+	state: EvolutionState | undefined,
+	alliumBranch: string,
+	status: RunStatus,
+	extra: { resumeInfo?: ResumeInfo; error?: string } = {},
+): RunSummary {
+	const modelCounts: Record<string, number> = {};
+	const failedSegments: string[] = [];
+	for (const [segmentId, progress] of Object.entries(state?.segmentProgress ?? {})) {
+		if (progress.status === "failed" || (status === "failed" && progress.status === "in-progress")) {
+			failedSegments.push(segmentId);
+		}
+		for (const step of progress.completedSteps) {
+			modelCounts[step.model] = (modelCounts[step.model] ?? 0) + 1;
+		}
+	}
+
+	const summary: RunSummary = {
+		status,
+		totalSteps: state?.totalSteps ?? 0,
+		totalCostUsd: state?.totalCostUsd ?? 0,
+		alliumBranch,
+		alliumHead: state?.alliumBranchHead || null,
+		failedSegments,
+		modelCounts,
+	};
+	if (extra.resumeInfo) {
+		summary.resumeInfo = extra.resumeInfo;
+	}
+	if (extra.error !== undefined) {
+		summary.error = extra.error;
+	}
+	return summary;
+}
+
+export function formatRunSummary(summary: RunSummary): string {
+	return [
+		"[allium-evolve] Evolution complete!",
+		`  Total steps: ${summary.totalSteps}`,
+		`  Total cost: $${summary.totalCostUsd.toFixed(4)}`,
+		`  Allium branch: ${summary.alliumBranch} (${summary.alliumHead?.slice(0, 8) ?? "none"})`,
+	].join("\n");
+}
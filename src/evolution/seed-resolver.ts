@@ -1,4 +1,4 @@
-import { parseOriginalSha } from "../git/commit-metadata.js";
+import { parseOriginalShas } from "../git/commit-metadata.js";
 import { exec } from "../utils/exec.js";
 
 // NOTE: These separators are embedded directly in git --format strings. If a commit
@@ -50,9 +50,9 @@ export async function resolveFromAlliumBranch(
 		const idx = record.indexOf(FIELD_SEP);
 		if (idx === -1) continue;
 		const body = record.slice(idx + FIELD_SEP.length);
-		const originalSha = parseOriginalSha(body);
-		if (originalSha) {
-			anchorOriginalSha = originalSha;
+		const originalShas = parseOriginalShas(body);
+		if (originalShas.length > 0) {
+			anchorOriginalSha = originalShas[originalShas.length - 1]!;
 			break;
 		}
 		commitsBeyondAnchor += 1;
@@ -105,9 +105,10 @@ export async function buildShaMapFromAlliumBranch(
 		if (idx === -1) continue;
 		const alliumSha = record.slice(0, idx).trim();
 		const body = record.slice(idx + FIELD_SEP.length);
-		const originalSha = parseOriginalSha(body);
-		if (originalSha && !shaMap[originalSha]) {
-			shaMap[originalSha] = alliumSha;
+		for (const originalSha of parseOriginalShas(body)) {
+			if (!shaMap[originalSha]) {
+				shaMap[originalSha] = alliumSha;
+			}
 		}
 	}
 
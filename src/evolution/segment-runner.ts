@@ -1,23 +1,41 @@
 import { readFile } from "node:fs/promises";
 import { dirname, resolve } from "node:path";
 import { fileURLToPath } from "node:url";
+import type { ModelBackend } from "../claude/backend.js";
+import { assertSegmentCeiling } from "../claude/backends/budget.js";
 import { assembleContext, assembleModuleSpec } from "../claude/context.js";
-import { getModelForStep, type StepType } from "../claude/models.js";
+import { type ModelRoute, type RoutingInput, routeModel, type StepType } from "../claude/models.js";
 import {
 	type ClaudeResult,
+	failedCallCost,
 	invokeClaudeForStep,
 	writeContextFiles,
 	formatManifest,
 } from "../claude/runner.js";
 import type { EvolutionConfig } from "../config.js";
 import type { CommitNode, Segment } from "../dag/types.js";
+import type { EventBus } from "../events.js";
 import { formatOriginalLine } from "../git/commit-metadata.js";
+import { getDiff } from "../git/diff.js";
 import { createAlliumCommit, updateRef } from "../git/plumbing.js";
 import type { ShutdownSignal } from "../shutdown.js";
-import type { SpecStore } from "../spec/store.js";
+import { applySpecUpdate, restoreSpecStore, type SpecStore } from "../spec/store.js";
 import type { StateTracker } from "../state/tracker.js";
-import type { CompletedStep, SegmentProgress } from "../state/types.js";
-import { advance, createWindow, seedWindow, type WindowState } from "./window.js";
+import type { CompletedStep, SegmentProgress, SubCallCost } from "../state/types.js";
+import { mapWithConcurrency } from "../utils/concurrency.js";
+import { collectBatch, filteredDiffTokens } from "./batcher.js";
+import { chunkDiff, type DiffChunk, formatChunkDiff } from "./diff-chunker.js";
+import { isNonDomainDiff, isNonDomainPath, SKIPPED_MODEL } from "./non-domain.js";
+import type { ReconcileHook } from "./reconcile-hook.js";
+import {
+	findDroppedDeclarations,
+	formatDroppedLine,
+	formatRegressionFeedback,
+	regressionRetryModel,
+	specSources,
+	updatedSpecSources,
+} from "./regression-guard.js";
+import { advance, createWindow, getFullDiffShas, seedWindow, type WindowState } from "./window.js";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const PROMPTS_DIR = resolve(__dirname, "../../prompts");
@@ -30,7 +48,12 @@ export interface SegmentRunnerResult {
 	specStore?: SpecStore;
 }
 
-export type StepCallback = (step: CompletedStep, currentSpec: string, currentChangelog: string) => Promise<void>;
+export type StepCallback = (
+	step: CompletedStep,
+	currentSpec: string,
+	currentChangelog: string,
+	currentSpecModules?: Record<string, string>,
+) => Promise<void>;
 
 async function loadPromptTemplate(name: string): Promise<string> {
 	return readFile(resolve(PROMPTS_DIR, `${name}.md`), "utf-8");
@@ -53,6 +76,7 @@ export async function runSegment(opts: {
 	segment: Segment;
 	config: EvolutionConfig;
 	dag: Map<string, CommitNode>;
+	backend: ModelBackend;
 	initialSpec: string;
 	initialChangelog: string;
 	parentAlliumSha: string | null;
@@ -62,11 +86,14 @@ export async function runSegment(opts: {
 	specStore?: SpecStore;
 	existingProgress?: SegmentProgress;
 	shutdownSignal?: ShutdownSignal;
+	reconcile?: ReconcileHook;
+	events?: EventBus;
 }): Promise<SegmentRunnerResult> {
 	const {
 		segment,
 		config,
 		dag,
+		backend,
 		initialSpec,
 		initialChangelog,
 		parentAlliumSha,
@@ -75,9 +102,19 @@ export async function runSegment(opts: {
 		stateTracker,
 		specStore,
 		shutdownSignal,
+		reconcile,
+		events,
 	} = opts;
 	let existingProgress = opts.existingProgress;
 
+	// Calls of a step that fails before it is recorded still count towards the budget.
+	const recordUnrecordedCost = async (costUsd: number) => {
+		if (stateTracker && costUsd > 0) {
+			stateTracker.recordSpend(costUsd);
+			await stateTracker.save();
+		}
+	};
+
 	let windowState: WindowState = createWindow(config.windowSize, config.processDepth);
 
 	if (trunkContextShas && trunkContextShas.length > 0) {
@@ -103,18 +140,64 @@ export async function runSegment(opts: {
 		} else {
 			const lastStep = steps[steps.length - 1];
 			if (lastStep) {
-				tipAlliumSha = lastStep.alliumSha;
+				tipAlliumSha = stateTracker?.getSegmentTipAlliumSha(segment.id) ?? lastStep.alliumSha;
 			}
 			currentSpec = existingProgress.currentSpec;
 			currentChangelog = existingProgress.currentChangelog;
 			if (specStore) {
-				specStore.setMasterSpec(currentSpec);
+				restoreSpecStore(specStore, existingProgress.currentSpecModules ?? { "_master.allium": currentSpec });
 			}
 			console.error(`[allium-evolve] Resuming ${segment.id}: skipping ${steps.length} completed steps`);
 		}
 	}
 
-	for (const commitSha of segment.commits) {
+	const finishSteps = async (steps: CompletedStep[], diffTokens: number): Promise<void> => {
+		for (const step of steps) {
+			tipAlliumSha = step.alliumSha;
+			completedSteps.push(step);
+			if (onStepComplete) {
+				await onStepComplete(step, currentSpec, currentChangelog, specStore?.toSerializable());
+			}
+			events?.emit({
+				type: "step-completed",
+				segmentId: segment.id,
+				sha: step.originalSha,
+				model: step.model,
+				diffTokens: step.diffTokens,
+				costUsd: step.costUsd,
+				durationMs: step.durationMs,
+				alliumSha: step.alliumSha,
+				batchedWith: step.batchedWith,
+			});
+		}
+
+		const lastStep = steps[steps.length - 1];
+		if (reconcile && lastStep) {
+			const reconciled = await reconcile({
+				segment,
+				commitSha: lastStep.originalSha,
+				diffTokens,
+				currentSpec,
+				currentChangelog,
+				tipAlliumSha,
+				specStore,
+			});
+			if (reconciled) {
+				currentSpec = reconciled.spec;
+				currentChangelog = reconciled.changelog;
+				tipAlliumSha = reconciled.alliumSha;
+			}
+		}
+	};
+
+	// Index of the last commit already handled as part of a batch.
+	let batchedThrough = -1;
+
+	for (const [index, commitSha] of segment.commits.entries()) {
+		if (index <= batchedThrough) {
+			continue;
+		}
+
 		let existingStep: CompletedStep | undefined;
 		if (existingProgress && existingProgress.completedSteps.length > 0) {
 			const stepIndex = completedSteps.length;
@@ -139,77 +222,225 @@ export async function runSegment(opts: {
 		windowState = advance(windowState, commitSha);
 
 		const isInitial = isInitialCommit(commitSha, dag);
-		const stepType: StepType = isInitial ? "initial-commit" : "evolve";
-		const model = getModelForStep(stepType, config);
+		const node = dag.get(commitSha);
 
-		const prevSpecForContext = specStore && specStore.getAllModules().size > 0
-			? assembleModuleSpec(specStore, [commitSha])
-			: currentSpec;
+		// Docs, CI and similar commits leave the spec as it is; record them without a model call.
+		if (!isInitial && isNonDomainDiff(await getDiff(config.repoPath, node?.parents[0] ?? null, commitSha), config)) {
+			console.error(`[allium-evolve] ${commitSha.slice(0, 8)}: only non-domain files changed, skipping model call`);
+			currentChangelog += `\n## ${commitSha.slice(0, 8)}\n\nNo domain-level changes. Only non-domain files changed.\n`;
+			const alliumSha = await writeStepCommit({
+				segment,
+				config,
+				dag,
+				originals: [commitSha],
+				windowCommits: windowState.commits,
+				subject: `No domain-level changes in ${commitSha.slice(0, 8)}`,
+				route: { model: SKIPPED_MODEL },
+				parentAlliumSha: tipAlliumSha,
+				currentSpec,
+				currentChangelog,
+				specStore,
+			});
+			await finishSteps([makeStep(commitSha, alliumSha, { model: SKIPPED_MODEL }, 0)], 0);
+			continue;
+		}
+
+		const candidates = isInitial ? [] : await collectBatch({ candidates: segment.commits.slice(index), dag, config });
+		const batch = candidates.length > 1 ? candidates : [commitSha];
+		let contextWindow = windowState;
+		if (batch.length > 1) {
+			console.error(
+				`[allium-evolve] ${commitSha.slice(0, 8)}: batching ${batch.length} small commits into one step`,
+			);
+			for (const sha of batch.slice(1)) {
+				windowState = advance(windowState, sha);
+			}
+			batchedThrough = index + batch.length - 1;
+			contextWindow = { ...windowState, processDepth: Math.max(windowState.processDepth, batch.length) };
+		}
 
 		const context = await assembleContext({
-			windowState,
+			windowState: contextWindow,
 			dag,
 			repoPath: config.repoPath,
-			prevSpec: prevSpecForContext,
+			prevSpec: currentSpec,
 		});
 
-		const result = await processStep({
-			stepType,
+		const routing: RoutingInput = {
+			stepType: isInitial ? "initial-commit" : "evolve",
+			diffTokens: filteredDiffTokens(context.fullDiffs, config),
+			changedPaths: context.changedPaths.filter((path) => !isNonDomainPath(path, config)),
+			messages: batch.map((sha) => dag.get(sha)?.message ?? ""),
+			segmentType: segment.type,
+		};
+		let route = routeModel(routing, config);
+		const { stepType } = routing;
+		const model = route.model;
+
+		// Modular specs only send the master plus the modules this change touches.
+		const prevSpecForContext = specStore ? assembleModuleSpec(specStore, context.changedPaths) : currentSpec;
+
+		const chunking =
+			context.totalDiffTokens > config.maxDiffTokens
+				? chunkDiff({
+						commits: context.commitDiffs,
+						maxDiffTokens: config.maxDiffTokens,
+						ignorePatterns: config.diffIgnorePatterns,
+					})
+				: { needsChunking: false, chunks: [] };
+
+		const callModel = async (
+			stepModel: string,
+			feedback?: string,
+		): Promise<{ result: ClaudeResult; subCalls?: SubCallCost[] }> => {
+			if (chunking.needsChunking && chunking.chunks.length > 1) {
+				console.error(
+					`[allium-evolve] ${commitSha.slice(0, 8)}: diff is ${context.totalDiffTokens} tokens, splitting into ${chunking.chunks.length} chunks`,
+				);
+				const diffHeader = getFullDiffShas(contextWindow)
+					.map((sha) => `### ${sha.slice(0, 8)} — ${dag.get(sha)?.message ?? "unknown"}`)
+					.join("\n");
+				return processChunkedStep({
+					stepType,
+					model: stepModel,
+					maxTurns: route.maxTurns,
+					routing,
+					config,
+					backend,
+					currentSpec: prevSpecForContext,
+					modular: specStore !== undefined,
+					contextCommits: context.contextCommits,
+					diffHeader,
+					chunks: chunking.chunks,
+					feedback,
+					recombineModel: stepModel === model ? undefined : stepModel,
+					onUnrecordedCost: recordUnrecordedCost,
+					events,
+				});
+			}
+			const result = await processStep({
+				stepType,
+				model: stepModel,
+				maxTurns: route.maxTurns,
+				config,
+				backend,
+				currentSpec: prevSpecForContext,
+				modular: specStore !== undefined,
+				contextCommits: context.contextCommits,
+				fullDiffs: context.fullDiffs,
+				feedback,
+				events,
+				userPrompt:
+					batch.length > 1
+						? `The diffs cover ${batch.length} consecutive commits, oldest first. Read the context files, process all of these changes, and update the specification once. Write a single changelog entry headed with the SHA of the last commit. Return JSON.`
+						: undefined,
+			}).catch(async (err: unknown) => {
+				await recordUnrecordedCost(failedCallCost(err));
+				throw err;
+			});
+			return { result };
+		};
+
+		assertSegmentCeiling({
+			segmentId: segment.id,
+			steps: completedSteps,
 			model,
+			diffTokens: routing.diffTokens ?? 0,
 			config,
-			currentSpec: prevSpecForContext,
-			contextCommits: context.contextCommits,
-			fullDiffs: context.fullDiffs,
+			shutdownSignal,
 		});
 
+		events?.emit({
+			type: "step-started",
+			segmentId: segment.id,
+			sha: commitSha,
+			stepType,
+			model,
+			diffTokens: routing.diffTokens ?? 0,
+			commits: batch,
+		});
+		const startedAt = Date.now();
+		let { result, subCalls } = await callModel(model);
+
+		// Regression guard: top-level declarations must not vanish without a changelog note.
+		const previousSources = specSources(currentSpec, specStore);
+		const findDropped = (candidate: ClaudeResult) =>
+			config.regressionGuard === "off"
+				? []
+				: findDroppedDeclarations(previousSources, updatedSpecSources(candidate, specStore), candidate.changelog);
+		let dropped = findDropped(result);
+		const retryModel = dropped.length > 0 ? regressionRetryModel(config.regressionGuard, model, config.opusModel) : undefined;
+		if (retryModel) {
+			console.error(
+				`[allium-evolve] ${commitSha.slice(0, 8)}: response dropped ${dropped.join(", ")}; retrying with ${retryModel}`,
+			);
+			const retried = await callModel(retryModel, formatRegressionFeedback(dropped)).catch(async (err: unknown) => {
+				await recordUnrecordedCost(result.costUsd);
+				throw err;
+			});
+			// The rejected attempt was paid for too.
+			const costUsd = result.costUsd + retried.result.costUsd;
+			subCalls = subCalls || retried.subCalls ? [...(subCalls ?? []), ...(retried.subCalls ?? [])] : undefined;
+			result = { ...retried.result, costUsd };
+			// An escalated step is recorded under the model that wrote its spec, not the rule that routed it.
+			route = retryModel === model ? route : { model: retryModel, maxTurns: route.maxTurns };
+			dropped = findDropped(result);
+		}
+		if (dropped.length > 0) {
+			console.error(
+				`[allium-evolve] ${commitSha.slice(0, 8)}: spec dropped ${dropped.join(", ")} without the changelog reporting their removal`,
+			);
+		}
+
 		currentSpec = result.spec;
 		if (specStore) {
-			specStore.setMasterSpec(result.spec);
+			applySpecUpdate(specStore, result);
 		}
 		const changelogEntry = `\n${result.changelog}\n`;
 		currentChangelog += changelogEntry;
 
-		const node = dag.get(commitSha);
-		const originalMessage = node?.message ?? "";
-		const windowCommits = windowState.commits;
-		const commitMessage = [
-			`allium: ${result.commitMessage}`,
-			"",
-			formatOriginalLine(commitSha, originalMessage),
-			`Window: ${windowCommits[0]?.slice(0, 8) ?? ""}..${windowCommits[windowCommits.length - 1]?.slice(0, 8) ?? ""}`,
-			`Model: ${model}`,
-		].join("\n");
-
-		const parentShas = tipAlliumSha ? [tipAlliumSha] : [];
-		const alliumSha = await createAlliumCommit({
-			repoPath: config.repoPath,
-			originalSha: commitSha,
-			parentShas,
-			specContent: specStore ? undefined : currentSpec,
-			specFiles: specStore ? specStore.toFileMap() : undefined,
-			changelogContent: currentChangelog,
-			commitMessage,
-			segmentId: segment.id,
-		});
-
-		if (config.parallelBranches && segment.type !== "trunk") {
-			await updateRef(config.repoPath, `refs/allium/segments/${segment.id}`, alliumSha);
+		const lastSha = batch[batch.length - 1]!;
+		const batchLines =
+			batch.length > 1 ? [`Batch: ${commitSha.slice(0, 8)}..${lastSha.slice(0, 8)} (${batch.length} commits)`] : [];
+		if (dropped.length > 0) {
+			batchLines.push(formatDroppedLine(dropped));
 		}
-
-		tipAlliumSha = alliumSha;
-
-		const step: CompletedStep = {
-			originalSha: commitSha,
-			alliumSha,
-			model,
-			costUsd: result.costUsd,
-			timestamp: new Date().toISOString(),
+		const commitOpts = {
+			segment,
+			config,
+			dag,
+			windowCommits: windowState.commits,
+			subject: result.commitMessage,
+			route,
+			subCalls,
+			extraLines: batchLines,
+			currentSpec,
+			currentChangelog,
+			specStore,
 		};
-		completedSteps.push(step);
 
-		if (onStepComplete) {
-			await onStepComplete(step, currentSpec, currentChangelog);
+		// The last commit of a batch carries the cost; the others point at it via `batchedWith`.
+		const steps: CompletedStep[] = [];
+		if (config.batchLayout === "single" || batch.length === 1) {
+			const alliumSha = await writeStepCommit({ ...commitOpts, originals: batch, parentAlliumSha: tipAlliumSha });
+			for (const sha of batch) {
+				steps.push(makeStep(sha, alliumSha, route, sha === lastSha ? result.costUsd : 0, lastSha, subCalls));
+			}
+		} else {
+			let parentAlliumSha = tipAlliumSha;
+			for (const sha of batch) {
+				parentAlliumSha = await writeStepCommit({ ...commitOpts, originals: [sha], parentAlliumSha });
+				steps.push(makeStep(sha, parentAlliumSha, route, sha === lastSha ? result.costUsd : 0, lastSha, subCalls));
+			}
+		}
+		// What the estimator calibrates on, kept with the cost on the last step.
+		const costStep = steps[steps.length - 1]!;
+		costStep.diffTokens = routing.diffTokens;
+		costStep.durationMs = Date.now() - startedAt;
+		if (dropped.length > 0) {
+			costStep.droppedDeclarations = dropped;
 		}
+		await finishSteps(steps, context.totalDiffTokens);
 	}
 
 	return {
@@ -221,15 +452,101 @@ export async function runSegment(opts: {
 	};
 }
 
+function makeStep(
+	originalSha: string,
+	alliumSha: string,
+	route: ModelRoute,
+	costUsd: number,
+	batchTip?: string,
+	subCalls?: SubCallCost[],
+): CompletedStep {
+	const step: CompletedStep = {
+		originalSha,
+		alliumSha,
+		model: route.model,
+		costUsd,
+		timestamp: new Date().toISOString(),
+	};
+	if (route.rule) {
+		step.rule = route.rule;
+	}
+	if (batchTip && batchTip !== originalSha) {
+		step.batchedWith = batchTip;
+	} else if (subCalls) {
+		step.subCalls = subCalls;
+	}
+	return step;
+}
+
+/**
+ * Write the allium commit for one step. A batch written as a single commit
+ * lists every original commit on its own `Original:` line, oldest first; the
+ * tree is taken from the newest.
+ */
+async function writeStepCommit(opts: {
+	segment: Segment;
+	config: EvolutionConfig;
+	dag: Map<string, CommitNode>;
+	originals: string[];
+	windowCommits: string[];
+	subject: string;
+	route: ModelRoute;
+	subCalls?: SubCallCost[];
+	extraLines?: string[];
+	parentAlliumSha: string;
+	currentSpec: string;
+	currentChangelog: string;
+	specStore?: SpecStore;
+}): Promise<string> {
+	const { segment, config, dag, originals, windowCommits, subCalls, specStore } = opts;
+
+	const commitLines = [
+		`allium: ${opts.subject}`,
+		"",
+		...originals.map((sha) => formatOriginalLine(sha, dag.get(sha)?.message ?? "")),
+		`Window: ${windowCommits[0]?.slice(0, 8) ?? ""}..${windowCommits[windowCommits.length - 1]?.slice(0, 8) ?? ""}`,
+		`Model: ${opts.route.model}`,
+		...(opts.route.rule ? [`Rule: ${opts.route.rule}`] : []),
+		...(opts.extraLines ?? []),
+	];
+	if (subCalls) {
+		commitLines.push(`Chunks: ${subCalls.filter((c) => c.kind === "chunk").length}`);
+	}
+
+	const alliumSha = await createAlliumCommit({
+		repoPath: config.repoPath,
+		originalSha: originals[originals.length - 1]!,
+		parentShas: opts.parentAlliumSha ? [opts.parentAlliumSha] : [],
+		specContent: specStore ? undefined : opts.currentSpec,
+		specFiles: specStore ? specStore.toFileMap() : undefined,
+		changelogContent: opts.currentChangelog,
+		commitMessage: commitLines.join("\n"),
+		segmentId: segment.id,
+	});
+
+	if (config.parallelBranches && segment.type !== "trunk") {
+		await updateRef(config.repoPath, `refs/allium/segments/${segment.id}`, alliumSha);
+	}
+
+	return alliumSha;
+}
+
 async function processStep(opts: {
 	stepType: StepType;
 	model: string;
+	maxTurns?: number;
 	config: EvolutionConfig;
+	backend: ModelBackend;
 	currentSpec: string;
+	modular: boolean;
 	contextCommits: string;
 	fullDiffs: string;
+	userPrompt?: string;
+	/** Appended to the user prompt, e.g. after the regression guard rejected a first response. */
+	feedback?: string;
+	events?: EventBus;
 }): Promise<ClaudeResult> {
-	const { stepType, model, config, currentSpec, contextCommits, fullDiffs } = opts;
+	const { stepType, model, config, backend, currentSpec, modular, contextCommits, fullDiffs } = opts;
 
 	const contextFiles: Record<string, string> = {
 		"current-spec.allium": currentSpec,
@@ -247,17 +564,182 @@ async function processStep(opts: {
 
 		const systemPrompt = fillTemplate(template, {
 			contextManifest: formatManifest(ctx.manifest),
+			modularInstructions: modular ? await loadPromptTemplate("modular-output") : "",
 		});
 
 		return await invokeClaudeForStep({
+			backend,
+			stepType,
 			systemPrompt,
-			userPrompt: "Read the context files, process the changes, and update the specification. Return JSON.",
+			userPrompt: withFeedback(
+				opts.userPrompt ?? "Read the context files, process the changes, and update the specification. Return JSON.",
+				opts.feedback,
+			),
 			model,
 			workingDirectory: config.repoPath,
 			alliumSkillsPath: config.alliumSkillsPath,
 			maxRetries: config.maxParseRetries,
+			resumeSession: config.resumeSessionOnRetry,
+			maxTurns: opts.maxTurns,
+			modular,
+			contextFiles: ctx.manifest,
+			events: opts.events,
+		});
+	} finally {
+		await ctx.cleanup();
+	}
+}
+
+/**
+ * Fan a chunked diff out to one Claude call per chunk (bounded by
+ * `maxChunkConcurrency`), each evolving the same base spec, then merge the
+ * partial specs with a single recombine call.
+ */
+async function processChunkedStep(opts: {
+	stepType: StepType;
+	model: string;
+	maxTurns?: number;
+	/** Routing facts of the whole step, re-routed as `chunk-recombine` for the recombine call. */
+	routing: RoutingInput;
+	config: EvolutionConfig;
+	backend: ModelBackend;
+	currentSpec: string;
+	modular: boolean;
+	contextCommits: string;
+	diffHeader: string;
+	chunks: DiffChunk[];
+	/** Appended to the recombine prompt, which produces the step's spec. */
+	feedback?: string;
+	/** Replaces the routed recombine model, e.g. when the regression guard escalates. */
+	recombineModel?: string;
+	/** Called with the cost of calls already made when the step fails, e.g. stopped by the budget. */
+	onUnrecordedCost?: (costUsd: number) => Promise<void>;
+	events?: EventBus;
+}): Promise<{ result: ClaudeResult; subCalls: SubCallCost[] }> {
+	const { stepType, model, config, backend, currentSpec, modular, contextCommits, diffHeader, chunks } = opts;
+
+	// A step that fails is not recorded, so neither are the calls it already paid for.
+	let paidUsd = 0;
+	const recordPaid = async () => {
+		if (paidUsd > 0) {
+			await opts.onUnrecordedCost?.(paidUsd);
+		}
+	};
+
+	let partials: ClaudeResult[];
+	try {
+		partials = await mapWithConcurrency(chunks, config.maxChunkConcurrency, async (chunk, i) => {
+			const partial = await processStep({
+				stepType,
+				model,
+				maxTurns: opts.maxTurns,
+				config,
+				backend,
+				currentSpec,
+				modular,
+				contextCommits,
+				fullDiffs: formatChunkDiff(chunk),
+				events: opts.events,
+				userPrompt: `This diff is chunk ${i + 1} of ${chunks.length} (\`${chunk.groupKey}\`) of a larger change; the other chunks are processed separately. Read the context files, process only these changes, and update the specification. Return JSON.`,
+			}).catch((err: unknown) => {
+				paidUsd += failedCallCost(err);
+				throw err;
+			});
+			paidUsd += partial.costUsd;
+			return partial;
+		});
+	} catch (err) {
+		await recordPaid();
+		throw err;
+	}
+
+	const subCalls: SubCallCost[] = partials.map((partial, i) => ({
+		kind: "chunk",
+		groupKey: chunks[i]!.groupKey,
+		model,
+		costUsd: partial.costUsd,
+	}));
+
+	const chunkIndex = chunks.map((chunk, i) => {
+		const files = chunk.files
+			.map((f) => `  - \`${f.path}\`${f.commit ? ` (${f.commit.sha.slice(0, 8)})` : ""}`)
+			.join("\n");
+		return `- chunk-${chunkLabel(i)}: \`${chunk.groupKey}\` (${chunk.totalTokens} tokens)\n${files}`;
+	});
+	const contextFiles: Record<string, string> = {
+		"base-spec.allium": currentSpec,
+		"chunks.md": `${diffHeader}\n\n${chunkIndex.join("\n")}\n`,
+	};
+	partials.forEach((partial, i) => {
+		contextFiles[`partials/chunk-${chunkLabel(i)}.allium`] = formatPartialSpec(partial);
+		contextFiles[`partials/chunk-${chunkLabel(i)}.changelog.md`] = partial.changelog;
+	});
+
+	const ctx = await writeContextFiles(config.repoPath, contextFiles);
+
+	try {
+		const template = await loadPromptTemplate("recombine-chunks");
+		const systemPrompt = fillTemplate(template, {
+			contextManifest: formatManifest(ctx.manifest),
+			chunkCount: String(chunks.length),
+			modularInstructions: modular ? await loadPromptTemplate("modular-output") : "",
+		});
+
+		const recombineRoute = routeModel({ ...opts.routing, stepType: "chunk-recombine" }, config);
+		const recombineModel = opts.recombineModel ?? recombineRoute.model;
+		const recombined = await invokeClaudeForStep({
+			backend,
+			stepType: "chunk-recombine",
+			systemPrompt,
+			userPrompt: withFeedback(
+				"Read the context files, combine the partial specifications, and produce a single updated specification. Return JSON.",
+				opts.feedback,
+			),
+			model: recombineModel,
+			workingDirectory: config.repoPath,
+			alliumSkillsPath: config.alliumSkillsPath,
+			maxRetries: config.maxParseRetries,
+			resumeSession: config.resumeSessionOnRetry,
+			maxTurns: recombineRoute.maxTurns,
+			modular,
+			contextFiles: ctx.manifest,
+			events: opts.events,
+		}).catch(async (err: unknown) => {
+			paidUsd += failedCallCost(err);
+			await recordPaid();
+			throw err;
 		});
+
+		subCalls.push({ kind: "chunk-recombine", model: recombineModel, costUsd: recombined.costUsd });
+
+		return {
+			result: {
+				...recombined,
+				costUsd: subCalls.reduce((sum, c) => sum + c.costUsd, 0),
+			},
+			subCalls,
+		};
 	} finally {
 		await ctx.cleanup();
 	}
 }
+
+function withFeedback(userPrompt: string, feedback?: string): string {
+	return feedback ? `${userPrompt}\n\n${feedback}` : userPrompt;
+}
+
+function chunkLabel(index: number): string {
+	return String(index + 1).padStart(2, "0");
+}
+
+function formatPartialSpec(partial: ClaudeResult): string {
+	if (!partial.modules) {
+		return partial.spec;
+	}
+	const parts = ["## Master Specification\n", partial.spec];
+	for (const [modulePath, content] of Object.entries(partial.modules)) {
+		parts.push(`\n### Module: ${modulePath}\n`);
+		parts.push(content === "" ? "(module removed)" : content);
+	}
+	return parts.join("\n");
+}
@@ -7,6 +7,11 @@ export function parseOriginalSha(commitBody: string): string | null {
 	return match ? match[1]! : null;
 }
 
+/** Every `Original:` trailer, oldest first; a batch written as one commit has several. */
+export function parseOriginalShas(commitBody: string): string[] {
+	return [...commitBody.matchAll(new RegExp(ORIGINAL_SHA_REGEX.source, "gm"))].map((match) => match[1]!);
+}
+
 export function formatOriginalLine(originalSha: string, originalMessage: string): string {
 	return `${ORIGINAL_SHA_PREFIX}${originalSha} "${originalMessage}"`;
 }
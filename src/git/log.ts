@@ -42,3 +42,13 @@ export async function parseGitLog(repoPath: string, targetRef?: string): Promise
 
 	return nodes;
 }
+
+/** Whether `ancestor` is reachable from `descendant` (true when they are equal). */
+export async function isAncestor(repoPath: string, ancestor: string, descendant: string): Promise<boolean> {
+	try {
+		await exec(`git merge-base --is-ancestor ${ancestor} ${descendant}`, { cwd: repoPath });
+		return true;
+	} catch {
+		return false;
+	}
+}
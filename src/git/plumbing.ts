@@ -10,6 +10,8 @@ export interface CreateAlliumCommitOpts {
 	specContent?: string;
 	specFiles?: Map<string, string>;
 	changelogContent: string;
+	/** Additional files written at the given paths, e.g. `.allium/findings.json` on reconciliation commits. */
+	extraFiles?: Map<string, string>;
 	commitMessage: string;
 	segmentId?: string;
 }
@@ -57,6 +59,14 @@ export async function createAlliumCommit(opts: CreateAlliumCommitOpts): Promise<
 			env,
 		});
 
+		for (const [filePath, content] of opts.extraFiles ?? []) {
+			const blobSha = await hashObject(repoPath, content, env);
+			await exec(`git update-index --add --cacheinfo 100644,${blobSha},${filePath}`, {
+				cwd: repoPath,
+				env,
+			});
+		}
+
 		const { stdout: treeOut } = await exec("git write-tree", { cwd: repoPath, env });
 		const newTreeSha = treeOut.trim();
 
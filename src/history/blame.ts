@@ -0,0 +1,147 @@
+import type { EvolutionConfig } from "../config.js";
+import { parseOriginalShas } from "../git/commit-metadata.js";
+import { exec } from "../utils/exec.js";
+import { readChangelogEntries } from "./show.js";
+
+const FIELD_SEP = "<<SEP>>";
+
+/** One line of `git blame --porcelain`: the commit that last changed it. */
+export interface BlameLine {
+	line: number;
+	content: string;
+	alliumSha: string;
+}
+
+/** The source commit behind an allium commit. */
+export interface BlamedCommit {
+	alliumSha: string;
+	/** Source commit from the `Original:` trailer; the last one for a batch written as one commit. */
+	originalSha: string;
+	/** Every `Original:` trailer, oldest first. */
+	originalShas: string[];
+	author: string;
+	date: string;
+	message: string;
+	/** The changelog entries of the step; only read when asked for. */
+	changelog?: string[];
+}
+
+export interface SpecBlame {
+	/** Path of the blamed file in the allium tree. */
+	file: string;
+	/** Allium ref the blame walked back from. */
+	ref: string;
+	lines: BlameLine[];
+	/** Keyed by allium SHA. */
+	commits: Record<string, BlamedCommit>;
+}
+
+/** Line-to-commit attribution from `git blame --porcelain` output. */
+export function parseBlamePorcelain(output: string): BlameLine[] {
+	const lines: BlameLine[] = [];
+	let current: { sha: string; line: number } | undefined;
+	for (const raw of output.split("\n")) {
+		const header = raw.match(/^([0-9a-f]{40}) \d+ (\d+)/);
+		if (header) {
+			current = { sha: header[1]!, line: Number.parseInt(header[2]!, 10) };
+		} else if (raw.startsWith("\t") && current) {
+			lines.push({ line: current.line, content: raw.slice(1), alliumSha: current.sha });
+			current = undefined;
+		}
+	}
+	return lines;
+}
+
+/**
+ * Blame a spec file along the allium branch and attribute each line to the
+ * source commit whose step last wrote it. `file` is a path in the allium
+ * tree (`spec.allium`, `spec/_master.allium`, or a module, with or without
+ * the `spec/` prefix); by default the spec the branch carries is blamed.
+ */
+export async function blameSpec(
+	config: EvolutionConfig,
+	opts: { file?: string; withChangelog?: boolean } = {},
+): Promise<SpecBlame> {
+	const ref = `refs/heads/${config.alliumBranch}`;
+	const file = await resolveSpecFile(config.repoPath, ref, opts.file);
+	const { stdout } = await exec(`git blame --porcelain ${ref} -- "${file}"`, { cwd: config.repoPath });
+	const lines = parseBlamePorcelain(stdout);
+
+	const commits: Record<string, BlamedCommit> = {};
+	for (const alliumSha of new Set(lines.map((line) => line.alliumSha))) {
+		commits[alliumSha] = await describeAlliumCommit(config.repoPath, alliumSha, opts.withChangelog ?? false);
+	}
+	return { file, ref: config.alliumBranch, lines, commits };
+}
+
+async function resolveSpecFile(repoPath: string, ref: string, file: string | undefined): Promise<string> {
+	const { stdout } = await exec(`git ls-tree -r --name-only ${ref}`, { cwd: repoPath });
+	const paths = new Set(stdout.trim().split("\n"));
+	const candidates = file ? [file, `spec/${file}`] : ["spec.allium", "spec/_master.allium"];
+	const found = candidates.find((path) => paths.has(path));
+	if (!found) {
+		const specs = [...paths].filter((path) => path.endsWith(".allium"));
+		throw new Error(`No ${file ?? "spec file"} on ${ref}; spec files there: ${specs.join(", ") || "none"}`);
+	}
+	return found;
+}
+
+async function describeAlliumCommit(repoPath: string, alliumSha: string, withChangelog: boolean): Promise<BlamedCommit> {
+	const { stdout: body } = await exec(`git log -1 --format=%B ${alliumSha}`, { cwd: repoPath });
+	const originalShas = parseOriginalShas(body);
+	const originalSha = originalShas[originalShas.length - 1];
+
+	// Fall back to the allium commit itself when it names no readable source commit.
+	let fields = [alliumSha, "", "", body.split("\n")[0] ?? ""];
+	if (originalSha) {
+		try {
+			const { stdout } = await exec(
+				`git log -1 --format="%an${FIELD_SEP}%aI${FIELD_SEP}%s" ${originalSha}`,
+				{ cwd: repoPath },
+			);
+			fields = [originalSha, ...stdout.trim().split(FIELD_SEP)];
+		} catch {
+			// The source commit is gone (e.g. after a history rewrite).
+		}
+	}
+
+	const blamed: BlamedCommit = {
+		alliumSha,
+		originalSha: fields[0]!,
+		originalShas,
+		author: fields[1] ?? "",
+		date: fields[2] ?? "",
+		message: fields[3] ?? "",
+	};
+	if (withChangelog) {
+		const entries = await readChangelogEntries(repoPath, alliumSha);
+		// A merge step also carries the entries it spliced in; keep its own when it is headed by the SHA.
+		const own = entries.filter((entry) => entry.startsWith(`## ${blamed.originalSha.slice(0, 8)}`));
+		blamed.changelog = own.length > 0 ? own : entries;
+	}
+	return blamed;
+}
+
+export function formatBlame(blame: SpecBlame): string {
+	const authorWidth = Math.max(0, ...Object.values(blame.commits).map((commit) => commit.author.length));
+	const lineWidth = String(blame.lines.length).length;
+	const out: string[] = [];
+	for (const line of blame.lines) {
+		const commit = blame.commits[line.alliumSha]!;
+		const date = commit.date.slice(0, 10).padEnd(10);
+		out.push(
+			`${commit.originalSha.slice(0, 8)} (${commit.author.padEnd(authorWidth)} ${date} ${String(line.line).padStart(lineWidth)}) ${line.content}`,
+		);
+	}
+
+	const withChangelog = Object.values(blame.commits).filter((commit) => commit.changelog?.length);
+	if (withChangelog.length > 0) {
+		out.push("");
+		for (const commit of withChangelog) {
+			out.push(`${commit.originalSha.slice(0, 8)} ${commit.message}`);
+			out.push(...commit.changelog!.flatMap((entry) => entry.split("\n").map((text) => `    ${text}`)));
+			out.push("");
+		}
+	}
+	return `${out.join("\n").trimEnd()}\n`;
+}
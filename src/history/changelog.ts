@@ -0,0 +1,17 @@
+/** Split `allium-changelog.md` into its `## ` entries, dropping anything before the first. */
+export function splitChangelogEntries(changelog: string): string[] {
+	return changelog
+		.split(/^(?=## )/m)
+		.map((entry) => entry.trim())
+		.filter((entry) => entry.startsWith("## "));
+}
+
+/**
+ * Entries of `newer` that `older` does not have, in `newer`'s order. Entries
+ * are compared whole rather than by prefix, because merges splice the entries
+ * of every parent line into the changelog.
+ */
+export function changelogEntriesSince(older: string, newer: string): string[] {
+	const known = new Set(splitChangelogEntries(older));
+	return splitChangelogEntries(newer).filter((entry) => !known.has(entry));
+}
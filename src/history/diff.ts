@@ -0,0 +1,86 @@
+import type { EvolutionConfig } from "../config.js";
+import { readChangelogFromCommit } from "../git/read-spec.js";
+import { isAncestor } from "../git/log.js";
+import { exec } from "../utils/exec.js";
+import { changelogEntriesSince } from "./changelog.js";
+import { loadShaMap, type ResolvedRevision, resolveRevision } from "./resolve.js";
+
+/** How the spec changed between two original revisions. */
+export interface SpecDiff {
+	from: ResolvedRevision;
+	to: ResolvedRevision;
+	/** Whether `from`'s allium commit is an ancestor of `to`'s in the allium DAG. */
+	ancestor: boolean;
+	/** Allium commits reachable from `to` but not from `from`. */
+	alliumCommits: number;
+	/** Changelog entries `to` has and `from` does not, oldest first. */
+	changelogEntries: string[];
+	/** Unified diff of the spec files (`spec.allium` or the `spec/` tree); empty when unchanged. */
+	specDiff: string;
+}
+
+export async function diffRevisions(config: EvolutionConfig, fromRev: string, toRev: string): Promise<SpecDiff> {
+	const shaMap = await loadShaMap(config);
+	const from = await resolveRevision(config, shaMap, fromRev);
+	const to = await resolveRevision(config, shaMap, toRev);
+	const { repoPath } = config;
+
+	const { stdout: count } = await exec(`git rev-list --count ${from.alliumSha}..${to.alliumSha}`, { cwd: repoPath });
+	const { stdout: specDiff } = await exec(`git diff --no-color ${from.alliumSha} ${to.alliumSha} -- "*.allium"`, {
+		cwd: repoPath,
+	});
+	const changelogEntries = changelogEntriesSince(
+		await readChangelogFromCommit(repoPath, from.alliumSha),
+		await readChangelogFromCommit(repoPath, to.alliumSha),
+	);
+
+	return {
+		from,
+		to,
+		ancestor: await isAncestor(repoPath, from.alliumSha, to.alliumSha),
+		alliumCommits: Number.parseInt(count.trim(), 10),
+		changelogEntries,
+		specDiff,
+	};
+}
+
+export function formatSpecDiff(diff: SpecDiff): string {
+	const lines = [`# ${describeRange(diff)}`, ""];
+	lines.push(diff.changelogEntries.length > 0 ? diff.changelogEntries.join("\n\n") : "(no changelog entries)", "");
+	lines.push(diff.specDiff.trimEnd() || "(spec unchanged)");
+	return `${lines.join("\n")}\n`;
+}
+
+/** Release-notes layout: changelog entries as sections, then the spec diff in a fenced block. */
+export function formatSpecDiffMarkdown(diff: SpecDiff): string {
+	const lines = [`# Domain changes: ${diff.from.rev} → ${diff.to.rev}`, "", `_${describeRange(diff)}_`, ""];
+	if (!diff.ancestor) {
+		lines.push(
+			`> ${diff.from.rev} is not an ancestor of ${diff.to.rev}; entries are those only ${diff.to.rev} has.`,
+			"",
+		);
+	}
+
+	lines.push("## Changes", "");
+	if (diff.changelogEntries.length === 0) {
+		lines.push("No changelog entries in this range.", "");
+	}
+	for (const entry of diff.changelogEntries) {
+		// Demote each entry's `## <sha8>` heading below the section heading.
+		lines.push(entry.replace(/^## /, "### "), "");
+	}
+
+	lines.push("## Spec diff", "");
+	if (diff.specDiff.trim()) {
+		lines.push("```diff", diff.specDiff.trimEnd(), "```");
+	} else {
+		lines.push("The spec is unchanged.");
+	}
+	return `${lines.join("\n")}\n`;
+}
+
+function describeRange(diff: SpecDiff): string {
+	const side = (r: ResolvedRevision) =>
+		`${r.rev} (${r.originalSha.slice(0, 8)}${r.exact ? "" : `, via ${r.processedSha.slice(0, 8)}`})`;
+	return `${side(diff.from)} → ${side(diff.to)}: ${diff.alliumCommits} allium commit(s), ${diff.changelogEntries.length} changelog entr${diff.changelogEntries.length === 1 ? "y" : "ies"}`;
+}
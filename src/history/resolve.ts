@@ -0,0 +1,94 @@
+import type { EvolutionConfig } from "../config.js";
+import { buildShaMapFromAlliumBranch } from "../evolution/seed-resolver.js";
+import { StateTracker } from "../state/tracker.js";
+import { exec } from "../utils/exec.js";
+
+/** Revisions are interpolated into git commands, so only rev-parse syntax is accepted. */
+const REVISION_PATTERN = /^[a-zA-Z0-9._/~^@{}:+-]+$/;
+
+/** An original revision and the allium commit that describes it. */
+export interface ResolvedRevision {
+	/** The revision as given, e.g. a tag or `main~40`. */
+	rev: string;
+	/** The commit the revision names. */
+	originalSha: string;
+	/** The commit the allium commit was written for: `originalSha`, or its nearest processed ancestor. */
+	processedSha: string;
+	alliumSha: string;
+	/** Whether `originalSha` itself was processed. */
+	exact: boolean;
+}
+
+/**
+ * Original→allium SHA map from the `Original:` trailers on the allium branch,
+ * completed from the state file's `shaMap` for segments not yet merged into it.
+ */
+export async function loadShaMap(config: EvolutionConfig): Promise<Record<string, string>> {
+	let shaMap: Record<string, string> = {};
+	try {
+		const { stdout } = await exec(`git rev-parse --verify refs/heads/${config.alliumBranch}`, { cwd: config.repoPath });
+		shaMap = await buildShaMapFromAlliumBranch(config.repoPath, stdout.trim());
+	} catch {
+		// No allium branch yet; the state file may still map parallel segments.
+	}
+
+	const tracker = new StateTracker(config.stateFile);
+	if (await tracker.load()) {
+		for (const [originalSha, alliumSha] of Object.entries(tracker.getState().shaMap)) {
+			shaMap[originalSha] ??= alliumSha;
+		}
+	}
+
+	if (Object.keys(shaMap).length === 0) {
+		throw new Error(
+			`No allium commits found on ${config.alliumBranch} or in ${config.stateFile}. Run allium-evolve on this repository first.`,
+		);
+	}
+	return shaMap;
+}
+
+/** Full SHA of the commit `rev` names in the source repository. */
+export async function resolveCommit(repoPath: string, rev: string): Promise<string> {
+	if (!REVISION_PATTERN.test(rev)) {
+		throw new Error(`Invalid revision '${rev}'`);
+	}
+	try {
+		const { stdout } = await exec(`git rev-parse --verify --quiet "${rev}^{commit}"`, { cwd: repoPath });
+		return stdout.trim();
+	} catch {
+		throw new Error(`Unknown revision '${rev}'`);
+	}
+}
+
+/**
+ * Map an original revision to its allium commit. Commits that were never
+ * processed themselves (e.g. ones outside the processed range) fall back to
+ * their nearest processed ancestor.
+ */
+export async function resolveRevision(
+	config: EvolutionConfig,
+	shaMap: Record<string, string>,
+	rev: string,
+): Promise<ResolvedRevision> {
+	const originalSha = await resolveCommit(config.repoPath, rev);
+	const direct = shaMap[originalSha];
+	if (direct) {
+		return { rev, originalSha, processedSha: originalSha, alliumSha: direct, exact: true };
+	}
+
+	// Topological order lists a commit before its parents, so the first processed
+	// one is an ancestor that no other processed ancestor descends from.
+	const { stdout } = await exec(`git rev-list --topo-order ${originalSha}`, { cwd: config.repoPath });
+	const processedSha = stdout.split("\n").find((sha) => sha && shaMap[sha]);
+	if (processedSha) {
+		return { rev, originalSha, processedSha, alliumSha: shaMap[processedSha]!, exact: false };
+	}
+	throw new Error(`Neither ${rev} (${originalSha.slice(0, 8)}) nor any of its ancestors has an allium commit`);
+}
+
+export function formatResolution(resolved: ResolvedRevision): string {
+	const target = `${resolved.rev} (${resolved.originalSha.slice(0, 8)})`;
+	return resolved.exact
+		? `[allium-evolve] ${target} → allium ${resolved.alliumSha.slice(0, 8)}`
+		: `[allium-evolve] ${target} was not processed; using nearest processed ancestor ${resolved.processedSha.slice(0, 8)} → allium ${resolved.alliumSha.slice(0, 8)}`;
+}
@@ -0,0 +1,86 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { assembleFullSpec } from "../claude/context.js";
+import type { EvolutionConfig } from "../config.js";
+import { readChangelogFromCommit, readSpecFromCommit, readSpecModulesFromCommit } from "../git/read-spec.js";
+import { createSpecStore } from "../spec/store.js";
+import { exec } from "../utils/exec.js";
+import { changelogEntriesSince } from "./changelog.js";
+import { loadShaMap, type ResolvedRevision, resolveRevision } from "./resolve.js";
+
+/** The spec as it stood at an original revision. */
+export interface SpecSnapshot extends ResolvedRevision {
+	/** The whole spec; a modular tree is assembled into one document. */
+	spec: string;
+	/** The changelog entries the allium commit added, oldest first. */
+	changelogEntries: string[];
+}
+
+export async function showRevision(config: EvolutionConfig, rev: string): Promise<SpecSnapshot> {
+	const resolved = await resolveRevision(config, await loadShaMap(config), rev);
+	return { ...resolved, ...(await readSnapshot(config.repoPath, resolved.alliumSha)) };
+}
+
+/** Spec and new changelog entries of one allium commit. */
+export async function readSnapshot(
+	repoPath: string,
+	alliumSha: string,
+): Promise<{ spec: string; changelogEntries: string[] }> {
+	const modules = await readSpecModulesFromCommit(repoPath, alliumSha);
+	const spec = modules ? assembleFullSpec(createSpecStore(modules)) : await readSpecFromCommit(repoPath, alliumSha);
+
+	return { spec, changelogEntries: await readChangelogEntries(repoPath, alliumSha) };
+}
+
+/** The changelog entries an allium commit added over its first parent. */
+export async function readChangelogEntries(repoPath: string, alliumSha: string): Promise<string[]> {
+	const changelog = await readChangelogFromCommit(repoPath, alliumSha);
+	const parent = await firstParent(repoPath, alliumSha);
+	const parentChangelog = parent ? await readChangelogFromCommit(repoPath, parent) : "";
+	return changelogEntriesSince(parentChangelog, changelog);
+}
+
+export function formatSnapshot(snapshot: SpecSnapshot): string {
+	const changelog = snapshot.changelogEntries.length > 0 ? snapshot.changelogEntries.join("\n\n") : "(no changelog entry)";
+	return `${snapshot.spec.trimEnd()}\n\n# Changelog\n\n${changelog}\n`;
+}
+
+/**
+ * Write the spec files of the allium commit for `rev` under `outDir`, keeping
+ * their paths: `spec.allium`, or the modular `spec/` tree. Returns the
+ * resolution and the paths written, relative to `outDir`.
+ */
+export async function checkoutRevision(
+	config: EvolutionConfig,
+	rev: string,
+	outDir: string,
+): Promise<{ resolved: ResolvedRevision; files: string[] }> {
+	const resolved = await resolveRevision(config, await loadShaMap(config), rev);
+	const { stdout } = await exec(`git ls-tree -r --name-only ${resolved.alliumSha} -- spec.allium spec/`, {
+		cwd: config.repoPath,
+	});
+	const files = stdout
+		.trim()
+		.split("\n")
+		.filter((path) => path.endsWith(".allium"));
+	if (files.length === 0) {
+		throw new Error(`Allium commit ${resolved.alliumSha.slice(0, 8)} has no spec files`);
+	}
+
+	for (const path of files) {
+		const { stdout: content } = await exec(`git show ${resolved.alliumSha}:${path}`, { cwd: config.repoPath });
+		const target = join(outDir, path);
+		await mkdir(dirname(target), { recursive: true });
+		await writeFile(target, content);
+	}
+	return { resolved, files };
+}
+
+async function firstParent(repoPath: string, sha: string): Promise<string | undefined> {
+	try {
+		const { stdout } = await exec(`git rev-parse --verify --quiet ${sha}^1`, { cwd: repoPath });
+		return stdout.trim() || undefined;
+	} catch {
+		return undefined;
+	}
+}
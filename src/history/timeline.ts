@@ -0,0 +1,182 @@
+import { assembleFullSpec } from "../claude/context.js";
+import type { EvolutionConfig } from "../config.js";
+import { parseOriginalShas } from "../git/commit-metadata.js";
+import { readSpecFromCommit, readSpecModulesFromCommit } from "../git/read-spec.js";
+import type { AlliumSpec } from "../spec/allium/ast.js";
+import { parseAllium } from "../spec/allium/parser.js";
+import { createSpecStore } from "../spec/store.js";
+import { exec } from "../utils/exec.js";
+import { readChangelogEntries } from "./show.js";
+
+const FIELD_SEP = "<<SEP>>";
+
+/** A declaration such as `entity Subscription { ... }` or `rule RefundWindow { ... }`. */
+export interface Declaration {
+	/** The keyword before the name: `entity`, `rule`, `relationship`, ... */
+	kind: string;
+	/** The declaration line through its closing brace, or the line alone when it opens no block. */
+	text: string;
+}
+
+export type TimelineChange = "appeared" | "changed" | "disappeared";
+
+export interface TimelineEntry {
+	change: TimelineChange;
+	/** Kinds declared under the name after the step, or before it when it disappeared. */
+	kinds: string[];
+	alliumSha: string;
+	/** Source commit from the `Original:` trailer; the last one for a batch written as one commit. */
+	originalSha: string;
+	date: string;
+	message: string;
+	/** Set on merge commits; the change may come from the line merged in rather than the merge itself. */
+	merge: boolean;
+	/** For a merge that took the declarations of a merged line as they were: that line's source commit. */
+	inheritedFrom?: string;
+	reconciliation: boolean;
+	/** Changelog lines of the step that mention the name, or the entry headings when none does. */
+	changelog: string[];
+	/** The declarations after the step, empty when they disappeared. */
+	declarations: Declaration[];
+}
+
+/**
+ * The top-level declarations of `name` in `spec`; nested lines such as a
+ * `for Subscription s:` clause inside a rule are not declarations. Returns
+ * `undefined` when the spec does not parse.
+ */
+export function extractDeclarations(spec: string, name: string): Declaration[] | undefined {
+	let parsed: AlliumSpec;
+	try {
+		parsed = parseAllium(spec);
+	} catch {
+		return undefined;
+	}
+	return parsed.declarations
+		.filter((decl) => decl.name === name)
+		.map((decl) => ({ kind: decl.keyword, text: spec.slice(decl.span.start.offset, decl.span.end.offset) }));
+}
+
+/**
+ * Walk every allium commit on the allium branch and the segment refs, oldest
+ * first, and report each step after which the declarations of `name` differ
+ * from those in its first parent.
+ */
+export async function buildTimeline(config: EvolutionConfig, name: string): Promise<TimelineEntry[]> {
+	const { repoPath } = config;
+	const { stdout } = await exec(
+		`git rev-list --reverse --topo-order --parents refs/heads/${config.alliumBranch} --glob="refs/allium/segments/*"`,
+		{ cwd: repoPath },
+	);
+
+	const declarations = new Map<string, Declaration[]>();
+	const entries: TimelineEntry[] = [];
+	for (const line of stdout.trim().split("\n").filter(Boolean)) {
+		const [alliumSha, ...parents] = line.split(" ") as [string, ...string[]];
+		const previous = parents[0] ? (declarations.get(parents[0]) ?? []) : [];
+		// A spec that does not parse says nothing about the name; keep what the parent declared.
+		const current = extractDeclarations(await readAssembledSpec(repoPath, alliumSha), name) ?? previous;
+		declarations.set(alliumSha, current);
+
+		const change = classify(previous, current);
+		if (!change) {
+			continue;
+		}
+
+		const inheritedFromParent = parents.slice(1).find((parent) => sameDeclarations(declarations.get(parent) ?? [], current));
+		const commit = await describeCommit(repoPath, alliumSha);
+		const entry: TimelineEntry = {
+			change,
+			kinds: [...new Set((current.length > 0 ? current : previous).map((decl) => decl.kind))],
+			alliumSha,
+			originalSha: commit.originalSha,
+			date: commit.date,
+			message: commit.message,
+			merge: parents.length > 1,
+			reconciliation: commit.reconciliation,
+			changelog: excerpt(await readChangelogEntries(repoPath, alliumSha), name),
+			declarations: current,
+		};
+		if (inheritedFromParent) {
+			entry.inheritedFrom = (await describeCommit(repoPath, inheritedFromParent)).originalSha;
+		}
+		entries.push(entry);
+	}
+	return entries;
+}
+
+function classify(previous: Declaration[], current: Declaration[]): TimelineChange | undefined {
+	if (previous.length === 0) {
+		return current.length > 0 ? "appeared" : undefined;
+	}
+	if (current.length === 0) {
+		return "disappeared";
+	}
+	return sameDeclarations(previous, current) ? undefined : "changed";
+}
+
+function sameDeclarations(a: Declaration[], b: Declaration[]): boolean {
+	return a.length === b.length && a.every((decl, i) => decl.text === b[i]!.text);
+}
+
+async function readAssembledSpec(repoPath: string, alliumSha: string): Promise<string> {
+	const modules = await readSpecModulesFromCommit(repoPath, alliumSha);
+	if (modules) {
+		return assembleFullSpec(createSpecStore(modules));
+	}
+	try {
+		return await readSpecFromCommit(repoPath, alliumSha);
+	} catch {
+		// Commits without a spec (none are written today) have no declarations.
+		return "";
+	}
+}
+
+async function describeCommit(
+	repoPath: string,
+	alliumSha: string,
+): Promise<{ originalSha: string; date: string; message: string; reconciliation: boolean }> {
+	const { stdout: body } = await exec(`git log -1 --format=%B ${alliumSha}`, { cwd: repoPath });
+	const originalSha = parseOriginalShas(body).at(-1);
+	const reconciliation = /^Reconciliation: /m.test(body);
+	if (originalSha) {
+		try {
+			const { stdout } = await exec(`git log -1 --format="%aI${FIELD_SEP}%s" ${originalSha}`, { cwd: repoPath });
+			const [date = "", message = ""] = stdout.trim().split(FIELD_SEP);
+			return { originalSha, date, message, reconciliation };
+		} catch {
+			// The source commit is gone (e.g. after a history rewrite).
+		}
+	}
+	const { stdout } = await exec(`git log -1 --format="%aI" ${alliumSha}`, { cwd: repoPath });
+	return { originalSha: originalSha ?? alliumSha, date: stdout.trim(), message: body.split("\n")[0] ?? "", reconciliation };
+}
+
+function excerpt(entries: string[], name: string): string[] {
+	const mentions = entries.flatMap((entry) => entry.split("\n").filter((line) => line.includes(name)));
+	if (mentions.length > 0) {
+		return mentions.map((line) => line.trim());
+	}
+	return entries.map((entry) => entry.split("\n")[0]!);
+}
+
+/** Markdown timeline, one bullet per step with its changelog excerpt nested below. */
+export function formatTimeline(name: string, entries: TimelineEntry[]): string {
+	const lines = [`# History of \`${name}\``, ""];
+	if (entries.length === 0) {
+		lines.push(`\`${name}\` is not declared in any allium commit.`);
+	}
+	for (const entry of entries) {
+		const notes = [
+			entry.merge ? (entry.inheritedFrom ? `merged in from ${entry.inheritedFrom.slice(0, 8)}` : "at merge") : undefined,
+			entry.reconciliation ? "reconciliation" : undefined,
+		].filter(Boolean);
+		lines.push(
+			`- **${entry.date.slice(0, 10)}** \`${entry.originalSha.slice(0, 8)}\` ${entry.message} — ${entry.change} (${entry.kinds.join(", ")})${notes.length > 0 ? ` _${notes.join(", ")}_` : ""}`,
+		);
+		for (const line of entry.changelog) {
+			lines.push(`  > ${line}`);
+		}
+	}
+	return `${lines.join("\n")}\n`;
+}
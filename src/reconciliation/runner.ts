@@ -1,6 +1,7 @@
 import { readFile } from "node:fs/promises";
 import { dirname, resolve } from "node:path";
 import { fileURLToPath } from "node:url";
+import type { ModelBackend } from "../claude/backend.js";
 import type { ReconciliationFinding } from "../claude/runner.js";
 import {
 	invokeClaudeForStep,
@@ -8,6 +9,7 @@ import {
 	formatManifest,
 } from "../claude/runner.js";
 import type { EvolutionConfig } from "../config.js";
+import type { EventBus } from "../events.js";
 import type { SourceChunk, SourceReadResult } from "./source-reader.js";
 import { readDiff, readTree } from "./source-reader.js";
 
@@ -19,11 +21,25 @@ export interface ReconciliationResult {
 	changelog: string;
 	commitMessage: string;
 	findings: ReconciliationFinding[];
+	/** Module updates when run with `modular`; see `applySpecUpdate`. */
+	modules?: Record<string, string>;
 	skippedFiles: string[];
+	model: string;
 	costUsd: number;
 	skipped: boolean;
 }
 
+export function summarizeFindings(findings: ReconciliationFinding[]): string {
+	if (findings.length === 0) {
+		return "0";
+	}
+	const bySeverity = ["high", "medium", "low"]
+		.map((severity) => [severity, findings.filter((f) => f.severity === severity).length] as const)
+		.filter(([, count]) => count > 0)
+		.map(([severity, count]) => `${count} ${severity}`);
+	return `${findings.length} (${bySeverity.join(", ")})`;
+}
+
 async function loadPromptTemplate(name: string): Promise<string> {
 	return readFile(resolve(PROMPTS_DIR, `${name}.md`), "utf-8");
 }
@@ -52,9 +68,12 @@ export async function runReconciliation(opts: {
 	currentSpec: string;
 	commitSha: string;
 	config: EvolutionConfig;
+	backend: ModelBackend;
 	lastReconciliationSha: string | undefined;
+	modular?: boolean;
+	events?: EventBus;
 }): Promise<ReconciliationResult> {
-	const { currentSpec, commitSha, config, lastReconciliationSha } = opts;
+	const { currentSpec, commitSha, config, backend, lastReconciliationSha, modular = false } = opts;
 
 	let sourceResult: SourceReadResult | null = null;
 
@@ -75,6 +94,8 @@ export async function runReconciliation(opts: {
 		sourceResult = await readTree(config.repoPath, commitSha, config.reconciliation, config.maxDiffTokens);
 	}
 
+	const model = config.reconciliation.model ?? config.opusModel;
+
 	if (sourceResult.chunks.length === 0) {
 		console.error("[reconciliation] No source chunks to analyze, skipping");
 		return {
@@ -83,6 +104,7 @@ export async function runReconciliation(opts: {
 			commitMessage: "",
 			findings: [],
 			skippedFiles: sourceResult.skippedFiles,
+			model,
 			costUsd: 0,
 			skipped: true,
 		};
@@ -106,15 +128,17 @@ export async function runReconciliation(opts: {
 
 	try {
 		const template = await loadPromptTemplate("reconcile-spec");
-		const model = config.reconciliation.model ?? config.opusModel;
 
 		const systemPrompt = fillTemplate(template, {
 			contextManifest: formatManifest(ctx.manifest),
 			chunkCount: String(sourceResult.chunks.length),
 			skippedCount: String(sourceResult.skippedFiles.length),
+			modularInstructions: modular ? await loadPromptTemplate("modular-output") : "",
 		});
 
 		const result = await invokeClaudeForStep({
+			backend,
+			stepType: "reconcile",
 			systemPrompt,
 			userPrompt:
 				"Read the context files, analyze the source against the spec, and produce an updated specification. Return JSON.",
@@ -122,15 +146,22 @@ export async function runReconciliation(opts: {
 			workingDirectory: config.repoPath,
 			alliumSkillsPath: config.alliumSkillsPath,
 			maxRetries: config.maxParseRetries,
+			resumeSession: config.resumeSessionOnRetry,
 			maxTurns: 150,
+			outputSchema: "reconcile",
+			modular,
+			contextFiles: ctx.manifest,
+			events: opts.events,
 		});
 
 		return {
 			updatedSpec: result.spec,
 			changelog: result.changelog,
 			commitMessage: result.commitMessage,
-			findings: [],
+			findings: result.findings ?? [],
+			modules: result.modules,
 			skippedFiles: sourceResult.skippedFiles,
+			model,
 			costUsd: result.costUsd,
 			skipped: false,
 		};
@@ -5,17 +5,41 @@ export class GracefulShutdownError extends Error {
 	}
 }
 
+/** Why a shutdown was requested: Ctrl+C, or the cost budget running out. */
+export type ShutdownReason = "signal" | "budget";
+
 export class ShutdownSignal {
 	private _requested = false;
+	private _reason: ShutdownReason | undefined;
+	private readonly listeners: Array<(reason: ShutdownReason, message: string) => void> = [];
 
 	get requested(): boolean {
 		return this._requested;
 	}
 
-	request(): void {
+	get reason(): ShutdownReason | undefined {
+		return this._reason;
+	}
+
+	request(message = "Graceful shutdown requested", reason: ShutdownReason = "signal"): void {
 		if (this._requested) return;
 		this._requested = true;
-		console.error("[allium-evolve] Graceful shutdown requested. Finishing current step(s) before exiting...");
+		this._reason = reason;
+		console.error(`[allium-evolve] ${message}. Finishing current step(s) before exiting...`);
+		for (const listener of this.listeners) {
+			listener(reason, message);
+		}
+	}
+
+	/** Called once, when the first shutdown request arrives. Returns an unsubscribe function. */
+	onRequest(listener: (reason: ShutdownReason, message: string) => void): () => void {
+		this.listeners.push(listener);
+		return () => {
+			const index = this.listeners.indexOf(listener);
+			if (index !== -1) {
+				this.listeners.splice(index, 1);
+			}
+		};
 	}
 
 	assertContinue(): void {
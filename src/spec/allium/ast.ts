@@ -0,0 +1,89 @@
+/** 1-based line and column, 0-based offset into the source. */
+export interface Position {
+	line: number;
+	column: number;
+	offset: number;
+}
+
+export interface Span {
+	start: Position;
+	end: Position;
+}
+
+/** A `--` comment, without the dashes. */
+export interface Comment {
+	text: string;
+	span: Span;
+}
+
+/** A line inside a block: `name: value`, a nested `header { ... }`, or a bare expression. */
+export type Member =
+	| { kind: "member"; name: string; value: string; span: Span }
+	| { kind: "block"; header: string; members: Member[]; span: Span }
+	| { kind: "expression"; text: string; span: Span };
+
+/** `name: Type` inside an entity or value. */
+export interface Field {
+	name: string;
+	type: string;
+	span: Span;
+}
+
+/** A field of an entity whose type names another entity. */
+export interface Relationship {
+	from: string;
+	field: string;
+	to: string;
+	span: Span;
+}
+
+/** `when:`, `requires:`, `ensures:` and the other clauses of a rule. */
+export interface Clause {
+	keyword: string;
+	expression: string;
+	span: Span;
+}
+
+interface DeclarationBase {
+	/** The words before the name that are not the keyword, e.g. `external`. */
+	modifiers: string[];
+	/** The declaring word as written, e.g. `entity` or `surface`. */
+	keyword: string;
+	name?: string;
+	/** Members of the declaration's block; empty for one-line declarations. */
+	members: Member[];
+	span: Span;
+}
+
+export interface EntityDeclaration extends DeclarationBase {
+	kind: "entity";
+	name: string;
+	fields: Field[];
+	relationships: Relationship[];
+}
+
+export interface RuleDeclaration extends DeclarationBase {
+	kind: "rule";
+	name: string;
+	clauses: Clause[];
+}
+
+/** A top-level `relationship Name ...` declaration. */
+export interface RelationshipDeclaration extends DeclarationBase {
+	kind: "relationship";
+	name: string;
+	/** Everything after the name. */
+	definition: string;
+}
+
+/** Any other declaration (`value`, `enum`, `config`, `surface`, `open question`, ...). */
+export interface OtherDeclaration extends DeclarationBase {
+	kind: "other";
+}
+
+export type Declaration = EntityDeclaration | RuleDeclaration | RelationshipDeclaration | OtherDeclaration;
+
+export interface AlliumSpec {
+	declarations: Declaration[];
+	comments: Comment[];
+}
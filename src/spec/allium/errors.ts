@@ -0,0 +1,19 @@
+import type { Position } from "./ast.js";
+
+/** A spec that does not parse; the message leads with the line and column. */
+export class AlliumSyntaxError extends Error {
+	/** The offending source line with a caret under the column. */
+	readonly excerpt: string;
+
+	constructor(
+		readonly reason: string,
+		readonly position: Position,
+		source: string,
+	) {
+		super(`line ${position.line}, column ${position.column}: ${reason}`);
+		this.name = "AlliumSyntaxError";
+		const text = source.split("\n")[position.line - 1] ?? "";
+		const gutter = String(position.line);
+		this.excerpt = `${gutter} | ${text}\n${" ".repeat(gutter.length)} | ${" ".repeat(position.column - 1)}^`;
+	}
+}
@@ -0,0 +1,85 @@
+import type { Comment, Position } from "./ast.js";
+import { AlliumSyntaxError } from "./errors.js";
+
+export type TokenType = "ident" | "string" | "number" | "punct" | "symbol" | "newline" | "eof";
+
+export interface Token {
+	type: TokenType;
+	text: string;
+	start: Position;
+	end: Position;
+}
+
+const PUNCTUATION = new Set(["{", "}", "(", ")", "[", "]"]);
+const STRING = /"(?:[^"\\\n]|\\.)*"/y;
+const NUMBER = /[0-9]+(?:\.[0-9]+)?/y;
+const IDENT = /[A-Za-z_][A-Za-z0-9_]*/y;
+
+/** Split a spec into tokens, setting `--` comments aside. */
+export function tokenize(source: string): { tokens: Token[]; comments: Comment[] } {
+	const tokens: Token[] = [];
+	const comments: Comment[] = [];
+	let offset = 0;
+	let line = 1;
+	let column = 1;
+
+	const position = (): Position => ({ line, column, offset });
+	const advance = (count: number) => {
+		for (let i = 0; i < count; i++) {
+			if (source[offset] === "\n") {
+				line++;
+				column = 1;
+			} else {
+				column++;
+			}
+			offset++;
+		}
+	};
+	const match = (pattern: RegExp): string | undefined => {
+		pattern.lastIndex = offset;
+		return pattern.exec(source)?.[0];
+	};
+	const take = (type: TokenType, length: number) => {
+		const start = position();
+		const text = source.slice(offset, offset + length);
+		advance(length);
+		tokens.push({ type, text, start, end: position() });
+	};
+
+	while (offset < source.length) {
+		const ch = source[offset]!;
+
+		if (ch === "\n") {
+			take("newline", 1);
+		} else if (ch === " " || ch === "\t" || ch === "\r") {
+			advance(1);
+		} else if (source.startsWith("--", offset)) {
+			const start = position();
+			const newline = source.indexOf("\n", offset);
+			const end = newline === -1 ? source.length : newline;
+			const text = source.slice(offset + 2, end).trim();
+			advance(end - offset);
+			comments.push({ text, span: { start, end: position() } });
+		} else if (ch === '"') {
+			const text = match(STRING);
+			if (!text) {
+				throw new AlliumSyntaxError("Unterminated string", position(), source);
+			}
+			take("string", text.length);
+		} else if (/[0-9]/.test(ch)) {
+			take("number", match(NUMBER)!.length);
+		} else if (/[A-Za-z_]/.test(ch)) {
+			take("ident", match(IDENT)!.length);
+		} else if (PUNCTUATION.has(ch)) {
+			take("punct", 1);
+		} else if (ch === "`") {
+			throw new AlliumSyntaxError("Unexpected '`'; the spec must not be wrapped in a Markdown code fence", position(), source);
+		} else {
+			take("symbol", 1);
+		}
+	}
+
+	const end = position();
+	tokens.push({ type: "eof", text: "", start: end, end });
+	return { tokens, comments };
+}
@@ -0,0 +1,255 @@
+import type {
+	AlliumSpec,
+	Clause,
+	Declaration,
+	EntityDeclaration,
+	Field,
+	Member,
+	Relationship,
+} from "./ast.js";
+import { AlliumSyntaxError } from "./errors.js";
+import { type Token, tokenize } from "./lexer.js";
+
+/** Words that may precede a declaration keyword, as in `external entity Payment`. */
+const MODIFIERS = new Set(["external", "abstract", "deferred"]);
+
+const CLOSERS: Record<string, string> = { "(": ")", "[": "]", "{": "}" };
+
+/**
+ * Parse an Allium spec into declarations and comments. The grammar is kept
+ * loose where the language is open-ended (clause expressions are kept as
+ * text) and strict where malformed output shows: every top-level line must
+ * start a declaration, brackets and strings must close, and Markdown fences
+ * are rejected. Throws `AlliumSyntaxError` at the first problem.
+ */
+export function parseAllium(source: string): AlliumSpec {
+	const { tokens, comments } = tokenize(source);
+	const declarations = new Parser(source, tokens).parseDeclarations();
+	linkRelationships(declarations);
+	return { declarations, comments };
+}
+
+class Parser {
+	private index = 0;
+
+	constructor(
+		private readonly source: string,
+		private readonly tokens: Token[],
+	) {}
+
+	parseDeclarations(): Declaration[] {
+		const declarations: Declaration[] = [];
+		for (;;) {
+			this.skipNewlines();
+			const token = this.peek();
+			if (token.type === "eof") {
+				return declarations;
+			}
+			if (token.text === "}") {
+				throw this.error("Unexpected '}' with no open block", token);
+			}
+			if (token.type !== "ident" || !/^[a-z]/.test(token.text)) {
+				throw this.error(`Expected a declaration such as 'entity Name {', found '${token.text}'`, token);
+			}
+			declarations.push(this.parseDeclaration());
+		}
+	}
+
+	private parseDeclaration(): Declaration {
+		const header = this.readLine(false);
+		const first = header.tokens[0]!;
+		let members: Member[] = [];
+		let last = header.tokens[header.tokens.length - 1]!;
+		if (header.opensBlock) {
+			const block = this.parseBlock(this.next());
+			members = block.members;
+			last = block.close;
+			const after = this.peek();
+			if (after.type !== "newline" && after.type !== "eof") {
+				throw this.error(`Expected a new line after '}', found '${after.text}'`, after);
+			}
+		}
+		const span = { start: first.start, end: last.end };
+
+		const words: string[] = [];
+		for (const token of header.tokens) {
+			if (token.type !== "ident") break;
+			words.push(token.text);
+		}
+		const modifiers: string[] = [];
+		while (words.length > 1 && MODIFIERS.has(words[0]!)) {
+			modifiers.push(words.shift()!);
+		}
+		const keyword = words[0]!;
+		const nameToken = header.tokens[modifiers.length + 1];
+		const name = nameToken?.type === "ident" ? nameToken.text : undefined;
+
+		const base = { modifiers, keyword, members, span };
+		if (keyword === "entity" || keyword === "rule" || keyword === "relationship") {
+			if (!name) {
+				throw this.error(`Expected a name after '${keyword}'`, nameToken ?? first);
+			}
+			if (keyword === "entity") {
+				return { ...base, kind: "entity", name, fields: fieldsOf(members), relationships: [] };
+			}
+			if (keyword === "rule") {
+				return { ...base, kind: "rule", name, clauses: clausesOf(members) };
+			}
+			const definition = this.source.slice(nameToken!.end.offset, last.end.offset).trim();
+			return { ...base, kind: "relationship", name, definition };
+		}
+		return name ? { ...base, kind: "other", name } : { ...base, kind: "other" };
+	}
+
+	/** Members up to the `}` matching `open`, which has been consumed. */
+	private parseBlock(open: Token): { members: Member[]; close: Token } {
+		const members: Member[] = [];
+		for (;;) {
+			this.skipNewlines();
+			const token = this.peek();
+			if (token.type === "eof") {
+				throw this.error("'{' is never closed", open);
+			}
+			if (token.text === "}") {
+				return { members, close: this.next() };
+			}
+
+			const line = this.readLine(true);
+			// A bare `{` has no header tokens; its span starts at the brace.
+			const first = line.tokens[0] ?? this.peek();
+			if (line.opensBlock) {
+				const block = this.parseBlock(this.next());
+				members.push({
+					kind: "block",
+					header: this.textOf(line.tokens),
+					members: block.members,
+					span: { start: first.start, end: block.close.end },
+				});
+				continue;
+			}
+
+			const span = { start: first.start, end: line.tokens[line.tokens.length - 1]!.end };
+			const colon = line.tokens.findIndex((t) => t.text === ":");
+			if (colon > 0 && line.tokens.slice(0, colon).every((t) => t.type === "ident")) {
+				members.push({
+					kind: "member",
+					name: this.textOf(line.tokens.slice(0, colon)),
+					value: this.textOf(line.tokens.slice(colon + 1)),
+					span,
+				});
+				continue;
+			}
+
+			// A line that is not `name: value` continues the member above it.
+			const previous = members[members.length - 1];
+			const text = this.textOf(line.tokens);
+			if (previous?.kind === "member") {
+				previous.value = previous.value ? `${previous.value}\n${text}` : text;
+				previous.span = { start: previous.span.start, end: span.end };
+			} else {
+				members.push({ kind: "expression", text, span });
+			}
+		}
+	}
+
+	/**
+	 * Tokens up to the end of the logical line: a new line outside brackets,
+	 * a `}` closing the enclosing block, or a `{` opening a block. Inside a
+	 * block, a `{` after a `name:` colon is a literal and must close on its own.
+	 */
+	private readLine(insideBlock: boolean): { tokens: Token[]; opensBlock: boolean } {
+		const tokens: Token[] = [];
+		const open: Token[] = [];
+		let sawColon = false;
+		for (;;) {
+			const token = this.peek();
+			if (token.type === "eof") {
+				const unclosed = open[open.length - 1];
+				if (unclosed) {
+					throw this.error(`'${unclosed.text}' is never closed`, unclosed);
+				}
+				return { tokens, opensBlock: false };
+			}
+			if (open.length === 0) {
+				if (token.type === "newline" || token.text === "}") {
+					return { tokens, opensBlock: false };
+				}
+				if (token.text === "{" && !sawColon) {
+					return { tokens, opensBlock: true };
+				}
+				if (token.text === ":" && insideBlock) {
+					sawColon = true;
+				}
+			}
+
+			this.next();
+			if (token.type === "newline") {
+				continue;
+			}
+			if (token.type === "punct") {
+				if (token.text in CLOSERS) {
+					open.push(token);
+				} else {
+					const opener = open.pop();
+					if (!opener) {
+						throw this.error(`Unexpected '${token.text}'`, token);
+					}
+					if (CLOSERS[opener.text] !== token.text) {
+						throw this.error(
+							`Expected '${CLOSERS[opener.text]}' to close '${opener.text}' opened at line ${opener.start.line}, column ${opener.start.column}, found '${token.text}'`,
+							token,
+						);
+					}
+				}
+			}
+			tokens.push(token);
+		}
+	}
+
+	private textOf(tokens: Token[]): string {
+		if (tokens.length === 0) {
+			return "";
+		}
+		return this.source.slice(tokens[0]!.start.offset, tokens[tokens.length - 1]!.end.offset).trim();
+	}
+
+	private skipNewlines(): void {
+		while (this.peek().type === "newline") {
+			this.index++;
+		}
+	}
+
+	private peek(): Token {
+		return this.tokens[this.index]!;
+	}
+
+	private next(): Token {
+		const token = this.tokens[this.index]!;
+		this.index = Math.min(this.index + 1, this.tokens.length - 1);
+		return token;
+	}
+
+	private error(reason: string, token: Token): AlliumSyntaxError {
+		return new AlliumSyntaxError(reason, token.start, this.source);
+	}
+}
+
+function fieldsOf(members: Member[]): Field[] {
+	return members.flatMap((m) => (m.kind === "member" ? [{ name: m.name, type: m.value, span: m.span }] : []));
+}
+
+function clausesOf(members: Member[]): Clause[] {
+	return members.flatMap((m) => (m.kind === "member" ? [{ keyword: m.name, expression: m.value, span: m.span }] : []));
+}
+
+/** Fill in `relationships`: fields whose type names another declared entity. */
+function linkRelationships(declarations: Declaration[]): void {
+	const entities = declarations.filter((d): d is EntityDeclaration => d.kind === "entity");
+	const names = new Set(entities.map((entity) => entity.name));
+	for (const entity of entities) {
+		entity.relationships = entity.fields.flatMap((field): Relationship[] => {
+			const target = field.type.match(/[A-Za-z_]\w*/g)?.find((word) => names.has(word));
+			return target ? [{ from: entity.name, field: field.name, to: target, span: field.span }] : [];
+		});
+	}
+}
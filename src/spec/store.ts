@@ -4,7 +4,7 @@ const MASTER_KEY = "_master";
 const SPEC_PREFIX = "spec/";
 const SPEC_EXT = ".allium";
 
-function validateModulePath(modulePath: string): void {
+export function validateModulePath(modulePath: string): void {
 	if (modulePath.startsWith("/")) {
 		throw new Error(`Module path must be relative: ${modulePath}`);
 	}
@@ -50,6 +50,7 @@ export interface SpecStore {
 	getAllModules(): Map<string, string>;
 	getRelevantSpecs(changedPaths: string[]): { master: string; modules: Map<string, string> };
 	setModuleSpec(modulePath: string, content: string): void;
+	removeModuleSpec(modulePath: string): void;
 	setMasterSpec(content: string): void;
 	toFileMap(): Map<string, string>;
 	totalTokens(): number;
@@ -107,6 +108,10 @@ export function createSpecStore(initial?: Record<string, string>): SpecStore {
 			modules.set(modulePath, content);
 		},
 
+		removeModuleSpec(modulePath: string): void {
+			modules.delete(modulePath);
+		},
+
 		setMasterSpec(content: string): void {
 			masterSpec = content;
 		},
@@ -142,3 +147,31 @@ export function createSpecStore(initial?: Record<string, string>): SpecStore {
 export function specStoreFromSingleSpec(spec: string): SpecStore {
 	return createSpecStore({ [`${MASTER_KEY}${SPEC_EXT}`]: spec });
 }
+
+export function cloneSpecStore(store: SpecStore): SpecStore {
+	return createSpecStore(store.toSerializable());
+}
+
+/**
+ * Apply a modular Claude response: the master spec is replaced, each listed
+ * module is replaced, and a module set to an empty string is removed.
+ */
+export function applySpecUpdate(store: SpecStore, update: { spec: string; modules?: Record<string, string> }): void {
+	store.setMasterSpec(update.spec);
+	for (const [modulePath, content] of Object.entries(update.modules ?? {})) {
+		if (content.trim() === "") {
+			store.removeModuleSpec(modulePath);
+		} else {
+			store.setModuleSpec(modulePath, content);
+		}
+	}
+}
+
+/** Replace the whole contents of `store` with a tree from `toSerializable()`. */
+export function restoreSpecStore(store: SpecStore, serialized: Record<string, string>): void {
+	for (const modulePath of store.getAllModules().keys()) {
+		store.removeModuleSpec(modulePath);
+	}
+	const { [`${MASTER_KEY}${SPEC_EXT}`]: master = "", ...modules } = serialized;
+	applySpecUpdate(store, { spec: master, modules });
+}
@@ -79,7 +79,13 @@ export class StateTracker {
 		await writeFile(this.stateFile, JSON.stringify(this.state, null, 2), "utf-8");
 	}
 
-	recordStep(segmentId: string, step: CompletedStep, currentSpec: string, currentChangelog: string): void {
+	recordStep(
+		segmentId: string,
+		step: CompletedStep,
+		currentSpec: string,
+		currentChangelog: string,
+		currentSpecModules?: Record<string, string>,
+	): void {
 		const progress = this.state.segmentProgress[segmentId];
 		if (!progress) {
 			throw new Error(`Unknown segment: ${segmentId}`);
@@ -88,6 +94,9 @@ export class StateTracker {
 		progress.completedSteps.push(step);
 		progress.currentSpec = currentSpec;
 		progress.currentChangelog = currentChangelog;
+		if (currentSpecModules) {
+			progress.currentSpecModules = currentSpecModules;
+		}
 
 		if (progress.status === "pending") {
 			progress.status = "in-progress";
@@ -98,6 +107,11 @@ export class StateTracker {
 		this.state.totalSteps += 1;
 	}
 
+	/** Add the cost of calls that no recorded step carries, e.g. chunk calls of a step a stop cut short. */
+	recordSpend(costUsd: number): void {
+		this.state.totalCostUsd += costUsd;
+	}
+
 	recordMerge(merge: CompletedMerge): void {
 		this.state.completedMerges.push(merge);
 	}
@@ -138,12 +152,29 @@ export class StateTracker {
 		this.state.alliumBranchHead = sha;
 	}
 
-	recordReconciliation(reconciliation: CompletedReconciliation, sha: string): void {
+	recordReconciliation(
+		reconciliation: CompletedReconciliation,
+		sha: string,
+		specUpdate?: { currentSpec: string; currentChangelog: string; currentSpecModules?: Record<string, string> },
+	): void {
 		this.state.reconciliations.push(reconciliation);
-		this.state.lastReconciliationStep = this.state.totalSteps;
+		this.state.lastReconciliationStep = reconciliation.atStep;
 		this.state.lastReconciliationSha = sha;
 		this.state.cumulativeDiffTokensSinceLastReconciliation = 0;
 		this.state.totalCostUsd += reconciliation.costUsd;
+
+		if (!reconciliation.skipped) {
+			this.state.shaMap[reconciliation.atSha] = reconciliation.alliumSha;
+		}
+
+		const progress = this.state.segmentProgress[reconciliation.segmentId];
+		if (progress && specUpdate) {
+			progress.currentSpec = specUpdate.currentSpec;
+			progress.currentChangelog = specUpdate.currentChangelog;
+			if (specUpdate.currentSpecModules) {
+				progress.currentSpecModules = specUpdate.currentSpecModules;
+			}
+		}
 	}
 
 	addDiffTokens(tokens: number): void {
@@ -162,10 +193,63 @@ export class StateTracker {
 		};
 	}
 
+	/**
+	 * Trunk steps completed so far. Segments seeded as complete from the allium
+	 * branch only carry their tip step, so they count by commit length.
+	 */
+	getTrunkStepCount(): number {
+		let count = 0;
+		for (const seg of this.state.segments) {
+			if (seg.type !== "trunk") continue;
+			const progress = this.state.segmentProgress[seg.id];
+			if (!progress) continue;
+			count += progress.status === "complete" ? seg.commits.length : progress.completedSteps.length;
+		}
+		return count;
+	}
+
+	/**
+	 * The allium commit a segment's next step should build on: the last step's
+	 * commit, or the reconciliation commit created on top of it.
+	 */
+	getSegmentTipAlliumSha(segmentId: string): string | undefined {
+		const progress = this.state.segmentProgress[segmentId];
+		const lastStep = progress?.completedSteps[progress.completedSteps.length - 1];
+		if (!lastStep) {
+			return undefined;
+		}
+		for (let i = this.state.reconciliations.length - 1; i >= 0; i--) {
+			const reconciliation = this.state.reconciliations[i]!;
+			if (
+				reconciliation.segmentId === segmentId &&
+				reconciliation.atSha === lastStep.originalSha &&
+				!reconciliation.skipped
+			) {
+				return reconciliation.alliumSha;
+			}
+		}
+		return lastStep.alliumSha;
+	}
+
 	getState(): Readonly<EvolutionState> {
 		return this.state;
 	}
 
+	/**
+	 * Keep the shaMap, totals and merge and reconciliation history of a state
+	 * laid out for other segments. Segment progress is seeded separately.
+	 */
+	carryOver(previous: EvolutionState): void {
+		this.state.shaMap = { ...previous.shaMap };
+		this.state.completedMerges = [...previous.completedMerges];
+		this.state.alliumBranchHead = previous.alliumBranchHead;
+		this.state.totalCostUsd = previous.totalCostUsd;
+		this.state.reconciliations = [...previous.reconciliations];
+		this.state.lastReconciliationStep = previous.lastReconciliationStep;
+		this.state.lastReconciliationSha = previous.lastReconciliationSha;
+		this.state.cumulativeDiffTokensSinceLastReconciliation = previous.cumulativeDiffTokensSinceLastReconciliation;
+	}
+
 	setShaMap(shaMap: Record<string, string>): void {
 		this.state.shaMap = { ...shaMap };
 	}
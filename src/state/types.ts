@@ -1,12 +1,36 @@
 import type { EvolutionConfig } from "../config.js";
 import type { Segment } from "../dag/types.js";
 
+export interface SubCallCost {
+	kind: "chunk" | "chunk-recombine";
+	groupKey?: string;
+	model: string;
+	costUsd: number;
+}
+
 export interface CompletedStep {
 	originalSha: string;
 	alliumSha: string;
 	model: string;
 	costUsd: number;
 	timestamp: string;
+	subCalls?: SubCallCost[];
+	/** Name of the `modelRules` entry that picked the model, if any. */
+	rule?: string;
+	/** Set when the step cost more than `maxStepCostUsd`. */
+	overCostCeiling?: boolean;
+	/** Filtered diff tokens the step sent; with `durationMs`, calibrates `--setup-only` estimates. */
+	diffTokens?: number;
+	/** Wall-clock time of the step's model calls. */
+	durationMs?: number;
+	/** Set on the earlier commits of a batch: the original commit whose step made the call and carries the cost. */
+	batchedWith?: string;
+	/**
+	 * Top-level declarations (`entity Order`) the step's spec lost without its
+	 * changelog reporting the removal, after any regression-guard retry. On a
+	 * batch, set on the step that carries the cost.
+	 */
+	droppedDeclarations?: string[];
 }
 
 export interface SegmentProgress {
@@ -14,19 +38,25 @@ export interface SegmentProgress {
 	completedSteps: CompletedStep[];
 	currentSpec: string;
 	currentChangelog: string;
+	/** Serialized `SpecStore` when running with `modularSpec`; keyed like `spec/` minus the prefix. */
+	currentSpecModules?: Record<string, string>;
 }
 
 export interface CompletedMerge {
 	mergeSha: string;
 	alliumSha: string;
-	trunkSegmentId: string;
-	branchSegmentId: string;
+	/** Segment of the merge's first parent. */
+	baseSegmentId: string;
+	/** Segments of the remaining parents, in parent order. */
+	mergedSegmentIds: string[];
 	timestamp: string;
 }
 
 export interface CompletedReconciliation {
+	segmentId: string;
 	atStep: number;
 	atSha: string;
+	alliumSha: string;
 	model: string;
 	costUsd: number;
 	findingsCount: number;
@@ -0,0 +1,33 @@
+/**
+ * Map `items` through `fn` with at most `limit` calls running at once. After
+ * a call fails no new calls start, and the first error is thrown once the
+ * calls already running have settled.
+ */
+export async function mapWithConcurrency<T, R>(
+	items: T[],
+	limit: number,
+	fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+	const results = new Array<R>(items.length);
+	let nextIndex = 0;
+	let failure: { error: unknown } | undefined;
+
+	async function worker(): Promise<void> {
+		while (!failure && nextIndex < items.length) {
+			const index = nextIndex++;
+			try {
+				results[index] = await fn(items[index]!, index);
+			} catch (error) {
+				failure ??= { error };
+			}
+		}
+	}
+
+	const workerCount = Math.max(1, Math.min(limit, items.length));
+	await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+	if (failure) {
+		throw failure.error;
+	}
+	return results;
+}
@@ -0,0 +1,91 @@
+/** Above this many line pairs the changed middle is shown whole instead of aligned. */
+const MAX_ALIGN_CELLS = 4_000_000;
+
+type DiffLine = { op: " " | "-" | "+"; text: string };
+
+function alignLines(a: string[], b: string[]): DiffLine[] {
+	if (a.length * b.length > MAX_ALIGN_CELLS) {
+		return [...a.map((text) => ({ op: "-" as const, text })), ...b.map((text) => ({ op: "+" as const, text }))];
+	}
+
+	// Longest common subsequence table, filled from the end so the walk below is forward.
+	const lcs = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			lcs[i]![j] = a[i] === b[j] ? lcs[i + 1]![j + 1]! + 1 : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+		}
+	}
+
+	const lines: DiffLine[] = [];
+	let i = 0;
+	let j = 0;
+	while (i < a.length && j < b.length) {
+		if (a[i] === b[j]) {
+			lines.push({ op: " ", text: a[i]! });
+			i++;
+			j++;
+		} else if (lcs[i + 1]![j]! >= lcs[i]![j + 1]!) {
+			lines.push({ op: "-", text: a[i++]! });
+		} else {
+			lines.push({ op: "+", text: b[j++]! });
+		}
+	}
+	while (i < a.length) lines.push({ op: "-", text: a[i++]! });
+	while (j < b.length) lines.push({ op: "+", text: b[j++]! });
+	return lines;
+}
+
+/**
+ * Line diff of `before` → `after` in unified style: changed lines prefixed
+ * with `-`/`+`, `context` unchanged lines around each change, `...` between
+ * hunks, truncated after `maxLines`. Returns `""` when the texts are equal.
+ */
+export function diffLines(before: string, after: string, opts: { context?: number; maxLines?: number } = {}): string {
+	if (before === after) {
+		return "";
+	}
+	const context = opts.context ?? 2;
+	const maxLines = opts.maxLines ?? 40;
+
+	const a = before.split("\n");
+	const b = after.split("\n");
+	let prefix = 0;
+	while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+		prefix++;
+	}
+	let suffix = 0;
+	while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) {
+		suffix++;
+	}
+
+	const lines: DiffLine[] = [
+		...a.slice(0, prefix).map((text) => ({ op: " " as const, text })),
+		...alignLines(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix)),
+		...a.slice(a.length - suffix).map((text) => ({ op: " " as const, text })),
+	];
+
+	const keep = new Set<number>();
+	lines.forEach((line, index) => {
+		if (line.op !== " ") {
+			for (let k = Math.max(0, index - context); k <= Math.min(lines.length - 1, index + context); k++) {
+				keep.add(k);
+			}
+		}
+	});
+
+	const out: string[] = [];
+	let last = -1;
+	for (const index of [...keep].sort((x, y) => x - y)) {
+		if (last !== -1 && index > last + 1) {
+			out.push("...");
+		}
+		const line = lines[index]!;
+		out.push(`${line.op} ${line.text}`);
+		last = index;
+	}
+
+	if (out.length > maxLines) {
+		return [...out.slice(0, maxLines), `... (${out.length - maxLines} more diff lines)`].join("\n");
+	}
+	return out.join("\n");
+}
@@ -0,0 +1,121 @@
+import { exec as cpExec } from "node:child_process";
+import { cp, mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import { promisify } from "node:util";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+const execAsync = promisify(cpExec);
+
+vi.mock("../../src/claude/runner.js", async (importOriginal) => {
+	const actual = (await importOriginal()) as Record<string, unknown>;
+	return {
+		...actual,
+		invokeClaudeForStep: vi.fn(async () => {
+			const callId = Math.random().toString(36).slice(2);
+			return {
+				spec: `spec-v${callId}`,
+				changelog: `changelog entry ${callId}`,
+				commitMessage: `evolve step ${callId}`,
+				sessionId: `session-${callId}`,
+				costUsd: 0.01,
+			};
+		}),
+	};
+});
+
+const FIXTURE_REPO = resolve(import.meta.dirname, "../fixtures/repo");
+
+describe("Batching small commits into one step", () => {
+	let tmpDir: string;
+	let invokeMock: ReturnType<typeof vi.fn>;
+	type EvolutionState = import("../../src/state/types.js").EvolutionState;
+	type BatchLayout = import("../../src/config.js").BatchLayout;
+
+	async function runWithLayout(batchLayout: BatchLayout): Promise<{ repoPath: string; state: EvolutionState }> {
+		const repoPath = join(tmpDir, `repo-${batchLayout}`);
+		const stateFile = join(tmpDir, `state-${batchLayout}.json`);
+		await cp(FIXTURE_REPO, repoPath, { recursive: true });
+		await execAsync('git config user.email "test@allium-evolve.dev"', { cwd: repoPath });
+		await execAsync('git config user.name "Test Author"', { cwd: repoPath });
+
+		const { defaultConfig } = await import("../../src/config.js");
+		const { runEvolution } = await import("../../src/evolution/orchestrator.js");
+		await runEvolution(
+			defaultConfig({
+				repoPath,
+				targetRef: "main",
+				parallelBranches: false,
+				stateFile,
+				alliumBranch: "allium/evolution",
+				alliumSkillsPath: "/tmp/fake-skills",
+				autoConfirm: true,
+				batchMaxTokens: 1_000_000,
+				batchLayout,
+			}),
+		);
+		return { repoPath, state: JSON.parse(await readFile(stateFile, "utf-8")) as EvolutionState };
+	}
+
+	function allSteps(state: EvolutionState) {
+		return Object.values(state.segmentProgress).flatMap((progress) => progress.completedSteps);
+	}
+
+	beforeAll(async () => {
+		tmpDir = await mkdtemp(join(tmpdir(), "allium-batching-"));
+		invokeMock = vi.mocked((await import("../../src/claude/runner.js")).invokeClaudeForStep) as ReturnType<typeof vi.fn>;
+	});
+
+	beforeEach(() => {
+		invokeMock.mockClear();
+	});
+
+	afterAll(async () => {
+		await rm(tmpDir, { recursive: true, force: true });
+	});
+
+	describe("INT-028: per-commit layout writes one allium commit per original commit", () => {
+		it("should make fewer model calls while still recording every commit", async () => {
+			const { repoPath, state } = await runWithLayout("per-commit");
+
+			expect(state.totalSteps).toBe(28);
+			expect(invokeMock.mock.calls.length).toBeLessThan(20);
+			expect(state.totalCostUsd).toBeCloseTo(invokeMock.mock.calls.length * 0.01);
+
+			const batched = allSteps(state).filter((step) => step.batchedWith);
+			expect(batched.length).toBeGreaterThan(0);
+			for (const step of batched) {
+				expect(step.costUsd).toBe(0);
+				expect(state.shaMap[step.batchedWith!]).toBeTruthy();
+			}
+
+			const { buildShaMapFromAlliumBranch } = await import("../../src/evolution/seed-resolver.js");
+			const shaMap = await buildShaMapFromAlliumBranch(repoPath, state.alliumBranchHead);
+			expect(shaMap).toEqual(state.shaMap);
+			expect(new Set(Object.values(shaMap)).size).toBe(28);
+		}, 60_000);
+	});
+
+	describe("INT-029: single layout writes one allium commit with an Original: line per commit", () => {
+		it("should map every original commit to the shared batch commit", async () => {
+			const { repoPath, state } = await runWithLayout("single");
+
+			expect(state.totalSteps).toBe(28);
+			const batched = allSteps(state).filter((step) => step.batchedWith);
+			expect(batched.length).toBeGreaterThan(0);
+			for (const step of batched) {
+				expect(step.alliumSha).toBe(state.shaMap[step.batchedWith!]);
+			}
+
+			const { buildShaMapFromAlliumBranch, resolveFromAlliumBranch } = await import(
+				"../../src/evolution/seed-resolver.js"
+			);
+			const shaMap = await buildShaMapFromAlliumBranch(repoPath, state.alliumBranchHead);
+			expect(shaMap).toEqual(state.shaMap);
+			expect(new Set(Object.values(shaMap)).size).toBe(28 - batched.length);
+
+			const { stdout: tip } = await execAsync("git rev-parse main", { cwd: repoPath });
+			expect((await resolveFromAlliumBranch(repoPath, "allium/evolution"))!.startAfterSha).toBe(tip.trim());
+		}, 60_000);
+	});
+});
@@ -0,0 +1,101 @@
+import { exec as cpExec } from "node:child_process";
+import { cp, mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import { promisify } from "node:util";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+const execAsync = promisify(cpExec);
+
+vi.mock("../../src/claude/runner.js", async (importOriginal) => {
+	const actual = (await importOriginal()) as Record<string, unknown>;
+	let callCount = 0;
+	return {
+		...actual,
+		invokeClaudeForStep: vi.fn(async () => {
+			callCount++;
+			// Every step appends one line, so line N was written by the Nth call.
+			const lines = Array.from({ length: callCount }, (_, i) => `rule R${i + 1} {}`);
+			return {
+				spec: `${lines.join("\n")}\n`,
+				changelog: `## ${callCount.toString(16).padStart(8, "0")} — step ${callCount}\n\n- Add R${callCount}`,
+				commitMessage: `evolve step ${callCount}`,
+				sessionId: `session-${callCount}`,
+				costUsd: 0.01,
+			};
+		}),
+	};
+});
+
+const FIXTURE_REPO = resolve(import.meta.dirname, "../fixtures/repo");
+
+describe("blame – spec lines attributed to source commits", () => {
+	let tmpDir: string;
+	let repoPath: string;
+	let config: import("../../src/config.js").EvolutionConfig;
+	let history: typeof import("../../src/history/blame.js");
+
+	async function git(command: string): Promise<string> {
+		const { stdout } = await execAsync(`git ${command}`, { cwd: repoPath });
+		return stdout.trim();
+	}
+
+	beforeAll(async () => {
+		tmpDir = await mkdtemp(join(tmpdir(), "allium-blame-"));
+		repoPath = join(tmpDir, "repo");
+		await cp(FIXTURE_REPO, repoPath, { recursive: true });
+		await git('config user.email "test@allium-evolve.dev"');
+		await git('config user.name "Test Author"');
+
+		const { defaultConfig } = await import("../../src/config.js");
+		const { runEvolution } = await import("../../src/evolution/orchestrator.js");
+		history = await import("../../src/history/blame.js");
+
+		config = defaultConfig({
+			repoPath,
+			targetRef: "main",
+			parallelBranches: false,
+			stateFile: join(tmpDir, "state.json"),
+			alliumBranch: "allium/evolution",
+			alliumSkillsPath: "/tmp/fake-skills",
+			autoConfirm: true,
+		});
+		await runEvolution(config);
+	}, 60_000);
+
+	afterAll(async () => {
+		await rm(tmpDir, { recursive: true, force: true });
+	});
+
+	describe("INT-037: blame maps each spec line to the Original: commit of the step that wrote it", () => {
+		it("should attribute the first line to the root commit and the last to the tip of main", async () => {
+			const blame = await history.blameSpec(config);
+			expect(blame.file).toBe("spec.allium");
+			expect(blame.lines.length).toBeGreaterThan(1);
+
+			const first = blame.commits[blame.lines[0]!.alliumSha]!;
+			expect(first.originalSha).toBe(await git("rev-list --max-parents=0 main"));
+			expect(first.message).toMatch(/^A: /);
+			expect(first.author).toBeTruthy();
+			expect(first.date).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+
+			const last = blame.commits[blame.lines.at(-1)!.alliumSha]!;
+			expect(last.originalSha).toBe(await git("rev-parse main"));
+			expect(last.message).toMatch(/^U: /);
+		});
+
+		it("should add each step's changelog entry on request", async () => {
+			const blame = await history.blameSpec(config, { withChangelog: true });
+			const lastLine = blame.lines.at(-1)!;
+			const rule = lastLine.content.match(/^rule (R\d+)/)![1];
+			expect(blame.commits[lastLine.alliumSha]!.changelog).toEqual([expect.stringContaining(`- Add ${rule}`)]);
+			expect(history.formatBlame(blame)).toContain(`    - Add ${rule}`);
+		});
+
+		it("should reject files the allium branch does not carry", async () => {
+			await expect(history.blameSpec(config, { file: "missing.allium" })).rejects.toThrow(
+				"No missing.allium on refs/heads/allium/evolution; spec files there: spec.allium",
+			);
+		});
+	});
+});
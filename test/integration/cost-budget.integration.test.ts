@@ -0,0 +1,125 @@
+import { exec as cpExec } from "node:child_process";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { cp, mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import { promisify } from "node:util";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+const execAsync = promisify(cpExec);
+
+const FIXTURE_REPO = resolve(import.meta.dirname, "../fixtures/repo");
+
+const BUDGET_USD = 0.3;
+
+describe("Orchestrator – cost budget", () => {
+	let tmpDir: string;
+	let repoPath: string;
+	let stateFilePath: string;
+	let server: Server;
+	let requestCount = 0;
+	type EvolutionState = import("../../src/state/types.js").EvolutionState;
+	type EvolutionConfig = import("../../src/config.js").EvolutionConfig;
+	let config: EvolutionConfig;
+	let stoppedError: unknown;
+	let stoppedReason: string | undefined;
+	let stoppedState: EvolutionState;
+	let requestsBeforeResume: number;
+
+	beforeAll(async () => {
+		server = createServer((req, res) => {
+			req.resume();
+			req.on("end", () => {
+				requestCount++;
+				res.writeHead(200, { "content-type": "application/json" });
+				res.end(
+					JSON.stringify({
+						id: `msg_${requestCount}`,
+						content: [
+							{
+								type: "tool_use",
+								name: "submit_result",
+								input: {
+									spec: `spec-v${requestCount}`,
+									changelog: `changelog entry ${requestCount}`,
+									commitMessage: `evolve step ${requestCount}`,
+								},
+							},
+						],
+						usage: { input_tokens: 3000, output_tokens: 100 },
+					}),
+				);
+			});
+		});
+		await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+		tmpDir = await mkdtemp(join(tmpdir(), "allium-cost-budget-"));
+		repoPath = join(tmpDir, "repo");
+		stateFilePath = join(tmpDir, "state.json");
+
+		await cp(FIXTURE_REPO, repoPath, { recursive: true });
+		await execAsync('git config user.email "test@allium-evolve.dev"', { cwd: repoPath });
+		await execAsync('git config user.name "Test Author"', { cwd: repoPath });
+
+		const { defaultConfig } = await import("../../src/config.js");
+		const { runEvolution } = await import("../../src/evolution/orchestrator.js");
+		const { ShutdownSignal } = await import("../../src/shutdown.js");
+
+		config = defaultConfig({
+			repoPath,
+			targetRef: "main",
+			parallelBranches: false,
+			stateFile: stateFilePath,
+			alliumBranch: "allium/evolution",
+			alliumSkillsPath: "/tmp/fake-skills",
+			autoConfirm: true,
+			maxCostUsd: BUDGET_USD,
+			maxStepCostUsd: 0.02,
+			backend: { kind: "api", apiBaseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}` },
+		});
+
+		const shutdownSignal = new ShutdownSignal();
+		stoppedError = await runEvolution(config, shutdownSignal).catch((err: unknown) => err);
+		stoppedReason = shutdownSignal.reason;
+		stoppedState = JSON.parse(await readFile(stateFilePath, "utf-8")) as EvolutionState;
+		requestsBeforeResume = requestCount;
+	}, 60_000);
+
+	afterAll(async () => {
+		await new Promise((resolve) => server.close(resolve));
+		await rm(tmpDir, { recursive: true, force: true });
+	});
+
+	describe("INT-031: The run stops gracefully before crossing --max-cost and resumes with a higher budget", () => {
+		it("should stop with a graceful shutdown requested by the budget", async () => {
+			const { GracefulShutdownError } = await import("../../src/shutdown.js");
+			expect(stoppedError).toBeInstanceOf(GracefulShutdownError);
+			expect(stoppedReason).toBe("budget");
+		});
+
+		it("should save state with a total cost within the budget", () => {
+			expect(stoppedState.totalCostUsd).toBeGreaterThan(0);
+			expect(stoppedState.totalCostUsd).toBeLessThanOrEqual(BUDGET_USD);
+			expect(stoppedState.totalSteps).toBeLessThan(28);
+			expect(requestsBeforeResume).toBeLessThan(28);
+		});
+
+		it("should flag steps over the per-step ceiling", () => {
+			const steps = Object.values(stoppedState.segmentProgress).flatMap((p) => p.completedSteps);
+			const flagged = steps.filter((s) => s.overCostCeiling);
+			expect(flagged.length).toBeGreaterThan(0);
+			expect(flagged.every((s) => s.model === "opus" && s.costUsd > 0.02)).toBe(true);
+			expect(steps.filter((s) => s.model === "sonnet").some((s) => s.overCostCeiling)).toBe(false);
+		});
+
+		it("should finish the remaining steps when resumed with a higher budget", async () => {
+			const { runEvolution } = await import("../../src/evolution/orchestrator.js");
+			await runEvolution({ ...config, maxCostUsd: 10 });
+
+			const finalState = JSON.parse(await readFile(stateFilePath, "utf-8")) as EvolutionState;
+			expect(finalState.totalSteps).toBe(28);
+			expect(requestCount).toBe(28);
+		}, 60_000);
+	});
+});
@@ -0,0 +1,121 @@
+import { exec as cpExec } from "node:child_process";
+import { cp, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import { promisify } from "node:util";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { buildDag } from "../../src/dag/builder.js";
+import { dagCachePath, loadCachedDag } from "../../src/dag/cache.js";
+import { decompose } from "../../src/dag/segments.js";
+import { identifyTrunk } from "../../src/dag/trunk.js";
+import type { CommitNode } from "../../src/dag/types.js";
+
+const execAsync = promisify(cpExec);
+
+const FIXTURE_REPO = resolve(import.meta.dirname, "../fixtures/repo");
+
+describe("DAG cache under .git/allium/", () => {
+	let tmpDir: string;
+	let repoPath: string;
+	let cachePath: string;
+
+	async function git(command: string): Promise<string> {
+		const { stdout } = await execAsync(`git ${command}`, { cwd: repoPath });
+		return stdout.trim();
+	}
+
+	async function commitOnMain(file: string, message: string): Promise<string> {
+		await git("checkout -q main");
+		await writeFile(join(repoPath, file), `export const value = "${message}";\n`);
+		await git(`add ${file}`);
+		await git(`commit -q -m "${message}"`);
+		return git("rev-parse HEAD");
+	}
+
+	async function cachedTip(): Promise<string> {
+		return (JSON.parse(await readFile(cachePath, "utf-8")) as { tip: string }).tip;
+	}
+
+	function expectSameDag(actual: Map<string, CommitNode>, expected: Map<string, CommitNode>): void {
+		expect([...actual.keys()].sort()).toEqual([...expected.keys()].sort());
+		for (const [sha, node] of expected) {
+			const cached = actual.get(sha)!;
+			expect(cached.parents).toEqual(node.parents);
+			expect(cached.message).toBe(node.message);
+			expect([...cached.children].sort()).toEqual([...node.children].sort());
+		}
+	}
+
+	beforeAll(async () => {
+		tmpDir = await mkdtemp(join(tmpdir(), "allium-dag-cache-"));
+		repoPath = join(tmpDir, "repo");
+		await cp(FIXTURE_REPO, repoPath, { recursive: true });
+		await git('config user.email "test@allium-evolve.dev"');
+		await git('config user.name "Test Author"');
+		cachePath = await dagCachePath(repoPath);
+	}, 30_000);
+
+	afterAll(async () => {
+		await rm(tmpDir, { recursive: true, force: true });
+	});
+
+	describe("INT-024: The first load writes the cache and a later load at the same tip reads it", () => {
+		it("should store the tip SHA alongside the commits", async () => {
+			const dag = await loadCachedDag(repoPath, "main");
+			expect(cachePath).toBe(join(repoPath, ".git", "allium", "dag-cache.json"));
+			expect(await cachedTip()).toBe(await git("rev-parse main"));
+			expectSameDag(dag, await buildDag(repoPath, "main"));
+		});
+
+		it("should serve an unchanged tip from the cache file", async () => {
+			const file = JSON.parse(await readFile(cachePath, "utf-8")) as { commits: unknown[][] };
+			file.commits.push(["cafe".repeat(10), [], "only in the cache", ""]);
+			await writeFile(cachePath, JSON.stringify(file));
+
+			const dag = await loadCachedDag(repoPath, "main");
+			expect(dag.has("cafe".repeat(10))).toBe(true);
+
+			file.commits.pop();
+			await writeFile(cachePath, JSON.stringify(file));
+		});
+	});
+
+	describe("INT-025: New commits extend the cached DAG", () => {
+		it("should read only the new commits and advance the cached tip", async () => {
+			const newSha = await commitOnMain("src/cache-one.ts", "V: Add cache-one");
+			const dag = await loadCachedDag(repoPath, "main");
+
+			expect(await cachedTip()).toBe(newSha);
+			expectSameDag(dag, await buildDag(repoPath, "main"));
+		});
+
+		it("should decompose an extended DAG exactly like a freshly built one", async () => {
+			const cached = await loadCachedDag(repoPath, "main");
+			const fresh = await buildDag(repoPath, "main");
+			await identifyTrunk(cached, repoPath, "main");
+			await identifyTrunk(fresh, repoPath, "main");
+			expect(decompose(cached)).toEqual(decompose(fresh));
+		});
+	});
+
+	describe("INT-026: A rewritten history falls back to a full rebuild", () => {
+		it("should drop commits that are no longer reachable", async () => {
+			const droppedSha = await git("rev-parse main");
+			await git("reset -q --hard HEAD~1");
+			const replacementSha = await commitOnMain("src/cache-two.ts", "V: Add cache-two instead");
+
+			const dag = await loadCachedDag(repoPath, "main");
+			expect(dag.has(droppedSha)).toBe(false);
+			expect(dag.has(replacementSha)).toBe(true);
+			expect(await cachedTip()).toBe(replacementSha);
+			expectSameDag(dag, await buildDag(repoPath, "main"));
+		});
+
+		it("should rebuild when the cache file is unreadable", async () => {
+			await writeFile(cachePath, "{ not json");
+			const dag = await loadCachedDag(repoPath, "main");
+			expectSameDag(dag, await buildDag(repoPath, "main"));
+			expect(await cachedTip()).toBe(await git("rev-parse main"));
+		});
+	});
+});
@@ -0,0 +1,118 @@
+import { exec as cpExec } from "node:child_process";
+import { cp, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import { promisify } from "node:util";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+const execAsync = promisify(cpExec);
+
+vi.mock("../../src/claude/runner.js", async (importOriginal) => {
+	const actual = (await importOriginal()) as Record<string, unknown>;
+	return {
+		...actual,
+		invokeClaudeForStep: vi.fn(async () => {
+			const callId = Math.random().toString(36).slice(2);
+			return {
+				spec: `spec-v${callId}`,
+				changelog: `changelog entry ${callId}`,
+				commitMessage: `evolve step ${callId}`,
+				sessionId: `session-${callId}`,
+				costUsd: 0.01,
+			};
+		}),
+	};
+});
+
+const FIXTURE_REPO = resolve(import.meta.dirname, "../fixtures/repo");
+
+describe("follow – incremental updates of the allium branch", () => {
+	let tmpDir: string;
+	let repoPath: string;
+	let config: import("../../src/config.js").EvolutionConfig;
+	let follow: typeof import("../../src/evolution/follow.js").follow;
+	let invokeMock: ReturnType<typeof vi.fn>;
+
+	async function git(command: string): Promise<string> {
+		const { stdout } = await execAsync(`git ${command}`, { cwd: repoPath });
+		return stdout.trim();
+	}
+
+	async function commitOnMain(file: string, message: string): Promise<string> {
+		await git("checkout -q main");
+		await writeFile(join(repoPath, file), `export const value = "${message}";\n`);
+		await git(`add ${file}`);
+		await git(`commit -q -m "${message}"`);
+		return git("rev-parse HEAD");
+	}
+
+	beforeAll(async () => {
+		tmpDir = await mkdtemp(join(tmpdir(), "allium-follow-"));
+		repoPath = join(tmpDir, "repo");
+		await cp(FIXTURE_REPO, repoPath, { recursive: true });
+		await git('config user.email "test@allium-evolve.dev"');
+		await git('config user.name "Test Author"');
+
+		const { defaultConfig } = await import("../../src/config.js");
+		follow = (await import("../../src/evolution/follow.js")).follow;
+		invokeMock = vi.mocked((await import("../../src/claude/runner.js")).invokeClaudeForStep) as ReturnType<typeof vi.fn>;
+
+		config = defaultConfig({
+			repoPath,
+			targetRef: "main",
+			parallelBranches: false,
+			stateFile: join(tmpDir, "state.json"),
+			alliumBranch: "allium/evolution",
+			alliumSkillsPath: "/tmp/fake-skills",
+		});
+	}, 30_000);
+
+	afterAll(async () => {
+		await rm(tmpDir, { recursive: true, force: true });
+	});
+
+	describe("INT-022: follow --once processes new commits and reports when there is nothing to do", () => {
+		it("should process the whole history on the first pass", async () => {
+			expect(await follow(config, { intervalSeconds: 60, once: true })).toBe("processed");
+			expect(invokeMock).toHaveBeenCalledTimes(28);
+		}, 60_000);
+
+		it("should report up-to-date without calling the model when the ref has not moved", async () => {
+			expect(await follow(config, { intervalSeconds: 60, once: true })).toBe("up-to-date");
+			expect(invokeMock).toHaveBeenCalledTimes(28);
+		});
+
+		it("should process only commits added since the last pass and advance the allium branch", async () => {
+			const previousTip = await git("rev-parse allium/evolution");
+			const newSha = await commitOnMain("src/follow-one.ts", "V: Add follow-one");
+
+			expect(await follow(config, { intervalSeconds: 60, once: true })).toBe("processed");
+			expect(invokeMock).toHaveBeenCalledTimes(29);
+
+			const tip = await git("rev-parse allium/evolution");
+			expect(await git(`log -1 --format=%B ${tip}`)).toContain(newSha);
+			await expect(git(`merge-base --is-ancestor ${previousTip} ${tip}`)).resolves.toBe("");
+		}, 60_000);
+	});
+
+	describe("INT-023: extendDag reads only new commits and matches a full rebuild", () => {
+		it("should produce the same nodes, parents and children as buildDag", async () => {
+			const { buildDag, extendDag } = await import("../../src/dag/builder.js");
+			const oldTip = await git("rev-parse main");
+			const dag = await buildDag(repoPath, oldTip);
+
+			await commitOnMain("src/follow-two.ts", "V2: Add follow-two");
+			await commitOnMain("src/follow-three.ts", "V3: Add follow-three");
+			const newTip = await git("rev-parse main");
+
+			expect(await extendDag(dag, repoPath, newTip, oldTip)).toBe(2);
+
+			const rebuilt = await buildDag(repoPath, newTip);
+			expect([...dag.keys()].sort()).toEqual([...rebuilt.keys()].sort());
+			for (const [sha, node] of rebuilt) {
+				expect(dag.get(sha)!.parents).toEqual(node.parents);
+				expect([...dag.get(sha)!.children].sort()).toEqual([...node.children].sort());
+			}
+		});
+	});
+});
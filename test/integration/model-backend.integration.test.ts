@@ -0,0 +1,157 @@
+import { exec as cpExec } from "node:child_process";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { cp, mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import { promisify } from "node:util";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+const execAsync = promisify(cpExec);
+
+const FIXTURE_REPO = resolve(import.meta.dirname, "../fixtures/repo");
+
+describe("Orchestrator – Messages API backend against a local server", () => {
+	let tmpDir: string;
+	let repoPath: string;
+	let stateFilePath: string;
+	let cassetteDir: string;
+	let server: Server;
+	const requests: Array<{ model: string; content: string }> = [];
+	type EvolutionState = import("../../src/state/types.js").EvolutionState;
+	let parsedState: EvolutionState;
+
+	beforeAll(async () => {
+		server = createServer((req, res) => {
+			let body = "";
+			req.on("data", (chunk) => {
+				body += chunk;
+			});
+			req.on("end", () => {
+				const parsed = JSON.parse(body) as { model: string; messages: Array<{ content: string }> };
+				requests.push({ model: parsed.model, content: parsed.messages[0]!.content });
+				const n = requests.length;
+				res.writeHead(200, { "content-type": "application/json" });
+				res.end(
+					JSON.stringify({
+						id: `msg_${n}`,
+						content: [
+							{
+								type: "tool_use",
+								name: "submit_result",
+								input: { spec: `spec-v${n}`, changelog: `changelog entry ${n}`, commitMessage: `evolve step ${n}` },
+							},
+						],
+						usage: { input_tokens: 1000, output_tokens: 100 },
+					}),
+				);
+			});
+		});
+		await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+		tmpDir = await mkdtemp(join(tmpdir(), "allium-api-backend-"));
+		repoPath = join(tmpDir, "repo");
+		stateFilePath = join(tmpDir, "state.json");
+		cassetteDir = join(tmpDir, "cassettes");
+
+		await cp(FIXTURE_REPO, repoPath, { recursive: true });
+		await execAsync('git config user.email "test@allium-evolve.dev"', { cwd: repoPath });
+		await execAsync('git config user.name "Test Author"', { cwd: repoPath });
+
+		const { defaultConfig } = await import("../../src/config.js");
+		const { runEvolution } = await import("../../src/evolution/orchestrator.js");
+
+		const config = defaultConfig({
+			repoPath,
+			targetRef: "main",
+			parallelBranches: false,
+			stateFile: stateFilePath,
+			alliumBranch: "allium/evolution",
+			alliumSkillsPath: "/tmp/fake-skills",
+			autoConfirm: true,
+			backend: {
+				kind: "api",
+				apiBaseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+				recordDir: cassetteDir,
+			},
+		});
+
+		await runEvolution(config);
+
+		parsedState = JSON.parse(await readFile(stateFilePath, "utf-8")) as EvolutionState;
+	}, 60_000);
+
+	afterAll(async () => {
+		await new Promise((resolve) => server.close(resolve));
+		await rm(tmpDir, { recursive: true, force: true });
+	});
+
+	describe("INT-018: A full evolution runs offline through the api backend", () => {
+		it("should complete every step with one request per step and merge", () => {
+			expect(parsedState.totalSteps).toBe(28);
+			expect(requests).toHaveLength(28);
+			expect(parsedState.alliumBranchHead).toBeTruthy();
+		});
+
+		it("should send full model IDs and inline the context files", () => {
+			expect(new Set(requests.map((r) => r.model))).toEqual(new Set(["claude-opus-4-1", "claude-sonnet-4-5"]));
+			for (const request of requests) {
+				expect(request.content).toContain("<context-file path=\".allium-tmp/");
+			}
+		});
+
+		it("should record cost derived from token usage", () => {
+			expect(parsedState.totalCostUsd).toBeGreaterThan(0);
+		});
+
+		it("should record diff sizes and durations for estimator calibration", () => {
+			const steps = Object.values(parsedState.segmentProgress).flatMap((p) => p.completedSteps);
+			const evolveSteps = steps.filter((s) => s.model !== "skipped" && s.diffTokens !== undefined);
+			expect(evolveSteps.length).toBeGreaterThan(0);
+			expect(steps.every((s) => s.model === "skipped" || s.durationMs !== undefined)).toBe(true);
+		});
+	});
+
+	describe("INT-019: A recorded run replays offline to the same allium branch", () => {
+		it("should write one cassette per call, named by step type", async () => {
+			const files = await readdir(cassetteDir);
+			expect(files).toHaveLength(28);
+			expect(files.filter((f) => f.startsWith("merge-"))).toHaveLength(2);
+			expect(files.filter((f) => f.startsWith("initial-commit-"))).toHaveLength(1);
+		});
+
+		it("should replay every call from cassettes without contacting the server", async () => {
+			const replayRepo = join(tmpDir, "replay-repo");
+			const replayState = join(tmpDir, "replay-state.json");
+			await cp(FIXTURE_REPO, replayRepo, { recursive: true });
+			await execAsync('git config user.email "test@allium-evolve.dev"', { cwd: replayRepo });
+			await execAsync('git config user.name "Test Author"', { cwd: replayRepo });
+
+			const { defaultConfig } = await import("../../src/config.js");
+			const { runEvolution } = await import("../../src/evolution/orchestrator.js");
+			const requestsBefore = requests.length;
+
+			await runEvolution(
+				defaultConfig({
+					repoPath: replayRepo,
+					targetRef: "main",
+					parallelBranches: false,
+					stateFile: replayState,
+					alliumBranch: "allium/evolution",
+					alliumSkillsPath: "/tmp/fake-skills",
+					autoConfirm: true,
+					backend: { kind: "fixture", fixtureDir: cassetteDir },
+				}),
+			);
+
+			expect(requests).toHaveLength(requestsBefore);
+			const replayed = JSON.parse(await readFile(replayState, "utf-8")) as EvolutionState;
+			expect(replayed.totalSteps).toBe(28);
+			expect(replayed.totalCostUsd).toBeCloseTo(parsedState.totalCostUsd);
+
+			const { stdout: recordedTree } = await execAsync("git rev-parse allium/evolution^{tree}", { cwd: repoPath });
+			const { stdout: replayedTree } = await execAsync("git rev-parse allium/evolution^{tree}", { cwd: replayRepo });
+			expect(replayedTree).toBe(recordedTree);
+		}, 60_000);
+	});
+});
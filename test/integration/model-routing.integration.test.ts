@@ -0,0 +1,124 @@
+import { exec as cpExec } from "node:child_process";
+import { cp, mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import { promisify } from "node:util";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+const execAsync = promisify(cpExec);
+
+vi.mock("../../src/claude/runner.js", async (importOriginal) => {
+	const actual = (await importOriginal()) as Record<string, unknown>;
+	return {
+		...actual,
+		invokeClaudeForStep: vi.fn(async () => {
+			const callId = Math.random().toString(36).slice(2);
+			return {
+				spec: `spec-v${callId}`,
+				changelog: `changelog entry ${callId}`,
+				commitMessage: `evolve step ${callId}`,
+				sessionId: `session-${callId}`,
+				costUsd: 0.01,
+			};
+		}),
+	};
+});
+
+const FIXTURE_REPO = resolve(import.meta.dirname, "../fixtures/repo");
+
+describe("Orchestrator – rule-based model routing", () => {
+	let tmpDir: string;
+	let repoPath: string;
+	let config: import("../../src/config.js").EvolutionConfig;
+	let invokeMock: ReturnType<typeof vi.fn>;
+	let estimatedDistribution: Record<string, number>;
+	type EvolutionState = import("../../src/state/types.js").EvolutionState;
+	let parsedState: EvolutionState;
+
+	beforeAll(async () => {
+		tmpDir = await mkdtemp(join(tmpdir(), "allium-routing-"));
+		repoPath = join(tmpDir, "repo");
+		await cp(FIXTURE_REPO, repoPath, { recursive: true });
+		await execAsync('git config user.email "test@allium-evolve.dev"', { cwd: repoPath });
+		await execAsync('git config user.name "Test Author"', { cwd: repoPath });
+
+		const { defaultConfig } = await import("../../src/config.js");
+		const { runEvolution, setupEvolution } = await import("../../src/evolution/orchestrator.js");
+		const { computeSetupStats } = await import("../../src/evolution/estimator.js");
+		const { collectCommitFacts } = await import("../../src/evolution/commit-facts.js");
+		invokeMock = vi.mocked((await import("../../src/claude/runner.js")).invokeClaudeForStep) as ReturnType<typeof vi.fn>;
+
+		config = defaultConfig({
+			repoPath,
+			targetRef: "main",
+			parallelBranches: false,
+			stateFile: join(tmpDir, "state.json"),
+			alliumBranch: "allium/evolution",
+			alliumSkillsPath: "/tmp/fake-skills",
+			autoConfirm: true,
+			modelRules: [
+				{ name: "merges-on-sonnet", model: "sonnet", maxTurns: 30, stepTypes: ["merge"] },
+				{ name: "routes-on-haiku", model: "haiku", paths: ["src/routes/**"] },
+				{ name: "payments-on-opus", model: "opus", messagePattern: "payment", stepTypes: ["evolve"] },
+			],
+		});
+
+		const setup = await setupEvolution(config);
+		estimatedDistribution = computeSetupStats(
+			setup.dag,
+			setup.segments,
+			setup.stateTracker,
+			config,
+			setup.isResume,
+			await collectCommitFacts(config, { withDiffTokens: false }),
+		).modelDistribution;
+
+		await runEvolution(config);
+		parsedState = JSON.parse(await readFile(config.stateFile, "utf-8")) as EvolutionState;
+	}, 60_000);
+
+	afterAll(async () => {
+		await rm(tmpDir, { recursive: true, force: true });
+	});
+
+	describe("INT-030: Steps are routed by the first matching rule", () => {
+		const steps = () => Object.values(parsedState.segmentProgress).flatMap((progress) => progress.completedSteps);
+
+		it("should send merges with the rule's model and max turns", () => {
+			const mergeCalls = invokeMock.mock.calls.filter(([opts]) => opts.stepType === "merge");
+			expect(mergeCalls).toHaveLength(2);
+			for (const [opts] of mergeCalls) {
+				expect(opts).toMatchObject({ model: "sonnet", maxTurns: 30 });
+			}
+		});
+
+		it("should record the rule on the step and on the allium commit", async () => {
+			const routeSteps = steps().filter((step) => step.rule === "routes-on-haiku");
+			expect(routeSteps.length).toBeGreaterThan(0);
+			for (const step of routeSteps) {
+				expect(step.model).toBe("haiku");
+				const { stdout } = await execAsync(`git log -1 --format=%B ${step.alliumSha}`, { cwd: repoPath });
+				expect(stdout).toContain("Model: haiku\nRule: routes-on-haiku");
+			}
+			const { stdout: files } = await execAsync(
+				`git show --name-only --format= ${routeSteps.map((step) => step.originalSha).join(" ")}`,
+				{ cwd: repoPath },
+			);
+			expect(files.trim().split("\n").every((path) => path.startsWith("src/routes/"))).toBe(true);
+		});
+
+		it("should leave steps no rule matches on the defaults, without a rule", () => {
+			const unrouted = steps().filter((step) => !step.rule);
+			expect(unrouted.length).toBeGreaterThan(0);
+			expect(new Set(unrouted.map((step) => step.model))).toEqual(new Set(["opus", "sonnet"]));
+		});
+
+		it("should match the --setup-only model distribution", () => {
+			const actual: Record<string, number> = {};
+			for (const step of steps()) {
+				actual[step.model] = (actual[step.model] ?? 0) + 1;
+			}
+			expect(estimatedDistribution).toEqual(actual);
+		});
+	});
+});
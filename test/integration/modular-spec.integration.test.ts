@@ -0,0 +1,120 @@
+import { exec as cpExec } from "node:child_process";
+import { cp, mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import { promisify } from "node:util";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+const execAsync = promisify(cpExec);
+
+const systemPrompts: string[] = [];
+
+vi.mock("../../src/claude/runner.js", async (importOriginal) => {
+	const actual = (await importOriginal()) as Record<string, unknown>;
+	let callCount = 0;
+	return {
+		...actual,
+		invokeClaudeForStep: vi.fn(async (opts: { systemPrompt: string; modular?: boolean }) => {
+			callCount++;
+			systemPrompts.push(opts.systemPrompt);
+			const modules: Record<string, string> = {};
+			if (callCount === 1) {
+				modules["entities.allium"] = "entity User {}";
+				modules["scratch.allium"] = "entity Draft {}";
+			} else if (callCount === 2) {
+				modules["scratch.allium"] = "";
+			} else {
+				modules["entities.allium"] = `entity User {} -- v${callCount}`;
+			}
+			return {
+				spec: `master-v${callCount}`,
+				changelog: `changelog entry ${callCount}`,
+				commitMessage: `evolve step ${callCount}`,
+				sessionId: `session-${callCount}`,
+				costUsd: 0.01,
+				...(opts.modular ? { modules } : {}),
+			};
+		}),
+	};
+});
+
+const FIXTURE_REPO = resolve(import.meta.dirname, "../fixtures/repo");
+
+describe("Orchestrator – modular spec output", () => {
+	let tmpDir: string;
+	let repoPath: string;
+	let stateFilePath: string;
+	type EvolutionState = import("../../src/state/types.js").EvolutionState;
+	let parsedState: EvolutionState;
+
+	beforeAll(async () => {
+		tmpDir = await mkdtemp(join(tmpdir(), "allium-modular-"));
+		repoPath = join(tmpDir, "repo");
+		stateFilePath = join(tmpDir, "state.json");
+
+		await cp(FIXTURE_REPO, repoPath, { recursive: true });
+		await execAsync('git config user.email "test@allium-evolve.dev"', { cwd: repoPath });
+		await execAsync('git config user.name "Test Author"', { cwd: repoPath });
+
+		const { defaultConfig } = await import("../../src/config.js");
+		const { runEvolution } = await import("../../src/evolution/orchestrator.js");
+
+		const config = defaultConfig({
+			repoPath,
+			targetRef: "main",
+			parallelBranches: false,
+			stateFile: stateFilePath,
+			alliumBranch: "allium/evolution",
+			alliumSkillsPath: "/tmp/fake-skills",
+			autoConfirm: true,
+			modularSpec: true,
+		});
+
+		await runEvolution(config);
+
+		parsedState = JSON.parse(await readFile(stateFilePath, "utf-8")) as EvolutionState;
+	}, 60_000);
+
+	afterAll(async () => {
+		await rm(tmpDir, { recursive: true, force: true });
+	});
+
+	describe("INT-017: Modular runs commit a spec/ tree instead of spec.allium", () => {
+		it("should write the master and modules under spec/ on the allium branch", async () => {
+			const { stdout } = await execAsync("git ls-tree -r --name-only allium/evolution -- spec spec.allium", {
+				cwd: repoPath,
+			});
+			expect(stdout.trim().split("\n")).toEqual(["spec/_master.allium", "spec/entities.allium"]);
+
+			const { stdout: master } = await execAsync("git show allium/evolution:spec/_master.allium", { cwd: repoPath });
+			expect(master).toBe(`master-v${systemPrompts.length}`);
+		});
+
+		it("should drop modules the response set to an empty string", async () => {
+			const firstStep = parsedState.segmentProgress[Object.keys(parsedState.segmentProgress)[0]!]!.completedSteps;
+			const { stdout: first } = await execAsync(`git ls-tree -r --name-only ${firstStep[0]!.alliumSha} -- spec`, {
+				cwd: repoPath,
+			});
+			expect(first).toContain("spec/scratch.allium");
+
+			const { stdout: second } = await execAsync(`git ls-tree -r --name-only ${firstStep[1]!.alliumSha} -- spec`, {
+				cwd: repoPath,
+			});
+			expect(second).not.toContain("spec/scratch.allium");
+		});
+
+		it("should persist the module tree in segment progress", () => {
+			for (const progress of Object.values(parsedState.segmentProgress)) {
+				expect(progress.currentSpecModules?.["_master.allium"]).toBe(progress.currentSpec);
+				expect(progress.currentSpecModules).toHaveProperty(["entities.allium"]);
+			}
+		});
+
+		it("should give every call the modular output instructions", () => {
+			for (const prompt of systemPrompts) {
+				expect(prompt).toContain("## Modular Specification Output");
+				expect(prompt).not.toContain("{modularInstructions}");
+			}
+		});
+	});
+});
@@ -0,0 +1,139 @@
+import { exec as cpExec } from "node:child_process";
+import { cp, mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import { promisify } from "node:util";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+const execAsync = promisify(cpExec);
+
+vi.mock("../../src/claude/runner.js", async (importOriginal) => {
+	const actual = (await importOriginal()) as Record<string, unknown>;
+	return {
+		...actual,
+		invokeClaudeForStep: vi.fn(async () => {
+			const callId = Math.random().toString(36).slice(2);
+			return {
+				spec: `spec-v${callId}`,
+				changelog: `changelog entry ${callId}`,
+				commitMessage: `evolve step ${callId}`,
+				sessionId: `session-${callId}`,
+				costUsd: 0.01,
+			};
+		}),
+	};
+});
+
+const FIXTURE_REPO = resolve(import.meta.dirname, "../fixtures/repo");
+
+describe("Non-domain commits skip the model", () => {
+	let tmpDir: string;
+	let repoPath: string;
+	let stateFilePath: string;
+	let docsSha: string;
+	let domainSha: string;
+	let invokeMock: ReturnType<typeof vi.fn>;
+	type EvolutionState = import("../../src/state/types.js").EvolutionState;
+	let parsedState: EvolutionState;
+
+	async function git(command: string): Promise<string> {
+		const { stdout } = await execAsync(`git ${command}`, { cwd: repoPath });
+		return stdout.trim();
+	}
+
+	beforeAll(async () => {
+		tmpDir = await mkdtemp(join(tmpdir(), "allium-non-domain-"));
+		repoPath = join(tmpDir, "repo");
+		stateFilePath = join(tmpDir, "state.json");
+		await cp(FIXTURE_REPO, repoPath, { recursive: true });
+		await git('config user.email "test@allium-evolve.dev"');
+		await git('config user.name "Test Author"');
+
+		await git("checkout -q main");
+		await mkdir(join(repoPath, "docs"), { recursive: true });
+		await writeFile(join(repoPath, "README.md"), "# Fixture\n");
+		await writeFile(join(repoPath, "docs/guide.md"), "How to use the fixture.\n");
+		await git("add README.md docs/guide.md");
+		await git('commit -q -m "V: Add README and guide"');
+		docsSha = await git("rev-parse HEAD");
+		await writeFile(join(repoPath, "src/entities/invoice.ts"), "export interface Invoice { id: string }\n");
+		await git("add src/entities/invoice.ts");
+		await git('commit -q -m "W: Add Invoice entity"');
+		domainSha = await git("rev-parse HEAD");
+
+		const { defaultConfig } = await import("../../src/config.js");
+		const { runEvolution } = await import("../../src/evolution/orchestrator.js");
+		invokeMock = vi.mocked((await import("../../src/claude/runner.js")).invokeClaudeForStep) as ReturnType<typeof vi.fn>;
+
+		await runEvolution(
+			defaultConfig({
+				repoPath,
+				targetRef: "main",
+				parallelBranches: false,
+				stateFile: stateFilePath,
+				alliumBranch: "allium/evolution",
+				alliumSkillsPath: "/tmp/fake-skills",
+				autoConfirm: true,
+			}),
+		);
+
+		parsedState = JSON.parse(await readFile(stateFilePath, "utf-8")) as EvolutionState;
+	}, 60_000);
+
+	afterAll(async () => {
+		await rm(tmpDir, { recursive: true, force: true });
+	});
+
+	describe("INT-027: a docs-only commit is recorded without a model call", () => {
+		it("should call the model for every other commit only", () => {
+			expect(parsedState.totalSteps).toBe(30);
+			expect(invokeMock).toHaveBeenCalledTimes(29);
+		});
+
+		it("should record the step as skipped at no cost", () => {
+			const steps = Object.values(parsedState.segmentProgress).flatMap((segment) => segment.completedSteps);
+			const docsStep = steps.find((step) => step.originalSha === docsSha);
+			expect(docsStep).toMatchObject({ model: "skipped", costUsd: 0 });
+			expect(steps.find((step) => step.originalSha === domainSha)?.model).not.toBe("skipped");
+		});
+
+		it("should carry the previous spec forward with a synthetic changelog entry", async () => {
+			const docsAllium = await git(`log allium/evolution --format=%H --grep="Original: ${docsSha}"`);
+			expect(docsAllium).toMatch(/^[0-9a-f]{40}$/);
+
+			expect(await git(`rev-parse ${docsAllium}:spec.allium`)).toBe(await git(`rev-parse ${docsAllium}^:spec.allium`));
+			expect(await git(`show ${docsAllium}:allium-changelog.md`)).toContain(
+				`## ${docsSha.slice(0, 8)}\n\nNo domain-level changes. Only non-domain files changed.`,
+			);
+			const message = await git(`log -1 --format=%B ${docsAllium}`);
+			expect(message).toContain(`allium: No domain-level changes in ${docsSha.slice(0, 8)}`);
+			expect(message).toContain("Model: skipped");
+		});
+
+		it("should find the same commit when estimating with --setup-only", async () => {
+			const { collectCommitFacts } = await import("../../src/evolution/commit-facts.js");
+			const { isNonDomainPath } = await import("../../src/evolution/non-domain.js");
+			const { defaultConfig } = await import("../../src/config.js");
+			const config = defaultConfig({ repoPath, targetRef: "main" });
+			const facts = await collectCommitFacts(config, { withDiffTokens: false });
+			const skipped = [...facts].filter(([, { changedPaths }]) =>
+				changedPaths.every((path) => isNonDomainPath(path, config)),
+			);
+			expect(skipped.map(([sha]) => sha)).toEqual([docsSha]);
+		});
+
+		it("should read facts for only the commits asked for, matching the full history read", async () => {
+			const { collectCommitFacts } = await import("../../src/evolution/commit-facts.js");
+			const { defaultConfig } = await import("../../src/config.js");
+			const config = defaultConfig({ repoPath, targetRef: "main" });
+			const all = await collectCommitFacts(config, { withDiffTokens: true });
+			const head = await git("rev-parse main");
+
+			const some = await collectCommitFacts(config, { withDiffTokens: true, shas: [docsSha, head] });
+			expect([...some.keys()].sort()).toEqual([docsSha, head].sort());
+			expect(some.get(docsSha)).toEqual(all.get(docsSha));
+			expect(some.get(head)).toEqual(all.get(head));
+			expect((await collectCommitFacts(config, { withDiffTokens: true, shas: [] })).size).toBe(0);
+		});
+	});
+});
@@ -32,6 +32,8 @@ describe("Orchestrator – sequential mode", () => {
 	let repoPath: string;
 	let stateFilePath: string;
 	let parsedState: Record<string, unknown>;
+	let summary: import("../../src/evolution/run-summary.js").RunSummary;
+	const events: import("../../src/events.js").TimedEvent[] = [];
 
 	beforeAll(async () => {
 		tmpDir = await mkdtemp(join(tmpdir(), "allium-orch-seq-"));
@@ -48,6 +50,7 @@ describe("Orchestrator – sequential mode", () => {
 		// Dynamic imports after mock is set up
 		const { defaultConfig } = await import("../../src/config.js");
 		const { runEvolution } = await import("../../src/evolution/orchestrator.js");
+		const { EventBus } = await import("../../src/events.js");
 
 		const config = defaultConfig({
 			repoPath,
@@ -59,7 +62,9 @@ describe("Orchestrator – sequential mode", () => {
 			autoConfirm: true,
 		});
 
-		await runEvolution(config);
+		const bus = new EventBus();
+		bus.on((event) => events.push(event));
+		summary = await runEvolution(config, undefined, undefined, bus);
 
 		// Parse state file once so individual tests don't each re-read from disk.
 		parsedState = JSON.parse(await readFile(stateFilePath, "utf-8")) as Record<string, unknown>;
@@ -147,6 +152,70 @@ describe("Orchestrator – sequential mode", () => {
 		});
 	});
 
+	describe("INT-032: runEvolution returns the run summary printed by --output json", () => {
+		it("should report totals, the allium head and per-model counts matching the state file", () => {
+			expect(summary).toMatchObject({
+				status: "complete",
+				totalSteps: 28,
+				alliumBranch: "allium/evolution",
+				alliumHead: parsedState.alliumBranchHead,
+				failedSegments: [],
+			});
+			expect(summary.totalCostUsd).toBeCloseTo(parsedState.totalCostUsd as number, 6);
+			expect(Object.values(summary.modelCounts).reduce((sum, n) => sum + n, 0)).toBe(28);
+			expect(summary.resumeInfo?.mode).toBe("fresh");
+		});
+
+		it("should survive a JSON round trip", () => {
+			expect(JSON.parse(JSON.stringify(summary))).toEqual(summary);
+		});
+	});
+
+	describe("INT-033: The event bus reports every segment, step and merge", () => {
+		it("should open with run-started carrying the step totals and an estimate", () => {
+			expect(events[0]).toMatchObject({ type: "run-started", totalSteps: 28, completedSteps: 0, spentUsd: 0 });
+			expect(events[0]?.type === "run-started" && events[0].estimatedCostUsd).toBeGreaterThan(0);
+		});
+
+		it("should start and complete every segment, with no failures", () => {
+			const started = events.filter((e) => e.type === "segment-started").map((e) => e.segmentId);
+			const completed = events.filter((e) => e.type === "segment-completed").map((e) => e.segmentId);
+			expect(started.length).toBeGreaterThan(1);
+			expect(completed.sort()).toEqual([...started].sort());
+			expect(events.some((e) => e.type === "segment-failed")).toBe(false);
+		});
+
+		it("should complete one step or merge per original commit, matching the state file", () => {
+			const shaMap = parsedState.shaMap as Record<string, string>;
+			const done = events.flatMap((e) =>
+				e.type === "step-completed" ? [[e.sha, e.alliumSha]] : e.type === "merge-completed" ? [[e.mergeSha, e.alliumSha]] : [],
+			);
+			expect(done).toHaveLength(28);
+			for (const [sha, alliumSha] of done) {
+				expect(shaMap[sha!]).toBe(alliumSha);
+			}
+		});
+
+		it("should pair every step and merge start with its completion, inside its segment", () => {
+			const open = new Set<string>();
+			const openSteps = new Set<string>();
+			for (const e of events) {
+				if (e.type === "segment-started") open.add(e.segmentId);
+				if (e.type === "segment-completed") open.delete(e.segmentId);
+				if (e.type === "step-started" || e.type === "merge-started") {
+					expect(open.has(e.segmentId!)).toBe(true);
+					openSteps.add(e.type === "step-started" ? e.sha : e.mergeSha);
+				}
+				if (e.type === "step-completed") openSteps.delete(e.sha);
+				if (e.type === "merge-completed") openSteps.delete(e.mergeSha);
+			}
+			expect(openSteps.size).toBe(0);
+			expect(events.filter((e) => e.type === "merge-started").length).toBe(
+				events.filter((e) => e.type === "merge-completed").length,
+			);
+		});
+	});
+
 	describe("INT-005: State file has correct total step count", () => {
 		it("should have totalSteps equal to 28 (one per original commit)", () => {
 			expect(parsedState.totalSteps).toBe(28);
@@ -0,0 +1,148 @@
+import { exec as cpExec } from "node:child_process";
+import { cp, mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import { promisify } from "node:util";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+const execAsync = promisify(cpExec);
+
+vi.mock("../../src/claude/runner.js", async (importOriginal) => {
+	const actual = (await importOriginal()) as Record<string, unknown>;
+	let callCount = 0;
+	return {
+		...actual,
+		invokeClaudeForStep: vi.fn(async (opts: { outputSchema?: string }) => {
+			callCount++;
+			return {
+				spec: `spec-v${callCount}`,
+				changelog: `changelog entry ${callCount}`,
+				commitMessage: `evolve step ${callCount}`,
+				sessionId: `session-${callCount}`,
+				costUsd: 0.01,
+				...(opts.outputSchema === "reconcile"
+					? {
+							findings: [
+								{
+									kind: "missing-entity",
+									severity: "medium",
+									specLocation: "entity StorageObject",
+									evidence: [{ file: "src/entities/storage.ts", line: 1 }],
+									description: `StorageObject is not in spec-v${callCount - 1}`,
+									suggestedFix: "Add entity StorageObject",
+								},
+							],
+						}
+					: {}),
+			};
+		}),
+	};
+});
+
+const FIXTURE_REPO = resolve(import.meta.dirname, "../fixtures/repo");
+
+describe("Orchestrator – periodic reconciliation", () => {
+	let tmpDir: string;
+	let repoPath: string;
+	let stateFilePath: string;
+	type EvolutionState = import("../../src/state/types.js").EvolutionState;
+	let parsedState: EvolutionState;
+
+	beforeAll(async () => {
+		tmpDir = await mkdtemp(join(tmpdir(), "allium-reconcile-"));
+		repoPath = join(tmpDir, "repo");
+		stateFilePath = join(tmpDir, "state.json");
+
+		await cp(FIXTURE_REPO, repoPath, { recursive: true });
+		await execAsync('git config user.email "test@allium-evolve.dev"', { cwd: repoPath });
+		await execAsync('git config user.name "Test Author"', { cwd: repoPath });
+
+		const { defaultConfig } = await import("../../src/config.js");
+		const { runEvolution } = await import("../../src/evolution/orchestrator.js");
+
+		const config = defaultConfig({
+			repoPath,
+			targetRef: "main",
+			parallelBranches: false,
+			stateFile: stateFilePath,
+			alliumBranch: "allium/evolution",
+			alliumSkillsPath: "/tmp/fake-skills",
+			autoConfirm: true,
+			reconciliation: { strategy: "n-commits", interval: 10 },
+		});
+
+		await runEvolution(config);
+
+		parsedState = JSON.parse(await readFile(stateFilePath, "utf-8")) as EvolutionState;
+	}, 60_000);
+
+	afterAll(async () => {
+		await rm(tmpDir, { recursive: true, force: true });
+	});
+
+	describe("INT-014: Scheduler fires reconciliation every N steps", () => {
+		it("should record one reconciliation per interval in the state file", () => {
+			expect(parsedState.reconciliations).toHaveLength(2);
+			expect(parsedState.reconciliations.map((r) => r.atStep)).toEqual([10, 20]);
+			expect(parsedState.lastReconciliationStep).toBe(20);
+			for (const reconciliation of parsedState.reconciliations) {
+				expect(reconciliation.skipped).toBe(false);
+				expect(reconciliation.costUsd).toBe(0.01);
+			}
+		});
+
+		it("should include reconciliation cost in the total", () => {
+			expect(parsedState.totalCostUsd).toBeCloseTo((parsedState.totalSteps + 2) * 0.01);
+		});
+	});
+
+	describe("INT-015: Reconciliation creates a dedicated allium commit on the branch", () => {
+		it("should write a commit with Original: and Reconciliation: trailers", async () => {
+			const reconciliation = parsedState.reconciliations[0]!;
+			const { stdout } = await execAsync(`git log -1 --format=%B ${reconciliation.alliumSha}`, { cwd: repoPath });
+			expect(stdout).toContain(`Original: ${reconciliation.atSha}`);
+			expect(stdout).toContain("Reconciliation: n-commits (step 10)");
+		});
+
+		it("should be reachable from the allium branch and parent the following step", async () => {
+			const { stdout } = await execAsync("git rev-list --parents allium/evolution", { cwd: repoPath });
+			for (const reconciliation of parsedState.reconciliations) {
+				const children = stdout
+					.split("\n")
+					.filter((line) => line.split(" ").slice(1).includes(reconciliation.alliumSha));
+				expect(children.length).toBeGreaterThan(0);
+			}
+		});
+
+		it("should map the original commit to the reconciliation commit", () => {
+			for (const reconciliation of parsedState.reconciliations) {
+				expect(parsedState.shaMap[reconciliation.atSha]).toBe(reconciliation.alliumSha);
+			}
+		});
+	});
+
+	describe("INT-016: Reconciliation findings are persisted and counted", () => {
+		it("should store .allium/findings.json in each reconciliation commit", async () => {
+			for (const reconciliation of parsedState.reconciliations) {
+				const { stdout } = await execAsync(`git show ${reconciliation.alliumSha}:.allium/findings.json`, { cwd: repoPath });
+				const findings = JSON.parse(stdout) as Array<{ kind: string; specLocation: string }>;
+				expect(findings).toHaveLength(1);
+				expect(findings[0]!.kind).toBe("missing-entity");
+				expect(findings[0]!.specLocation).toBe("entity StorageObject");
+			}
+		});
+
+		it("should count findings in state and summarize them in the commit trailer", async () => {
+			const reconciliation = parsedState.reconciliations[0]!;
+			expect(reconciliation.findingsCount).toBe(1);
+
+			const { stdout } = await execAsync(`git log -1 --format=%B ${reconciliation.alliumSha}`, { cwd: repoPath });
+			expect(stdout).toContain("Findings: 1 (1 medium)");
+		});
+
+		it("should not carry findings.json into the following step commits", async () => {
+			const { stdout } = await execAsync("git ls-tree -r --name-only allium/evolution", { cwd: repoPath });
+			expect(stdout.split("\n")).not.toContain(".allium/findings.json");
+		});
+	});
+});
@@ -0,0 +1,128 @@
+import { exec as cpExec } from "node:child_process";
+import { cp, mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import { promisify } from "node:util";
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { RegressionGuardMode } from "../../src/config.js";
+import type { CompletedStep, EvolutionState } from "../../src/state/types.js";
+
+const execAsync = promisify(cpExec);
+
+const FEEDBACK_HEADING = "## Your previous response dropped declarations";
+
+const mock = vi.hoisted(() => ({
+	steps: 0,
+	calls: [] as { model: string; userPrompt: string; retry: boolean }[],
+}));
+
+vi.mock("../../src/claude/runner.js", async (importOriginal) => {
+	const actual = (await importOriginal()) as Record<string, unknown>;
+	return {
+		...actual,
+		invokeClaudeForStep: vi.fn(async (opts: { stepType: string; model: string; userPrompt: string }) => {
+			const retry = opts.userPrompt.includes(FEEDBACK_HEADING);
+			if (!retry) {
+				mock.steps++;
+			}
+			mock.calls.push({ model: opts.model, userPrompt: opts.userPrompt, retry });
+			// The first answer for the fourth call drops Order without a word in the changelog.
+			const dropsOrder = mock.steps === 4 && !retry;
+			const isMerge = opts.stepType === "merge" || opts.stepType === "sync";
+			return {
+				spec: dropsOrder ? "entity User {}\n" : "entity User {}\n\nentity Order {}\n",
+				changelog: isMerge
+					? `- merge step ${mock.steps}`
+					: `## ${mock.steps.toString(16).padStart(8, "0")} — step ${mock.steps}\n\n- Tweak User`,
+				commitMessage: `step ${mock.steps}`,
+				sessionId: `session-${mock.calls.length}`,
+				costUsd: 0.01,
+			};
+		}),
+	};
+});
+
+const FIXTURE_REPO = resolve(import.meta.dirname, "../fixtures/repo");
+
+describe("regression guard – dropped declarations", () => {
+	const tmpDirs: string[] = [];
+
+	beforeEach(() => {
+		mock.steps = 0;
+		mock.calls = [];
+	});
+
+	afterAll(async () => {
+		for (const dir of tmpDirs) {
+			await rm(dir, { recursive: true, force: true });
+		}
+	});
+
+	async function runWith(regressionGuard: RegressionGuardMode): Promise<{ repoPath: string; steps: CompletedStep[] }> {
+		const tmpDir = await mkdtemp(join(tmpdir(), "allium-regression-"));
+		tmpDirs.push(tmpDir);
+		const repoPath = join(tmpDir, "repo");
+		await cp(FIXTURE_REPO, repoPath, { recursive: true });
+		await execAsync('git config user.email "test@allium-evolve.dev"', { cwd: repoPath });
+		await execAsync('git config user.name "Test Author"', { cwd: repoPath });
+
+		const { defaultConfig } = await import("../../src/config.js");
+		const { runEvolution } = await import("../../src/evolution/orchestrator.js");
+		const config = defaultConfig({
+			repoPath,
+			targetRef: "main",
+			parallelBranches: false,
+			stateFile: join(tmpDir, "state.json"),
+			alliumBranch: "allium/evolution",
+			alliumSkillsPath: "/tmp/fake-skills",
+			autoConfirm: true,
+			regressionGuard,
+		});
+		await runEvolution(config);
+
+		const state = JSON.parse(await readFile(config.stateFile, "utf-8")) as EvolutionState;
+		const steps = Object.values(state.segmentProgress).flatMap((progress) => progress.completedSteps);
+		return { repoPath, steps };
+	}
+
+	async function commitBody(repoPath: string, sha: string): Promise<string> {
+		const { stdout } = await execAsync(`git log -1 --format=%B ${sha}`, { cwd: repoPath });
+		return stdout;
+	}
+
+	describe("INT-039: Steps that silently drop declarations are flagged, retried or escalated", () => {
+		it("should record the dropped declarations in state and as a trailer when warning", async () => {
+			const { repoPath, steps } = await runWith("warn");
+
+			expect(mock.calls.some((call) => call.retry)).toBe(false);
+			const flagged = steps.filter((step) => step.droppedDeclarations);
+			expect(flagged).toHaveLength(1);
+			expect(flagged[0]!.droppedDeclarations).toEqual(["entity Order"]);
+			expect(await commitBody(repoPath, flagged[0]!.alliumSha)).toContain("\nDropped: entity Order\n");
+		}, 60_000);
+
+		it("should retry once with the missing items listed and keep the corrected spec", async () => {
+			const { repoPath, steps } = await runWith("retry");
+
+			const retries = mock.calls.filter((call) => call.retry);
+			expect(retries).toHaveLength(1);
+			expect(retries[0]!.model).toBe(mock.calls[mock.calls.indexOf(retries[0]!) - 1]!.model);
+			expect(retries[0]!.userPrompt).toContain("- `entity Order`");
+			expect(steps.some((step) => step.droppedDeclarations)).toBe(false);
+
+			const { stdout } = await execAsync("git log --format=%B allium/evolution", { cwd: repoPath });
+			expect(stdout).not.toContain("Dropped:");
+		}, 60_000);
+
+		it("should retry with the opus model when escalating and record it on the step", async () => {
+			const { steps } = await runWith("escalate");
+
+			const retries = mock.calls.filter((call) => call.retry);
+			expect(retries.map((call) => call.model)).toEqual(["opus"]);
+			const escalated = steps.filter((step) => step.model === "opus" && step.costUsd > 0.015);
+			expect(escalated).toHaveLength(1);
+			expect(escalated[0]!.costUsd).toBeCloseTo(0.02);
+			expect(steps.some((step) => step.droppedDeclarations)).toBe(false);
+		}, 60_000);
+	});
+});
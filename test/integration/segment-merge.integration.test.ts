@@ -1,5 +1,5 @@
 import { exec as cpExec } from "node:child_process";
-import { cp, mkdtemp, rm } from "node:fs/promises";
+import { cp, mkdtemp, readFile, rm } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join, resolve } from "node:path";
 import { promisify } from "node:util";
@@ -38,6 +38,7 @@ describe("Segment runner + Merge runner isolation", () => {
 	let runSegment: typeof import("../../src/evolution/segment-runner.js").runSegment;
 	let runMerge: typeof import("../../src/evolution/merge-runner.js").runMerge;
 	let defaultConfig: typeof import("../../src/config.js").defaultConfig;
+	let backend: import("../../src/claude/backend.js").ModelBackend;
 
 	type CommitNode = import("../../src/dag/types.js").CommitNode;
 	type Segment = import("../../src/dag/types.js").Segment;
@@ -104,6 +105,7 @@ describe("Segment runner + Merge runner isolation", () => {
 			alliumBranch: "allium/evolution",
 			alliumSkillsPath: "/tmp/fake-skills",
 		});
+		backend = (await import("../../src/claude/backend.js")).createBackend(config);
 	}, 60_000);
 
 	afterAll(async () => {
@@ -119,6 +121,7 @@ describe("Segment runner + Merge runner isolation", () => {
 				segment: trunkSeg,
 				config,
 				dag,
+				backend,
 				initialSpec: "",
 				initialChangelog: "",
 				parentAlliumSha: null,
@@ -138,6 +141,7 @@ describe("Segment runner + Merge runner isolation", () => {
 				segment: trunkSeg,
 				config,
 				dag,
+				backend,
 				initialSpec: "",
 				initialChangelog: "",
 				parentAlliumSha: null,
@@ -157,6 +161,7 @@ describe("Segment runner + Merge runner isolation", () => {
 				segment: trunkSeg,
 				config,
 				dag,
+				backend,
 				initialSpec: "",
 				initialChangelog: "",
 				parentAlliumSha: null,
@@ -177,6 +182,7 @@ describe("Segment runner + Merge runner isolation", () => {
 				segment: trunkSeg,
 				config,
 				dag,
+				backend,
 				initialSpec: "",
 				initialChangelog: "",
 				parentAlliumSha: null,
@@ -188,6 +194,7 @@ describe("Segment runner + Merge runner isolation", () => {
 				segment: branchSeg,
 				config,
 				dag,
+				backend,
 				initialSpec: trunkResult.currentSpec,
 				initialChangelog: trunkResult.currentChangelog,
 				parentAlliumSha: trunkResult.tipAlliumSha,
@@ -197,16 +204,23 @@ describe("Segment runner + Merge runner isolation", () => {
 			const m1Sha = shaByPrefix("M1:");
 			const mergeResult = await runMerge({
 				mergeSha: m1Sha,
-				trunkSpec: trunkResult.currentSpec,
-				branchSpec: branchResult.currentSpec,
-				trunkChangelog: trunkResult.currentChangelog,
-				branchChangelog: branchResult.currentChangelog,
-				trunkAlliumSha: trunkResult.tipAlliumSha,
-				branchAlliumSha: branchResult.tipAlliumSha,
-				trunkSegmentId: trunkSeg.id,
-				branchSegmentId: branchSeg.id,
+				inputs: [
+					{
+						segmentId: trunkSeg.id,
+						spec: trunkResult.currentSpec,
+						changelog: trunkResult.currentChangelog,
+						alliumSha: trunkResult.tipAlliumSha,
+					},
+					{
+						segmentId: branchSeg.id,
+						spec: branchResult.currentSpec,
+						changelog: branchResult.currentChangelog,
+						alliumSha: branchResult.tipAlliumSha,
+					},
+				],
 				config,
 				dag,
+				backend,
 			});
 
 			// Verify the merge commit has 2 parents
@@ -223,6 +237,7 @@ describe("Segment runner + Merge runner isolation", () => {
 				segment: trunkSeg,
 				config,
 				dag,
+				backend,
 				initialSpec: "",
 				initialChangelog: "",
 				parentAlliumSha: null,
@@ -233,6 +248,7 @@ describe("Segment runner + Merge runner isolation", () => {
 				segment: branchSeg,
 				config,
 				dag,
+				backend,
 				initialSpec: trunkResult.currentSpec,
 				initialChangelog: trunkResult.currentChangelog,
 				parentAlliumSha: trunkResult.tipAlliumSha,
@@ -241,16 +257,23 @@ describe("Segment runner + Merge runner isolation", () => {
 			const m1Sha = shaByPrefix("M1:");
 			const mergeResult = await runMerge({
 				mergeSha: m1Sha,
-				trunkSpec: trunkResult.currentSpec,
-				branchSpec: branchResult.currentSpec,
-				trunkChangelog: trunkResult.currentChangelog,
-				branchChangelog: branchResult.currentChangelog,
-				trunkAlliumSha: trunkResult.tipAlliumSha,
-				branchAlliumSha: branchResult.tipAlliumSha,
-				trunkSegmentId: trunkSeg.id,
-				branchSegmentId: branchSeg.id,
+				inputs: [
+					{
+						segmentId: trunkSeg.id,
+						spec: trunkResult.currentSpec,
+						changelog: trunkResult.currentChangelog,
+						alliumSha: trunkResult.tipAlliumSha,
+					},
+					{
+						segmentId: branchSeg.id,
+						spec: branchResult.currentSpec,
+						changelog: branchResult.currentChangelog,
+						alliumSha: branchResult.tipAlliumSha,
+					},
+				],
 				config,
 				dag,
+				backend,
 			});
 
 			// The mergedSpec should be a spec-vN from the mock
@@ -264,4 +287,386 @@ describe("Segment runner + Merge runner isolation", () => {
 			expect(stdout).toMatch(/^spec-v\d+$/);
 		});
 	});
+
+	describe("INT-020: runMerge reconciles any number of merged lines", () => {
+		it("should write one merged spec per input and commit with every input as a parent", async () => {
+			const { invokeClaudeForStep } = await import("../../src/claude/runner.js");
+			const invokeMock = vi.mocked(invokeClaudeForStep);
+
+			const trunkSeg = segmentContaining("A:");
+			const trunkResult = await runSegment({
+				segment: trunkSeg,
+				config,
+				dag,
+				backend,
+				initialSpec: "",
+				initialChangelog: "",
+				parentAlliumSha: null,
+			});
+			const branchResults = [];
+			for (const seg of [segmentContaining("X1:"), segmentContaining("Y1:")]) {
+				const result = await runSegment({
+					segment: seg,
+					config,
+					dag,
+					backend,
+					initialSpec: trunkResult.currentSpec,
+					initialChangelog: trunkResult.currentChangelog,
+					parentAlliumSha: trunkResult.tipAlliumSha,
+				});
+				branchResults.push({
+					segmentId: seg.id,
+					spec: result.currentSpec,
+					changelog: result.currentChangelog,
+					alliumSha: result.tipAlliumSha,
+				});
+			}
+
+			const mergeResult = await runMerge({
+				mergeSha: shaByPrefix("M1:"),
+				inputs: [
+					{
+						segmentId: trunkSeg.id,
+						spec: trunkResult.currentSpec,
+						changelog: trunkResult.currentChangelog,
+						alliumSha: trunkResult.tipAlliumSha,
+					},
+					...branchResults,
+				],
+				config,
+				dag,
+				backend,
+			});
+
+			const contextFiles = invokeMock.mock.calls.at(-1)![0].contextFiles ?? [];
+			expect(contextFiles.filter((f) => f.endsWith("/base-spec.allium"))).toHaveLength(1);
+			for (const { segmentId } of branchResults) {
+				expect(contextFiles.some((f) => f.endsWith(`/merged-specs/${segmentId}.allium`))).toBe(true);
+			}
+
+			expect(mergeResult.mergedChangelog.startsWith(trunkResult.currentChangelog)).toBe(true);
+			expect(mergeResult.mergedChangelog).toContain(`## ${shaByPrefix("M1:").slice(0, 8)} (merge)`);
+
+			const { stdout } = await execAsync(`git cat-file -p ${mergeResult.alliumSha}`, { cwd: repoPath });
+			expect(stdout.split("\n").filter((line) => line.startsWith("parent "))).toHaveLength(3);
+			const { stdout: message } = await execAsync(`git log -1 --format=%B ${mergeResult.alliumSha}`, {
+				cwd: repoPath,
+			});
+			expect(message).toContain(`Merge: ${[trunkSeg.id, ...branchResults.map((r) => r.segmentId)].join(" + ")}`);
+		});
+	});
+
+	describe("INT-021: A trunk sync runs the lighter sync step on the default model", () => {
+		it("should invoke a sync step and label the allium commit and changelog as a sync", async () => {
+			const { invokeClaudeForStep } = await import("../../src/claude/runner.js");
+			const invokeMock = vi.mocked(invokeClaudeForStep);
+
+			const trunkSeg = segmentContaining("A:");
+			const trunkResult = await runSegment({
+				segment: trunkSeg,
+				config,
+				dag,
+				backend,
+				initialSpec: "",
+				initialChangelog: "",
+				parentAlliumSha: null,
+			});
+			const branchSeg = segmentContaining("X1:");
+			const branchResult = await runSegment({
+				segment: branchSeg,
+				config,
+				dag,
+				backend,
+				initialSpec: trunkResult.currentSpec,
+				initialChangelog: trunkResult.currentChangelog,
+				parentAlliumSha: trunkResult.tipAlliumSha,
+			});
+
+			const syncSha = shaByPrefix("M1:");
+			const result = await runMerge({
+				mergeSha: syncSha,
+				inputs: [
+					{
+						segmentId: branchSeg.id,
+						spec: branchResult.currentSpec,
+						changelog: branchResult.currentChangelog,
+						alliumSha: branchResult.tipAlliumSha,
+					},
+					{
+						segmentId: trunkSeg.id,
+						spec: trunkResult.currentSpec,
+						changelog: trunkResult.currentChangelog,
+						alliumSha: trunkResult.tipAlliumSha,
+					},
+				],
+				kind: "sync",
+				config,
+				dag,
+				backend,
+			});
+
+			const call = invokeMock.mock.calls.at(-1)![0];
+			expect(call.stepType).toBe("sync");
+			expect(call.model).toBe(config.defaultModel);
+			expect(call.systemPrompt).toContain("routine sync");
+			expect(result.model).toBe(config.defaultModel);
+			expect(result.mergedChangelog).toContain(`## ${syncSha.slice(0, 8)} (sync)`);
+
+			const { stdout: message } = await execAsync(`git log -1 --format=%B ${result.alliumSha}`, { cwd: repoPath });
+			expect(message).toContain(`Sync: ${trunkSeg.id} → ${branchSeg.id}`);
+		});
+	});
+
+	describe("INT-041: The merge guard counts only the changelog entries new at the merge", () => {
+		it("should flag a declaration dropped at a merge even when an older entry reported a removal naming it", async () => {
+			const { invokeClaudeForStep } = await import("../../src/claude/runner.js");
+			const invokeMock = vi.mocked(invokeClaudeForStep);
+			const answer = invokeMock.getMockImplementation()!;
+
+			const spec = "entity User {}\n\nentity Order {}\n";
+			const history = "## aaaaaaaa — A\n\n- Removed the legacy Order status\n";
+			invokeMock.mockImplementation(async () => ({
+				spec: "entity User {}\n",
+				changelog: "- Merged the feature line into main",
+				commitMessage: "merge feature",
+				sessionId: "session-merge-guard",
+				costUsd: 0.01,
+			}));
+			let result: Awaited<ReturnType<typeof runMerge>>;
+			try {
+				result = await runMerge({
+					mergeSha: shaByPrefix("M1:"),
+					inputs: [
+						{ segmentId: "trunk", spec, changelog: history, alliumSha: shaByPrefix("A:") },
+						{
+							segmentId: "branch",
+							spec,
+							changelog: `${history}\n## bbbbbbbb — X1\n\n- Tweak User\n`,
+							alliumSha: shaByPrefix("X1:"),
+						},
+					],
+					config,
+					dag,
+					backend,
+				});
+			} finally {
+				invokeMock.mockImplementation(answer);
+			}
+
+			expect(result.droppedDeclarations).toEqual(["entity Order"]);
+		});
+
+		it("should report the first attempt's cost when the regression retry fails", async () => {
+			const { invokeClaudeForStep } = await import("../../src/claude/runner.js");
+			const invokeMock = vi.mocked(invokeClaudeForStep);
+			const answer = invokeMock.getMockImplementation()!;
+
+			const spec = "entity User {}\n\nentity Order {}\n";
+			let calls = 0;
+			invokeMock.mockImplementation(async () => {
+				calls++;
+				if (calls > 1) {
+					throw new Error("retry failed");
+				}
+				return {
+					spec: "entity User {}\n",
+					changelog: "- Merge the feature line",
+					commitMessage: "merge feature",
+					sessionId: "session-merge-retry",
+					costUsd: 0.01,
+				};
+			});
+			const unrecorded: number[] = [];
+			try {
+				await expect(
+					runMerge({
+						mergeSha: shaByPrefix("M1:"),
+						inputs: [
+							{ segmentId: "trunk", spec, changelog: "", alliumSha: shaByPrefix("A:") },
+							{ segmentId: "branch", spec, changelog: "", alliumSha: shaByPrefix("X1:") },
+						],
+						config: { ...config, regressionGuard: "retry" },
+						dag,
+						backend,
+						onUnrecordedCost: async (costUsd) => {
+							unrecorded.push(costUsd);
+						},
+					}),
+				).rejects.toThrow("retry failed");
+			} finally {
+				invokeMock.mockImplementation(answer);
+			}
+
+			expect(calls).toBe(2);
+			expect(unrecorded).toEqual([0.01]);
+		});
+	});
+
+	describe("INT-013: Oversized diffs fan out per chunk and recombine", () => {
+		it("should invoke Claude once per chunk plus a recombine call and record every sub-call cost", async () => {
+			const { invokeClaudeForStep } = await import("../../src/claude/runner.js");
+			const invokeMock = vi.mocked(invokeClaudeForStep);
+
+			// L touches src/config and src/entities, plus a lockfile and generated file that are ignored
+			const lSha = shaByPrefix("L:");
+			const chunkSegment: Segment = {
+				id: "chunk-test",
+				type: "trunk",
+				commits: [lSha],
+				forkFrom: null,
+				mergesInto: null,
+				dependsOn: [],
+			};
+
+			const callsBefore = invokeMock.mock.calls.length;
+			const result = await runSegment({
+				segment: chunkSegment,
+				config: { ...config, maxDiffTokens: 50 },
+				dag,
+				backend,
+				initialSpec: "base-spec",
+				initialChangelog: "",
+				parentAlliumSha: null,
+			});
+
+			expect(invokeMock.mock.calls.length - callsBefore).toBe(3);
+
+			const step = result.completedSteps[0]!;
+			expect(step.subCalls).toBeDefined();
+			expect(step.subCalls!.filter((c) => c.kind === "chunk").map((c) => c.groupKey).sort()).toEqual([
+				"src/config",
+				"src/entities",
+			]);
+			expect(step.subCalls!.filter((c) => c.kind === "chunk-recombine")).toHaveLength(1);
+			expect(step.costUsd).toBeCloseTo(0.03);
+
+			const { stdout } = await execAsync(`git log -1 --format=%B ${step.alliumSha}`, { cwd: repoPath });
+			expect(stdout).toContain("Chunks: 2");
+		});
+
+		it("should add the chunk calls already paid for to the state total when the recombine call is stopped", async () => {
+			const { invokeClaudeForStep } = await import("../../src/claude/runner.js");
+			const { GracefulShutdownError } = await import("../../src/shutdown.js");
+			const { StateTracker } = await import("../../src/state/tracker.js");
+			const invokeMock = vi.mocked(invokeClaudeForStep);
+			const answer = invokeMock.getMockImplementation()!;
+
+			const segment: Segment = {
+				id: "stopped-chunk-test",
+				type: "trunk",
+				commits: [shaByPrefix("L:")],
+				forkFrom: null,
+				mergesInto: null,
+				dependsOn: [],
+			};
+			const stateFile = join(tmpDir, "stopped-chunk-state.json");
+			const stateTracker = new StateTracker(stateFile);
+			stateTracker.initState(config, [segment], segment.commits[0]!);
+
+			invokeMock.mockImplementation(async (opts) => {
+				if (opts.stepType === "chunk-recombine") {
+					throw new GracefulShutdownError();
+				}
+				return answer(opts);
+			});
+			try {
+				await expect(
+					runSegment({
+						segment,
+						config: { ...config, maxDiffTokens: 50, stateFile },
+						dag,
+						backend,
+						initialSpec: "base-spec",
+						initialChangelog: "",
+						parentAlliumSha: null,
+						stateTracker,
+					}),
+				).rejects.toThrow(GracefulShutdownError);
+			} finally {
+				invokeMock.mockImplementation(answer);
+			}
+
+			// Two chunk calls at 0.01 each were made before the stop; no step was recorded.
+			const saved = JSON.parse(await readFile(stateFile, "utf-8")) as { totalCostUsd: number; totalSteps: number };
+			expect(saved.totalCostUsd).toBeCloseTo(0.02);
+			expect(saved.totalSteps).toBe(0);
+		});
+
+		it("should add the rejected responses of a failed recombine call to the state total", async () => {
+			const { invokeClaudeForStep } = await import("../../src/claude/runner.js");
+			const { InvocationFailedError } = await import("../../src/claude/runner.js");
+			const { StateTracker } = await import("../../src/state/tracker.js");
+			const invokeMock = vi.mocked(invokeClaudeForStep);
+			const answer = invokeMock.getMockImplementation()!;
+
+			const segment: Segment = {
+				id: "rejected-chunk-test",
+				type: "trunk",
+				commits: [shaByPrefix("L:")],
+				forkFrom: null,
+				mergesInto: null,
+				dependsOn: [],
+			};
+			const stateFile = join(tmpDir, "rejected-chunk-state.json");
+			const stateTracker = new StateTracker(stateFile);
+			stateTracker.initState(config, [segment], segment.commits[0]!);
+
+			invokeMock.mockImplementation(async (opts) => {
+				if (opts.stepType === "chunk-recombine") {
+					throw new InvocationFailedError("every recombine response was rejected", 0.03);
+				}
+				return answer(opts);
+			});
+			try {
+				await expect(
+					runSegment({
+						segment,
+						config: { ...config, maxDiffTokens: 50, stateFile },
+						dag,
+						backend,
+						initialSpec: "base-spec",
+						initialChangelog: "",
+						parentAlliumSha: null,
+						stateTracker,
+					}),
+				).rejects.toThrow(InvocationFailedError);
+			} finally {
+				invokeMock.mockImplementation(answer);
+			}
+
+			// Two chunk calls at 0.01 each plus 0.03 of rejected recombine responses; no step was recorded.
+			const saved = JSON.parse(await readFile(stateFile, "utf-8")) as { totalCostUsd: number; totalSteps: number };
+			expect(saved.totalCostUsd).toBeCloseTo(0.05);
+			expect(saved.totalSteps).toBe(0);
+		});
+
+		it("should send the whole diff in one call when it fits within maxDiffTokens", async () => {
+			const { invokeClaudeForStep } = await import("../../src/claude/runner.js");
+			const invokeMock = vi.mocked(invokeClaudeForStep);
+
+			const lSha = shaByPrefix("L:");
+			const segment: Segment = {
+				id: "no-chunk-test",
+				type: "trunk",
+				commits: [lSha],
+				forkFrom: null,
+				mergesInto: null,
+				dependsOn: [],
+			};
+
+			const callsBefore = invokeMock.mock.calls.length;
+			const result = await runSegment({
+				segment,
+				config,
+				dag,
+				backend,
+				initialSpec: "base-spec",
+				initialChangelog: "",
+				parentAlliumSha: null,
+			});
+
+			expect(invokeMock.mock.calls.length - callsBefore).toBe(1);
+			expect(result.completedSteps[0]!.subCalls).toBeUndefined();
+		});
+	});
 });
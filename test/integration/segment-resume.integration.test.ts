@@ -0,0 +1,206 @@
+import { exec as cpExec } from "node:child_process";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { promisify } from "node:util";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { Segment } from "../../src/dag/types.js";
+import type { EvolutionState, SegmentProgress } from "../../src/state/types.js";
+
+const execAsync = promisify(cpExec);
+
+const mock = vi.hoisted(() => ({
+	calls: [] as { diff: string; contextCommits: string }[],
+	afterCall: undefined as (() => void) | undefined,
+}));
+
+vi.mock("../../src/claude/runner.js", async (importOriginal) => {
+	const actual = (await importOriginal()) as Record<string, unknown>;
+	const { readFile: read } = await import("node:fs/promises");
+	const { join: joinPath } = await import("node:path");
+	return {
+		...actual,
+		invokeClaudeForStep: vi.fn(
+			async (opts: { stepType: string; workingDirectory: string; contextFiles?: string[] }) => {
+				const contextFile = async (name: string) => {
+					const path = opts.contextFiles?.find((file) => file.endsWith(`/${name}`));
+					return path ? read(joinPath(opts.workingDirectory, path), "utf-8") : "";
+				};
+				mock.calls.push({ diff: await contextFile("changes.diff"), contextCommits: await contextFile("context-commits.md") });
+				mock.afterCall?.();
+				const n = mock.calls.length;
+				const isMerge = opts.stepType === "merge" || opts.stepType === "sync";
+				return {
+					spec: `entity Step${n} {}\n`,
+					changelog: isMerge ? `- merge step ${n}` : `## step ${n}\n\n- Add Step${n}`,
+					commitMessage: `step ${n}`,
+					sessionId: `session-${n}`,
+					costUsd: 0.01,
+				};
+			},
+		),
+	};
+});
+
+/**
+ * main:    A ─ B ─ C ─ D ─ M ─ E
+ *               \         /
+ * feature:       X1 ──── X2
+ *
+ * Forks split the trunk at B, so the current segments are trunk-0 [A, B],
+ * trunk-1 [C, D], branch-0 [X1, X2] and trunk-2 [M, E]. State files written
+ * before that split the trunk only at merges: trunk-0 [A, B, C, D] and
+ * trunk-1 [M, E].
+ */
+describe("Resuming from a state file written before forks split the trunk", () => {
+	let tmpDir: string;
+	let repoPath: string;
+	let stateFilePath: string;
+	const shas: Record<string, string> = {};
+	let stoppedState: EvolutionState;
+	let resumedState: EvolutionState;
+	let resumeMode: string | undefined;
+	let callsBeforeResume: typeof mock.calls;
+	const logged: string[] = [];
+
+	async function git(command: string): Promise<string> {
+		const { stdout } = await execAsync(`git ${command}`, { cwd: repoPath });
+		return stdout.trim();
+	}
+
+	async function commit(name: string): Promise<void> {
+		await writeFile(join(repoPath, "src", "domain", `${name.toLowerCase()}.ts`), `export const ${name} = "${name}";\n`);
+		await git("add -A");
+		await git(`commit -q -m "${name}: change ${name}"`);
+		shas[name] = await git("rev-parse HEAD");
+	}
+
+	/** The pre-change layout: trunk segments run from merge to merge, ignoring forks. */
+	function toPreChangeLayout(state: EvolutionState): EvolutionState {
+		const byId = new Map(state.segments.map((seg) => [seg.id, seg]));
+		const trunk0 = byId.get("trunk-0")!;
+		const trunk1 = byId.get("trunk-1")!;
+		const trunk2 = byId.get("trunk-2")!;
+		const branch0 = byId.get("branch-0")!;
+		const first = state.segmentProgress["trunk-0"]!;
+		const second = state.segmentProgress["trunk-1"]!;
+		const segments: Segment[] = [
+			{ ...trunk0, commits: [...trunk0.commits, ...trunk1.commits] },
+			{ ...branch0 },
+			{ ...trunk2, id: "trunk-1", dependsOn: ["trunk-0", "branch-0"] },
+		];
+		const merged: SegmentProgress = { ...second, completedSteps: [...first.completedSteps, ...second.completedSteps] };
+		return {
+			...state,
+			segments,
+			segmentProgress: {
+				"trunk-0": merged,
+				"branch-0": state.segmentProgress["branch-0"]!,
+				"trunk-1": state.segmentProgress["trunk-2"]!,
+			},
+		};
+	}
+
+	beforeAll(async () => {
+		tmpDir = await mkdtemp(join(tmpdir(), "allium-segment-resume-"));
+		repoPath = join(tmpDir, "repo");
+		stateFilePath = join(tmpDir, "state.json");
+		await mkdir(join(repoPath, "src", "domain"), { recursive: true });
+		await git("init -q -b main");
+		await git('config user.email "test@allium-evolve.dev"');
+		await git('config user.name "Test Author"');
+
+		await commit("A");
+		await commit("B");
+		await git("checkout -q -b feature");
+		await commit("X1");
+		await commit("X2");
+		await git("checkout -q main");
+		await commit("C");
+		await commit("D");
+		await git('merge -q --no-ff feature -m "M: merge feature"');
+		shas.M = await git("rev-parse HEAD");
+		await commit("E");
+
+		const { defaultConfig } = await import("../../src/config.js");
+		const { runEvolution } = await import("../../src/evolution/orchestrator.js");
+		const { ShutdownSignal } = await import("../../src/shutdown.js");
+
+		const config = defaultConfig({
+			repoPath,
+			targetRef: "main",
+			parallelBranches: false,
+			stateFile: stateFilePath,
+			alliumBranch: "allium/evolution",
+			alliumSkillsPath: "/tmp/fake-skills",
+			autoConfirm: true,
+		});
+
+		// Stop after A, B, C, D and X1: both trunk segments before the merge are done.
+		const shutdownSignal = new ShutdownSignal();
+		mock.afterCall = () => {
+			if (mock.calls.length === 5) {
+				shutdownSignal.request();
+			}
+		};
+		await runEvolution(config, shutdownSignal).catch(() => undefined);
+		mock.afterCall = undefined;
+		stoppedState = JSON.parse(await readFile(stateFilePath, "utf-8")) as EvolutionState;
+		callsBeforeResume = [...mock.calls];
+
+		await writeFile(stateFilePath, JSON.stringify(toPreChangeLayout(stoppedState), null, 2));
+
+		const errorSpy = vi.spyOn(console, "error").mockImplementation((...args: unknown[]) => {
+			logged.push(args.map(String).join(" "));
+		});
+		try {
+			const summary = await runEvolution(config);
+			resumeMode = summary.resumeInfo?.mode;
+		} finally {
+			errorSpy.mockRestore();
+		}
+		resumedState = JSON.parse(await readFile(stateFilePath, "utf-8")) as EvolutionState;
+	}, 60_000);
+
+	afterAll(async () => {
+		await rm(tmpDir, { recursive: true, force: true });
+	});
+
+	describe("INT-040: Trunk segments split at forks keep their context and resume from old state files", () => {
+		it("should stop with the current layout recorded after five steps", () => {
+			expect(stoppedState.segments.map((seg) => seg.id)).toEqual(["trunk-0", "trunk-1", "branch-0", "trunk-2"]);
+			expect(stoppedState.segmentProgress["trunk-1"]!.status).toBe("complete");
+			expect(stoppedState.totalSteps).toBe(5);
+		});
+
+		it("should seed the trunk segment after the fork with the trunk commits before it", () => {
+			const firstStepOfC = callsBeforeResume.find((call) => call.diff.includes("C: change C"))!;
+			expect(firstStepOfC.contextCommits).toContain(`${shas.A!.slice(0, 8)} — A: change A`);
+			expect(firstStepOfC.contextCommits).toContain(`${shas.B!.slice(0, 8)} — B: change B`);
+		});
+
+		it("should detect the old segment layout and carry its progress over", () => {
+			expect(logged.some((line) => line.includes("State file segments do not match the current history"))).toBe(true);
+			expect(resumeMode).toBe("state-file");
+		});
+
+		it("should process only the commits left over, once each", () => {
+			const resumed = mock.calls.slice(callsBeforeResume.length);
+			expect(resumed).toHaveLength(3);
+			for (const name of ["A", "B", "C", "D", "X1"]) {
+				expect(resumed.some((call) => call.diff.includes(`${name}: change ${name}`))).toBe(false);
+			}
+			expect(resumedState.segments.map((seg) => seg.id)).toEqual(["trunk-0", "trunk-1", "branch-0", "trunk-2"]);
+			expect(Object.values(resumedState.segmentProgress).every((p) => p.status === "complete")).toBe(true);
+		});
+
+		it("should keep the allium commits made before the resume", () => {
+			for (const name of ["A", "B", "C", "D", "X1"]) {
+				expect(resumedState.shaMap[shas[name]!]).toBe(stoppedState.shaMap[shas[name]!]);
+			}
+			expect(Object.keys(resumedState.shaMap)).toHaveLength(8);
+			expect(resumedState.totalSteps).toBe(8);
+			expect(resumedState.totalCostUsd).toBeCloseTo(0.01 * mock.calls.length);
+		});
+	});
+});
@@ -0,0 +1,135 @@
+import { exec as cpExec } from "node:child_process";
+import { cp, mkdir, mkdtemp, readFile, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import { promisify } from "node:util";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+const execAsync = promisify(cpExec);
+
+vi.mock("../../src/claude/runner.js", async (importOriginal) => {
+	const actual = (await importOriginal()) as Record<string, unknown>;
+	let callCount = 0;
+	return {
+		...actual,
+		invokeClaudeForStep: vi.fn(async (opts: { modular?: boolean }) => {
+			callCount++;
+			return {
+				spec: `master-v${callCount}`,
+				changelog: `## step ${callCount}\n\n- change ${callCount}`,
+				commitMessage: `evolve step ${callCount}`,
+				sessionId: `session-${callCount}`,
+				costUsd: 0.01,
+				...(opts.modular ? { modules: { "entities.allium": `entity User {} -- v${callCount}` } } : {}),
+			};
+		}),
+	};
+});
+
+const FIXTURE_REPO = resolve(import.meta.dirname, "../fixtures/repo");
+
+describe("show and checkout – spec time-travel by original revision", () => {
+	let tmpDir: string;
+	let repoPath: string;
+	let config: import("../../src/config.js").EvolutionConfig;
+	let shaMap: Record<string, string>;
+	let showRevision: typeof import("../../src/history/show.js").showRevision;
+	let checkoutRevision: typeof import("../../src/history/show.js").checkoutRevision;
+
+	async function git(command: string): Promise<string> {
+		const { stdout } = await execAsync(`git ${command}`, { cwd: repoPath });
+		return stdout.trim();
+	}
+
+	beforeAll(async () => {
+		tmpDir = await mkdtemp(join(tmpdir(), "allium-show-"));
+		repoPath = join(tmpDir, "repo");
+		await cp(FIXTURE_REPO, repoPath, { recursive: true });
+		await git('config user.email "test@allium-evolve.dev"');
+		await git('config user.name "Test Author"');
+		// A source file with the spec extension, which is not part of the spec.
+		await mkdir(join(repoPath, "docs"), { recursive: true });
+		await writeFile(join(repoPath, "docs", "example.allium"), "entity Example {}\n");
+		await git("add docs/example.allium");
+		await git('commit -q -m "Add example spec to docs"');
+
+		const { defaultConfig } = await import("../../src/config.js");
+		const { runEvolution } = await import("../../src/evolution/orchestrator.js");
+		({ showRevision, checkoutRevision } = await import("../../src/history/show.js"));
+
+		config = defaultConfig({
+			repoPath,
+			targetRef: "main",
+			parallelBranches: false,
+			stateFile: join(tmpDir, "state.json"),
+			alliumBranch: "allium/evolution",
+			alliumSkillsPath: "/tmp/fake-skills",
+			autoConfirm: true,
+			modularSpec: true,
+		});
+		await runEvolution(config);
+		shaMap = JSON.parse(await readFile(config.stateFile, "utf-8")).shaMap;
+
+		await git("tag release-3.2 main~3");
+		await git("checkout -q main");
+		await writeFile(join(repoPath, "unprocessed.ts"), "export const later = true;\n");
+		await git("add unprocessed.ts");
+		await git('commit -q -m "Unprocessed commit"');
+	}, 60_000);
+
+	afterAll(async () => {
+		await rm(tmpDir, { recursive: true, force: true });
+	});
+
+	describe("INT-034: show resolves revisions to allium commits, falling back to the nearest processed ancestor", () => {
+		it("should resolve a tag to the allium commit written for it", async () => {
+			const snapshot = await showRevision(config, "release-3.2");
+			const originalSha = await git("rev-parse main~4");
+			expect(snapshot).toMatchObject({ originalSha, processedSha: originalSha, exact: true });
+			expect(snapshot.alliumSha).toBe(shaMap[originalSha]);
+		});
+
+		it("should print the assembled spec and only the changelog entry of that commit", async () => {
+			const snapshot = await showRevision(config, "release-3.2");
+			expect(snapshot.spec).toContain("## Master Specification");
+			expect(snapshot.spec).toContain("### Module: entities.allium");
+			expect(snapshot.changelogEntries).toHaveLength(1);
+			expect(snapshot.changelogEntries[0]).toMatch(/^## step \d+\n\n- change \d+$/);
+		});
+
+		it("should fall back to the nearest processed ancestor for a commit that was never processed", async () => {
+			const snapshot = await showRevision(config, "HEAD");
+			const mainTip = await git("rev-parse HEAD~1");
+			expect(snapshot.exact).toBe(false);
+			expect(snapshot.originalSha).toBe(await git("rev-parse HEAD"));
+			expect(snapshot.processedSha).toBe(mainTip);
+			expect(snapshot.alliumSha).toBe(shaMap[mainTip]);
+		});
+
+		it("should reject unknown revisions", async () => {
+			await expect(showRevision(config, "no-such-tag")).rejects.toThrow("Unknown revision 'no-such-tag'");
+		});
+	});
+
+	describe("INT-035: checkout writes the modular spec tree for a revision", () => {
+		it("should write spec/_master.allium and every module", async () => {
+			const outDir = join(tmpDir, "release-3.2");
+			const { resolved, files } = await checkoutRevision(config, "release-3.2", outDir);
+
+			expect(files.sort()).toEqual(["spec/_master.allium", "spec/entities.allium"]);
+			expect((await readdir(join(outDir, "spec"))).sort()).toEqual(["_master.allium", "entities.allium"]);
+			expect(await readFile(join(outDir, "spec/_master.allium"), "utf-8")).toBe(
+				await git(`show ${resolved.alliumSha}:spec/_master.allium`),
+			);
+		});
+
+		it("should leave out source files that only share the spec extension", async () => {
+			const outDir = join(tmpDir, "main-tip");
+			const { resolved, files } = await checkoutRevision(config, "HEAD~1", outDir);
+
+			expect(await git(`ls-tree -r --name-only ${resolved.alliumSha} -- docs`)).toBe("docs/example.allium");
+			expect(files.sort()).toEqual(["spec/_master.allium", "spec/entities.allium"]);
+			expect((await readdir(outDir)).sort()).toEqual(["spec"]);
+		});
+	});
+});
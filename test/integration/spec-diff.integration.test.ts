@@ -0,0 +1,112 @@
+import { exec as cpExec } from "node:child_process";
+import { cp, mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import { promisify } from "node:util";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+const execAsync = promisify(cpExec);
+
+vi.mock("../../src/claude/runner.js", async (importOriginal) => {
+	const actual = (await importOriginal()) as Record<string, unknown>;
+	let callCount = 0;
+	return {
+		...actual,
+		invokeClaudeForStep: vi.fn(async (opts: { stepType: string }) => {
+			callCount++;
+			// As the prompts ask: steps head their entry with a short SHA, merges write bullets only.
+			const heading = callCount.toString(16).padStart(8, "0");
+			const bullets = `- change ${callCount}`;
+			const isMerge = opts.stepType === "merge" || opts.stepType === "sync";
+			return {
+				spec: `spec-v${callCount}`,
+				changelog: isMerge ? bullets : `## ${heading} — step ${callCount}\n\n${bullets}`,
+				commitMessage: `evolve step ${callCount}`,
+				sessionId: `session-${callCount}`,
+				costUsd: 0.01,
+			};
+		}),
+	};
+});
+
+const FIXTURE_REPO = resolve(import.meta.dirname, "../fixtures/repo");
+
+describe("diff – spec changes between two original revisions", () => {
+	let tmpDir: string;
+	let repoPath: string;
+	let config: import("../../src/config.js").EvolutionConfig;
+	let history: typeof import("../../src/history/diff.js");
+
+	async function git(command: string): Promise<string> {
+		const { stdout } = await execAsync(`git ${command}`, { cwd: repoPath });
+		return stdout.trim();
+	}
+
+	beforeAll(async () => {
+		tmpDir = await mkdtemp(join(tmpdir(), "allium-diff-"));
+		repoPath = join(tmpDir, "repo");
+		await cp(FIXTURE_REPO, repoPath, { recursive: true });
+		await git('config user.email "test@allium-evolve.dev"');
+		await git('config user.name "Test Author"');
+
+		const { defaultConfig } = await import("../../src/config.js");
+		const { runEvolution } = await import("../../src/evolution/orchestrator.js");
+		history = await import("../../src/history/diff.js");
+
+		config = defaultConfig({
+			repoPath,
+			targetRef: "main",
+			parallelBranches: true,
+			stateFile: join(tmpDir, "state.json"),
+			alliumBranch: "allium/evolution",
+			alliumSkillsPath: "/tmp/fake-skills",
+			autoConfirm: true,
+		});
+		await runEvolution(config);
+	}, 60_000);
+
+	afterAll(async () => {
+		await rm(tmpDir, { recursive: true, force: true });
+	});
+
+	describe("INT-036: diff maps both revisions through the allium DAG across segments and merges", () => {
+		it("should list each changelog entry added between a branch tip and main once", async () => {
+			const diff = await history.diffRevisions(config, "branch-x", "main");
+			const { readChangelogFromCommit } = await import("../../src/git/read-spec.js");
+			const before = await readChangelogFromCommit(repoPath, diff.from.alliumSha);
+
+			expect(diff.ancestor).toBe(true);
+			expect(diff.alliumCommits).toBeGreaterThan(0);
+			expect(diff.changelogEntries).toHaveLength(diff.alliumCommits);
+			expect(new Set(diff.changelogEntries).size).toBe(diff.changelogEntries.length);
+			for (const entry of diff.changelogEntries) {
+				expect(before).not.toContain(entry);
+			}
+			expect(diff.specDiff).toMatch(/^-spec-v\d+$/m);
+			expect(diff.specDiff).toMatch(/^\+spec-v\d+$/m);
+		});
+
+		it("should report revisions on lines that never merged into each other", async () => {
+			const diff = await history.diffRevisions(config, "branch-y", "branch-x");
+			expect(diff.ancestor).toBe(false);
+			expect(history.formatSpecDiffMarkdown(diff)).toContain("branch-y is not an ancestor of branch-x");
+		});
+
+		it("should render release notes in markdown", async () => {
+			const diff = await history.diffRevisions(config, "main~3", "main");
+			const markdown = history.formatSpecDiffMarkdown(diff);
+
+			expect(diff.changelogEntries).toHaveLength(3);
+			expect(markdown).toMatch(/^# Domain changes: main~3 → main$/m);
+			expect(markdown.match(/^### [0-9a-f]{8} — step \d+$/gm)).toHaveLength(3);
+			expect(markdown).toContain("```diff\n");
+		});
+
+		it("should report an unchanged spec when both revisions map to the same allium commit", async () => {
+			const diff = await history.diffRevisions(config, "main", "main");
+			expect(diff.alliumCommits).toBe(0);
+			expect(diff.changelogEntries).toEqual([]);
+			expect(history.formatSpecDiff(diff)).toContain("(spec unchanged)");
+		});
+	});
+});
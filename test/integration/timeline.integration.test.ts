@@ -0,0 +1,106 @@
+import { exec as cpExec } from "node:child_process";
+import { cp, mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import { promisify } from "node:util";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+const execAsync = promisify(cpExec);
+
+vi.mock("../../src/claude/runner.js", async (importOriginal) => {
+	const actual = (await importOriginal()) as Record<string, unknown>;
+	let callCount = 0;
+	return {
+		...actual,
+		invokeClaudeForStep: vi.fn(async () => {
+			callCount++;
+			// Subscription appears at call 3, gains `paused` at call 6 and is removed at call 12.
+			const spec = ["entity User {}"];
+			const bullets = [`- step ${callCount}`];
+			if (callCount >= 3 && callCount < 12) {
+				spec.push(`entity Subscription {\n    status: ${callCount >= 6 ? "active | paused" : "active"}\n}`);
+			}
+			if (callCount === 3) bullets.push("- Add Subscription");
+			if (callCount === 6) bullets.push("- Subscription can be paused");
+			if (callCount === 12) bullets.push("- Remove Subscription");
+			return {
+				spec: `${spec.join("\n\n")}\n`,
+				changelog: `## ${callCount.toString(16).padStart(8, "0")} — step ${callCount}\n\n${bullets.join("\n")}`,
+				commitMessage: `evolve step ${callCount}`,
+				sessionId: `session-${callCount}`,
+				costUsd: 0.01,
+			};
+		}),
+	};
+});
+
+const FIXTURE_REPO = resolve(import.meta.dirname, "../fixtures/repo");
+
+describe("history – lifecycle timeline of a declaration", () => {
+	let tmpDir: string;
+	let config: import("../../src/config.js").EvolutionConfig;
+	let timeline: typeof import("../../src/history/timeline.js");
+	let entries: import("../../src/history/timeline.js").TimelineEntry[];
+	let shaMap: Record<string, string>;
+
+	beforeAll(async () => {
+		tmpDir = await mkdtemp(join(tmpdir(), "allium-timeline-"));
+		const repoPath = join(tmpDir, "repo");
+		await cp(FIXTURE_REPO, repoPath, { recursive: true });
+		await execAsync('git config user.email "test@allium-evolve.dev"', { cwd: repoPath });
+		await execAsync('git config user.name "Test Author"', { cwd: repoPath });
+
+		const { defaultConfig } = await import("../../src/config.js");
+		const { runEvolution } = await import("../../src/evolution/orchestrator.js");
+		timeline = await import("../../src/history/timeline.js");
+
+		config = defaultConfig({
+			repoPath,
+			targetRef: "main",
+			parallelBranches: false,
+			stateFile: join(tmpDir, "state.json"),
+			alliumBranch: "allium/evolution",
+			alliumSkillsPath: "/tmp/fake-skills",
+			autoConfirm: true,
+		});
+		await runEvolution(config);
+		shaMap = JSON.parse(await readFile(config.stateFile, "utf-8")).shaMap;
+		entries = await timeline.buildTimeline(config, "Subscription");
+	}, 60_000);
+
+	afterAll(async () => {
+		await rm(tmpDir, { recursive: true, force: true });
+	});
+
+	describe("INT-038: history reports where a declaration appeared, changed and disappeared", () => {
+		it("should open with the step that added it and close with the one that removed it", () => {
+			expect(entries[0]).toMatchObject({ change: "appeared", kinds: ["entity"], changelog: ["- Add Subscription"] });
+			expect(entries.at(-1)).toMatchObject({ change: "disappeared", declarations: [] });
+		});
+
+		it("should report the change that added the paused state with its changelog excerpt", () => {
+			const paused = entries.find((entry) => entry.changelog.includes("- Subscription can be paused"));
+			expect(paused?.change).toBe("changed");
+			expect(paused?.declarations[0]?.text).toContain("active | paused");
+		});
+
+		it("should attribute every entry to a processed source commit with its date and subject", () => {
+			for (const entry of entries) {
+				expect(shaMap[entry.originalSha]).toBe(entry.alliumSha);
+				expect(entry.date).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+				expect(entry.message).toMatch(/^[A-Z]\d?: /);
+			}
+		});
+
+		it("should render one Markdown bullet per entry", () => {
+			const markdown = timeline.formatTimeline("Subscription", entries);
+			expect(markdown.startsWith("# History of `Subscription`\n")).toBe(true);
+			expect(markdown.match(/^- \*\*\d{4}-\d{2}-\d{2}\*\* `[0-9a-f]{8}` /gm)).toHaveLength(entries.length);
+			expect(markdown).toContain("  > - Add Subscription");
+		});
+
+		it("should report nothing for a name that was never declared", async () => {
+			expect(await timeline.buildTimeline(config, "Invoice")).toEqual([]);
+		});
+	});
+});
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import { AlliumSyntaxError } from "../../src/spec/allium/errors.js";
+import { parseAllium } from "../../src/spec/allium/parser.js";
+
+const SPEC = `-- Ordering domain
+
+external entity Customer {
+    email: String
+}
+
+entity Order {
+    customer: Customer
+    status: pending | shipped -- set by ShipOrder
+    tags: { "gift", "rush" }
+}
+
+rule ShipOrder {
+    when: ShipRequested(order)
+    requires: order.status = pending
+    ensures:
+        order.status = shipped
+        Email.created(to: order.customer.email)
+}
+
+surface Checkout {
+    for each order in orders {
+        show: order
+    }
+}
+`;
+
+function syntaxError(source: string): AlliumSyntaxError {
+	try {
+		parseAllium(source);
+	} catch (err) {
+		return err as AlliumSyntaxError;
+	}
+	throw new Error("expected a syntax error");
+}
+
+describe("allium parser", () => {
+	describe("UNIT-086: parseAllium builds an AST of declarations", () => {
+		it("parses entities with fields and relationships to other entities", () => {
+			const spec = parseAllium(SPEC);
+			const [customer, order] = spec.declarations;
+
+			expect(customer).toMatchObject({ kind: "entity", name: "Customer", modifiers: ["external"] });
+			expect(order).toMatchObject({
+				kind: "entity",
+				name: "Order",
+				fields: [
+					{ name: "customer", type: "Customer" },
+					{ name: "status", type: "pending | shipped" },
+					{ name: "tags", type: '{ "gift", "rush" }' },
+				],
+				relationships: [{ from: "Order", field: "customer", to: "Customer" }],
+			});
+		});
+
+		it("parses rule clauses, folding continuation lines into the clause above", () => {
+			const rule = parseAllium(SPEC).declarations[2];
+
+			expect(rule).toMatchObject({
+				kind: "rule",
+				name: "ShipOrder",
+				clauses: [
+					{ keyword: "when", expression: "ShipRequested(order)" },
+					{ keyword: "requires", expression: "order.status = pending" },
+					{ keyword: "ensures", expression: "order.status = shipped\nEmail.created(to: order.customer.email)" },
+				],
+			});
+		});
+
+		it("keeps other declarations, nested blocks and comments with source positions", () => {
+			const spec = parseAllium(SPEC);
+			const surface = spec.declarations[3]!;
+
+			expect(surface).toMatchObject({ kind: "other", keyword: "surface", name: "Checkout" });
+			expect(surface.members).toMatchObject([
+				{ kind: "block", header: "for each order in orders", members: [{ kind: "member", name: "show" }] },
+			]);
+			expect(surface.span.start).toEqual({ line: 21, column: 1, offset: SPEC.indexOf("surface") });
+			expect(surface.span.end.line).toBe(25);
+			expect(spec.comments.map((comment) => [comment.text, comment.span.start.line])).toEqual([
+				["Ordering domain", 1],
+				["set by ShipOrder", 9],
+			]);
+		});
+
+		it("accepts one-line declarations and an empty spec", () => {
+			expect(parseAllium('use "./billing.allium" as billing\n').declarations).toMatchObject([
+				{ kind: "other", keyword: "use", members: [] },
+			]);
+			expect(parseAllium("-- nothing yet\n").declarations).toEqual([]);
+		});
+	});
+
+	describe("UNIT-087: parseAllium reports syntax errors with their position", () => {
+		it("points at the brace that is never closed", () => {
+			const err = syntaxError("entity Order {\n    status: pending\n");
+
+			expect(err).toBeInstanceOf(AlliumSyntaxError);
+			expect(err.message).toBe("line 1, column 14: '{' is never closed");
+			expect(err.excerpt).toBe("1 | entity Order {\n  |              ^");
+		});
+
+		it("rejects mismatched and stray closers", () => {
+			expect(syntaxError("rule R {\n    when: f(x]\n}").message).toBe(
+				"line 2, column 14: Expected ')' to close '(' opened at line 2, column 12, found ']'",
+			);
+			expect(syntaxError("entity A {\n}\n}").message).toBe("line 3, column 1: Unexpected '}' with no open block");
+			expect(syntaxError("entity A {\n} entity B {}").message).toBe(
+				"line 2, column 3: Expected a new line after '}', found 'entity'",
+			);
+		});
+
+		it("rejects prose, Markdown fences, unterminated strings and nameless entities", () => {
+			expect(syntaxError("Here is the updated spec:\nentity A {}").message).toBe(
+				"line 1, column 1: Expected a declaration such as 'entity Name {', found 'Here'",
+			);
+			expect(syntaxError("```allium\nentity A {}\n```").message).toBe(
+				"line 1, column 1: Unexpected '`'; the spec must not be wrapped in a Markdown code fence",
+			);
+			expect(syntaxError('entity A {\n    name: "unfinished\n}').message).toBe("line 2, column 11: Unterminated string");
+			expect(syntaxError("entity {\n}").message).toBe("line 1, column 1: Expected a name after 'entity'");
+		});
+	});
+});
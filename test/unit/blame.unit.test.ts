@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { parseBlamePorcelain } from "../../src/history/blame.js";
+
+const SHA_A = "a".repeat(40);
+const SHA_B = "b".repeat(40);
+
+describe("blame", () => {
+	describe("UNIT-084: parseBlamePorcelain attributes every line to its commit", () => {
+		it("reads repeated commits, which porcelain describes only once", () => {
+			const output = [
+				`${SHA_A} 1 1 2`,
+				"author Allium",
+				"summary allium: initial",
+				"filename spec.allium",
+				"\tentity User {",
+				`${SHA_A} 2 2`,
+				"\t}",
+				`${SHA_B} 3 3 1`,
+				"author Allium",
+				"summary allium: add Team",
+				"filename spec.allium",
+				"\tentity Team {}",
+				"",
+			].join("\n");
+
+			expect(parseBlamePorcelain(output)).toEqual([
+				{ line: 1, content: "entity User {", alliumSha: SHA_A },
+				{ line: 2, content: "}", alliumSha: SHA_A },
+				{ line: 3, content: "entity Team {}", alliumSha: SHA_B },
+			]);
+		});
+
+		it("keeps tabs and blank lines inside the content", () => {
+			expect(parseBlamePorcelain(`${SHA_A} 1 1 2\n\t\tindented\n${SHA_A} 2 2\n\t\n`)).toEqual([
+				{ line: 1, content: "\tindented", alliumSha: SHA_A },
+				{ line: 2, content: "", alliumSha: SHA_A },
+			]);
+		});
+	});
+});
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { changelogEntriesSince, splitChangelogEntries } from "../../src/history/changelog.js";
+
+const A = "## aaaaaaaa — Add User\n\n- User entity";
+const B = "## bbbbbbbb — Add Team\n\n- Team entity";
+const M = "## cccccccc (merge)\n\n- Kept both";
+
+describe("changelog entries", () => {
+	describe("UNIT-083: changelogEntriesSince returns the entries only the newer changelog has", () => {
+		it("splits on level-two headings and drops text before the first", () => {
+			expect(splitChangelogEntries(`# Changelog\n\n${A}\n\n${B}\n`)).toEqual([A, B]);
+		});
+
+		it("returns the appended entries of a linear successor", () => {
+			expect(changelogEntriesSince(`\n${A}\n`, `\n${A}\n\n${B}\n`)).toEqual([B]);
+		});
+
+		it("ignores entries a merge spliced in from the older line, wherever they land", () => {
+			expect(changelogEntriesSince(`\n${B}\n`, `\n${A}\n${B}\n\n${M}\n`)).toEqual([A, M]);
+		});
+
+		it("returns nothing for identical changelogs", () => {
+			expect(changelogEntriesSince(A, A)).toEqual([]);
+		});
+	});
+});
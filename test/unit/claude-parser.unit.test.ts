@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { parseClaudeResponse, validateResponse } from "../../src/claude/parser.js";
+import { parseClaudeResponse, validateFindings, validateModules, validateResponse } from "../../src/claude/parser.js";
 
 function makeLegacyEnvelope(resultObj: Record<string, unknown>, overrides: Record<string, unknown> = {}): string {
 	return JSON.stringify({
@@ -217,4 +217,124 @@ describe("claude/parser.ts", () => {
 			expect(() => parseClaudeResponse(raw)).toThrow(/claude cli returned an error/i);
 		});
 	});
+
+	describe("UNIT-064: Reconciliation findings are extracted and validated", () => {
+		const finding = {
+			kind: "stale-rule",
+			severity: "high",
+			specLocation: "rule RefundWindow",
+			evidence: [{ file: "src/entities/payment.ts", line: 42 }],
+			description: "Refund window is 14 days in source, 30 in spec",
+			suggestedFix: "Change RefundWindow to 14 days",
+		};
+
+		it("should extract findings from structured_output", () => {
+			const raw = makeStructuredEnvelope({
+				spec: "spec",
+				changelog: "log",
+				commitMessage: "msg",
+				findings: [finding],
+			});
+
+			expect(parseClaudeResponse(raw).findings).toEqual([finding]);
+		});
+
+		it("should leave findings undefined for evolve responses", () => {
+			const raw = makeStructuredEnvelope({ spec: "spec", changelog: "log", commitMessage: "msg" });
+
+			expect(parseClaudeResponse(raw).findings).toBeUndefined();
+		});
+
+		it("should accept well-formed findings and an empty array", () => {
+			expect(validateFindings([finding])).toEqual({ valid: true, errors: [] });
+			expect(validateFindings([])).toEqual({ valid: true, errors: [] });
+		});
+
+		it("should reject missing findings", () => {
+			expect(validateFindings(undefined).errors).toEqual(["findings must be an array"]);
+		});
+
+		it("should report unknown kinds, severities, empty fields and bad evidence", () => {
+			const result = validateFindings([
+				{
+					...finding,
+					kind: "typo",
+					severity: "critical",
+					suggestedFix: "",
+					evidence: [{ file: "", line: 0 }],
+				},
+			]);
+
+			expect(result.valid).toBe(false);
+			expect(result.errors).toEqual([
+				"findings[0].kind must be one of missing-entity, stale-rule, contradictory-invariant, unverifiable-claim",
+				"findings[0].severity must be one of low, medium, high",
+				"findings[0].suggestedFix must not be empty",
+				"findings[0].evidence[0].file must not be empty",
+				"findings[0].evidence[0].line must be a positive integer",
+			]);
+		});
+	});
+
+	describe("UNIT-065: Modular responses carry validated module updates", () => {
+		it("should extract modules from the structured output", () => {
+			const raw = makeStructuredEnvelope({
+				spec: "master",
+				changelog: "log",
+				commitMessage: "msg",
+				modules: { "packages/billing.allium": "entity Invoice {}" },
+			});
+
+			expect(parseClaudeResponse(raw).modules).toEqual({ "packages/billing.allium": "entity Invoice {}" });
+		});
+
+		it("should accept module paths and empty strings for removal", () => {
+			expect(validateModules({ "a.allium": "entity A {}", "b/c.allium": "" })).toEqual({ valid: true, errors: [] });
+			expect(validateModules({})).toEqual({ valid: true, errors: [] });
+		});
+
+		it("should reject the master file, unsafe paths and non-string contents", () => {
+			const result = validateModules({
+				"_master.allium": "master",
+				"../escape.allium": "x",
+				"notes.txt": "x",
+				"ok.allium": 42,
+			});
+
+			expect(result.valid).toBe(false);
+			expect(result.errors).toEqual([
+				'modules must not contain "_master.allium" — return the master spec as spec',
+				"Module path must not contain '..': ../escape.allium",
+				"Module path must end with '.allium': notes.txt",
+				'modules["ok.allium"] must be a string',
+			]);
+		});
+
+		it("should reject non-object modules", () => {
+			expect(validateModules(["a.allium"]).errors).toEqual(["modules must be an object"]);
+		});
+	});
+
+	describe("UNIT-088: Specs that do not parse fail validation", () => {
+		it("should report the syntax error of the spec and of each module", () => {
+			const result = validateResponse({
+				spec: "entity Order {\n    status: pending\n",
+				changelog: "changelog",
+				commitMessage: "msg",
+				modules: {
+					"billing.allium": "```allium\nentity Invoice {}\n```",
+					"removed.allium": "",
+					"ok.allium": "entity Ok {}",
+				},
+				costUsd: 0,
+				sessionId: "s",
+			});
+
+			expect(result.valid).toBe(false);
+			expect(result.errors).toEqual([
+				"spec does not parse: line 1, column 14: '{' is never closed",
+				'modules["billing.allium"] does not parse: line 1, column 1: Unexpected \'`\'; the spec must not be wrapped in a Markdown code fence',
+			]);
+		});
+	});
 });
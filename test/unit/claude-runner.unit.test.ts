@@ -0,0 +1,171 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ModelBackend, ModelRequest } from "../../src/claude/backend.js";
+import {
+	InvocationFailedError,
+	type InvokeClaudeOpts,
+	failedCallCost,
+	invokeClaudeForStep,
+} from "../../src/claude/runner.js";
+
+function makeEnvelope(structuredOutput: Record<string, unknown>, sessionId = "sess-1"): string {
+	return JSON.stringify({
+		type: "result",
+		subtype: "success",
+		total_cost_usd: 0.05,
+		duration_ms: 1000,
+		is_error: false,
+		result: "",
+		structured_output: structuredOutput,
+		session_id: sessionId,
+	});
+}
+
+/** Answers each call with the next scripted envelope and records the requests. */
+function scriptedBackend(kind: ModelBackend["kind"], responses: string[]): ModelBackend & { requests: ModelRequest[] } {
+	const requests: ModelRequest[] = [];
+	return {
+		kind,
+		requests,
+		invoke: async (request) => {
+			requests.push(request);
+			return responses[requests.length - 1]!;
+		},
+	};
+}
+
+function makeOpts(backend: ModelBackend, overrides: Partial<InvokeClaudeOpts> = {}): InvokeClaudeOpts {
+	return {
+		backend,
+		stepType: "evolve",
+		systemPrompt: "system",
+		userPrompt: "Update the spec.",
+		model: "sonnet",
+		workingDirectory: "/tmp/repo",
+		alliumSkillsPath: "/tmp/skills",
+		...overrides,
+	};
+}
+
+const UNCLOSED = makeEnvelope({ spec: "entity Order {\n    status: pending\n", changelog: "log", commitMessage: "msg" });
+const VALID = makeEnvelope({ spec: "entity Order {\n    status: pending\n}", changelog: "log", commitMessage: "msg" });
+
+describe("claude/runner.ts", () => {
+	beforeEach(() => {
+		vi.spyOn(console, "error").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe("UNIT-089: Retries tell the model why its previous response was rejected", () => {
+		it("should append the validation errors and the offending spec line to the retry prompt", async () => {
+			const backend = scriptedBackend("cli", [UNCLOSED, VALID]);
+
+			const result = await invokeClaudeForStep(makeOpts(backend));
+
+			expect(result.spec).toBe("entity Order {\n    status: pending\n}");
+			expect(backend.requests[0]!.userPrompt).toBe("Update the spec.");
+			const retry = backend.requests[1]!;
+			expect(retry.resumeSessionId).toBeUndefined();
+			expect(retry.systemPrompt).toBe("system");
+			expect(retry.userPrompt).toBe(
+				[
+					"Update the spec.",
+					"",
+					"## Your previous response was rejected",
+					"",
+					"Your previous response could not be used because:",
+					"",
+					"- spec does not parse: line 1, column 14: '{' is never closed",
+					"",
+					"Relevant part of the rejected response:",
+					"",
+					"```text",
+					"spec, line 1, column 14: '{' is never closed",
+					"1 | entity Order {",
+					"  |              ^",
+					"```",
+					"",
+					"Fix these problems and return the complete response again as JSON matching the schema.",
+				].join("\n"),
+			);
+		});
+
+		it("should quote the start of output that is not valid JSON", async () => {
+			const notJson = JSON.stringify({
+				type: "result",
+				subtype: "success",
+				is_error: false,
+				duration_ms: 1,
+				result: "Here is the updated spec: entity Order {}",
+				session_id: "sess-1",
+			});
+			const backend = scriptedBackend("cli", [notJson, VALID]);
+
+			await invokeClaudeForStep(makeOpts(backend));
+
+			const retry = backend.requests[1]!.userPrompt;
+			expect(retry).toContain("- Failed to parse inner result JSON: Here is the updated spec");
+			expect(retry).toContain("```text\nHere is the updated spec: entity Order {}\n```");
+		});
+
+		it("should resume the rejected session with only the feedback when asked to", async () => {
+			const backend = scriptedBackend("cli", [UNCLOSED, VALID]);
+
+			await invokeClaudeForStep(makeOpts(backend, { resumeSession: true }));
+
+			const retry = backend.requests[1]!;
+			expect(retry.resumeSessionId).toBe("sess-1");
+			expect(retry.userPrompt.startsWith("## Your previous response was rejected")).toBe(true);
+		});
+
+		it("should send the full prompt again on backends that cannot resume", async () => {
+			const backend = scriptedBackend("api", [UNCLOSED, VALID]);
+
+			await invokeClaudeForStep(makeOpts(backend, { resumeSession: true }));
+
+			const retry = backend.requests[1]!;
+			expect(retry.resumeSessionId).toBeUndefined();
+			expect(retry.userPrompt.startsWith("Update the spec.\n\n## Your previous response was rejected")).toBe(true);
+		});
+
+		it("should fail with the last rejection once retries run out", async () => {
+			const backend = scriptedBackend("cli", [UNCLOSED, UNCLOSED]);
+
+			await expect(invokeClaudeForStep(makeOpts(backend, { maxRetries: 1 }))).rejects.toThrow(
+				"Claude invocation failed after 2 attempts: Validation failed: spec does not parse: line 1, column 14: '{' is never closed",
+			);
+		});
+	});
+
+	describe("UNIT-095: Rejected responses count towards the cost of the call", () => {
+		it("should add the cost of each rejected attempt to the result", async () => {
+			const errorEnvelope = JSON.stringify({
+				type: "result",
+				subtype: "error_max_turns",
+				total_cost_usd: 0.08,
+				duration_ms: 1,
+				is_error: true,
+				result: "",
+				session_id: "sess-2",
+			});
+			const backend = scriptedBackend("cli", [UNCLOSED, errorEnvelope, VALID]);
+
+			const result = await invokeClaudeForStep(makeOpts(backend));
+
+			expect(backend.requests).toHaveLength(3);
+			expect(result.costUsd).toBeCloseTo(0.05 + 0.08 + 0.05);
+		});
+
+		it("should carry the total on the error when every attempt is rejected", async () => {
+			const backend = scriptedBackend("cli", [UNCLOSED, UNCLOSED, UNCLOSED]);
+
+			const error = await invokeClaudeForStep(makeOpts(backend)).catch((err: unknown) => err);
+
+			expect(error).toBeInstanceOf(InvocationFailedError);
+			expect(failedCallCost(error)).toBeCloseTo(0.15);
+			expect(failedCallCost(new Error("unrelated"))).toBe(0);
+		});
+	});
+});
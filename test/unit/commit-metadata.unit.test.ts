@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { formatOriginalLine, parseOriginalSha } from "../../src/git/commit-metadata.js";
+import { formatOriginalLine, parseOriginalSha, parseOriginalShas } from "../../src/git/commit-metadata.js";
 
 describe("commit-metadata", () => {
 	describe("parseOriginalSha", () => {
@@ -21,6 +21,16 @@ describe("commit-metadata", () => {
 		});
 	});
 
+	describe("parseOriginalShas", () => {
+		it("returns every Original: trailer in order", () => {
+			const sha1 = "1".repeat(40);
+			const sha2 = "2".repeat(40);
+			const body = `allium: batch\n\nOriginal: ${sha1} "a"\nOriginal: ${sha2} "b"\nWindow: 11111111..22222222`;
+			expect(parseOriginalShas(body)).toEqual([sha1, sha2]);
+			expect(parseOriginalShas("no Original line here")).toEqual([]);
+		});
+	});
+
 	describe("formatOriginalLine", () => {
 		it("produces correct format", () => {
 			expect(formatOriginalLine("abc123", "feat: add user")).toBe('Original: abc123 "feat: add user"');
@@ -214,3 +214,205 @@ describe("dag module", () => {
 		});
 	});
 });
+
+describe("dag module – synthetic topologies", () => {
+	/** Build a DAG from `[sha, parents, isTrunk]` rows, filling in children. */
+	function makeDag(rows: Array<[string, string[], boolean]>): Map<string, CommitNode> {
+		const dag = new Map<string, CommitNode>();
+		for (const [sha, parents, isTrunk] of rows) {
+			dag.set(sha, { sha, parents, children: [], message: sha, authorDate: "", isTrunk });
+		}
+		for (const node of dag.values()) {
+			for (const parent of node.parents) {
+				dag.get(parent)?.children.push(node.sha);
+			}
+		}
+		return dag;
+	}
+
+	function segmentOf(segments: Segment[], sha: string): Segment {
+		const seg = segments.find((s) => s.commits.includes(sha));
+		if (!seg) {
+			throw new Error(`No segment contains ${sha}`);
+		}
+		return seg;
+	}
+
+	function expectTopologicalOrder(segments: Segment[]): void {
+		const seen = new Set<string>();
+		for (const seg of segments) {
+			for (const dep of seg.dependsOn) {
+				expect(seen.has(dep), `${seg.id} depends on ${dep}, which comes later`).toBe(true);
+			}
+			seen.add(seg.id);
+		}
+	}
+
+	// ── UNIT-070 ────────────────────────────────────────────────────────
+	describe("UNIT-070: an octopus merge depends on every parent line", () => {
+		// A ─ B ─ C ─ M          M = merge(C, F1, G1)
+		//      ├─ F1 ┘
+		//      └─ G1 ┘
+		const dag = makeDag([
+			["A", [], true],
+			["B", ["A"], true],
+			["F1", ["B"], false],
+			["G1", ["B"], false],
+			["C", ["B"], true],
+			["M", ["C", "F1", "G1"], true],
+			["D", ["M"], true],
+		]);
+		const segments = decompose(dag);
+
+		it("should start a merge segment at M with all three parent segments in parent order", () => {
+			const merge = segmentOf(segments, "M");
+			expect(merge.type).toBe("trunk");
+			expect(merge.commits).toEqual(["M", "D"]);
+			expect(merge.dependsOn).toEqual(["C", "F1", "G1"].map((sha) => segmentOf(segments, sha).id));
+			expect(merge.mergePoint).toEqual({
+				sha: "M",
+				kind: "merge",
+				baseSegmentId: segmentOf(segments, "C").id,
+				mergedSegmentIds: [segmentOf(segments, "F1").id, segmentOf(segments, "G1").id],
+			});
+		});
+
+		it("should give each merged branch its own segment that merges into M", () => {
+			for (const sha of ["F1", "G1"]) {
+				const seg = segmentOf(segments, sha);
+				expect(seg.type).toBe("branch");
+				expect(seg.commits).toEqual([sha]);
+				expect(seg.forkFrom).toBe("B");
+				expect(seg.mergesInto).toBe("M");
+			}
+		});
+
+		it("should end the trunk segment at the fork point", () => {
+			expect(segmentOf(segments, "A").commits).toEqual(["A", "B"]);
+			expectTopologicalOrder(segments);
+		});
+	});
+
+	// ── UNIT-071 ────────────────────────────────────────────────────────
+	describe("UNIT-071: a sub-feature merged into a release branch before it lands", () => {
+		// A ─ B ─────────────────── M          M  = merge(B, R3)
+		//  └─ R1 ─ R2 ─ RM ─ R3 ─┘             RM = merge(R2, S2)
+		//      └─ S1 ─ S2 ┘
+		const dag = makeDag([
+			["A", [], true],
+			["B", ["A"], true],
+			["R1", ["A"], false],
+			["R2", ["R1"], false],
+			["S1", ["R1"], false],
+			["S2", ["S1"], false],
+			["RM", ["R2", "S2"], false],
+			["R3", ["RM"], false],
+			["M", ["B", "R3"], true],
+		]);
+		const segments = decompose(dag);
+
+		it("should split the release branch where the sub-feature forks and merges", () => {
+			expect(segmentOf(segments, "R1").commits).toEqual(["R1"]);
+			expect(segmentOf(segments, "R2").commits).toEqual(["R2"]);
+			expect(segmentOf(segments, "S1").commits).toEqual(["S1", "S2"]);
+			expect(segmentOf(segments, "RM").commits).toEqual(["RM", "R3"]);
+		});
+
+		it("should make the branch-into-branch merge depend on the release and the sub-feature", () => {
+			const releaseMerge = segmentOf(segments, "RM");
+			expect(releaseMerge.type).toBe("branch");
+			expect(releaseMerge.dependsOn).toEqual([segmentOf(segments, "R2").id, segmentOf(segments, "S1").id]);
+			expect(releaseMerge.mergesInto).toBe("M");
+
+			const subFeature = segmentOf(segments, "S1");
+			expect(subFeature.forkFrom).toBe("R1");
+			expect(subFeature.mergesInto).toBe("RM");
+			expect(subFeature.dependsOn).toEqual([segmentOf(segments, "R1").id]);
+		});
+
+		it("should merge the release branch into trunk", () => {
+			const trunkMerge = segmentOf(segments, "M");
+			expect(trunkMerge.type).toBe("trunk");
+			expect(trunkMerge.dependsOn).toEqual([segmentOf(segments, "B").id, segmentOf(segments, "RM").id]);
+			expectTopologicalOrder(segments);
+		});
+	});
+
+	// ── UNIT-072 ────────────────────────────────────────────────────────
+	describe("UNIT-072: a branch forked from a feature branch and never merged", () => {
+		// A ─ B ─────── M          M = merge(B, F2)
+		//  └─ F1 ─ F2 ┘
+		//      └─ G1 ─ G2
+		const dag = makeDag([
+			["A", [], true],
+			["B", ["A"], true],
+			["F1", ["A"], false],
+			["F2", ["F1"], false],
+			["G1", ["F1"], false],
+			["G2", ["G1"], false],
+			["M", ["B", "F2"], true],
+		]);
+		const segments = decompose(dag);
+
+		it("should fork the dead-end from the feature branch, not the trunk", () => {
+			const deadEnd = segmentOf(segments, "G1");
+			expect(deadEnd.type).toBe("dead-end");
+			expect(deadEnd.commits).toEqual(["G1", "G2"]);
+			expect(deadEnd.forkFrom).toBe("F1");
+			expect(deadEnd.mergesInto).toBeNull();
+			expect(deadEnd.dependsOn).toEqual([segmentOf(segments, "F1").id]);
+		});
+
+		it("should cover every commit exactly once", () => {
+			const all = segments.flatMap((s) => s.commits).sort();
+			expect(all).toEqual([...dag.keys()].sort());
+			expectTopologicalOrder(segments);
+		});
+	});
+
+	// ── UNIT-073 ────────────────────────────────────────────────────────
+	describe("UNIT-073: back-merges from trunk into a branch become sync points", () => {
+		// Trunk A ─ B ─ C ─ D ─ M; the branch F1 ─ S1 ─ F2 ─ S2 ─ F3 forks from A,
+		// syncs with B at S1 and with C at S2, then lands at M.
+		const dag = makeDag([
+			["A", [], true],
+			["B", ["A"], true],
+			["C", ["B"], true],
+			["D", ["C"], true],
+			["F1", ["A"], false],
+			["S1", ["F1", "B"], false],
+			["F2", ["S1"], false],
+			["S2", ["F2", "C"], false],
+			["F3", ["S2"], false],
+			["M", ["D", "F3"], true],
+		]);
+		const segments = decompose(dag);
+
+		it("should start a branch segment at each sync, continuing the branch after it", () => {
+			expect(segmentOf(segments, "F1").commits).toEqual(["F1"]);
+			expect(segmentOf(segments, "S1").commits).toEqual(["S1", "F2"]);
+			expect(segmentOf(segments, "S2").commits).toEqual(["S2", "F3"]);
+		});
+
+		it("should emit a sync merge point with the branch as base and the trunk segment merged in", () => {
+			expect(segmentOf(segments, "S1").mergePoint).toEqual({
+				sha: "S1",
+				kind: "sync",
+				baseSegmentId: segmentOf(segments, "F1").id,
+				mergedSegmentIds: [segmentOf(segments, "B").id],
+			});
+			expect(segmentOf(segments, "S2").mergePoint).toMatchObject({
+				kind: "sync",
+				baseSegmentId: segmentOf(segments, "S1").id,
+				mergedSegmentIds: [segmentOf(segments, "C").id],
+			});
+		});
+
+		it("should end trunk segments at the commits the branch synced with", () => {
+			expect(segmentOf(segments, "B").commits).toEqual(["B"]);
+			expect(segmentOf(segments, "C").commits).toEqual(["C"]);
+			expect(segmentOf(segments, "M").mergePoint?.kind).toBe("merge");
+			expectTopologicalOrder(segments);
+		});
+	});
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { Dashboard, startDashboard } from "../../src/dashboard.js";
+import { EventBus } from "../../src/events.js";
+
+const SHA_A = "a".repeat(40);
+const SHA_B = "b".repeat(40);
+
+describe("dashboard", () => {
+	describe("UNIT-082: Dashboard folds events into per-segment rows, spend and an ETA", () => {
+		function started(now: { ms: number }): Dashboard {
+			const dashboard = new Dashboard(() => now.ms);
+			dashboard.handle({
+				type: "run-started",
+				totalSteps: 10,
+				completedSteps: 2,
+				spentUsd: 0.02,
+				estimatedCostUsd: 0.1,
+				concurrency: 4,
+			});
+			dashboard.handle({ type: "segment-started", segmentId: "trunk-0", segmentType: "trunk", commits: 6, completedSteps: 2 });
+			dashboard.handle({ type: "segment-started", segmentId: "branch-1", segmentType: "branch", commits: 4, completedSteps: 0 });
+			return dashboard;
+		}
+
+		it("shows each in-flight segment's commit, step, elapsed time and model", () => {
+			const now = { ms: 0 };
+			const dashboard = started(now);
+			dashboard.handle({
+				type: "step-started",
+				segmentId: "trunk-0",
+				sha: SHA_A,
+				stepType: "evolve",
+				model: "sonnet",
+				diffTokens: 100,
+				commits: [SHA_A],
+			});
+			now.ms = 75_000;
+
+			const lines = dashboard.render();
+			expect(lines[0]).toBe("[allium-evolve] 2/10 steps (20%)  $0.0200 of ~$0.1000  ETA -");
+			expect(lines[1]).toMatch(/^ {2}trunk-0 {3}aaaaaaaa {2}step 3\/6 .* 1m15s {2}sonnet$/);
+			expect(lines[2]).toBe("  branch-1  waiting   step 1/4");
+		});
+
+		it("counts completed steps and merges towards progress, spend and the ETA", () => {
+			const now = { ms: 0 };
+			const dashboard = started(now);
+			dashboard.handle({ type: "merge-started", segmentId: "branch-1", mergeSha: SHA_B, kind: "merge", model: "opus" });
+			expect(dashboard.render()[2]).toContain("merge");
+			dashboard.handle({
+				type: "merge-completed",
+				segmentId: "branch-1",
+				mergeSha: SHA_B,
+				model: "opus",
+				costUsd: 0.03,
+				durationMs: 40_000,
+				alliumSha: "c".repeat(40),
+			});
+			dashboard.handle({
+				type: "step-completed",
+				segmentId: "trunk-0",
+				sha: SHA_A,
+				model: "sonnet",
+				costUsd: 0.01,
+				durationMs: 20_000,
+				alliumSha: "d".repeat(40),
+			});
+			dashboard.handle({ type: "segment-completed", segmentId: "branch-1" });
+
+			const lines = dashboard.render();
+			// 6 steps left at 30s each, one segment in flight.
+			expect(lines[0]).toBe("[allium-evolve] 4/10 steps (40%)  $0.0600 of ~$0.1000  ETA 3m00s");
+			expect(lines).toHaveLength(2);
+			expect(lines[1]).toContain("step 4/6");
+		});
+
+		it("notes that in-flight steps are finishing after a shutdown request", () => {
+			const dashboard = started({ ms: 0 });
+			dashboard.shutdownRequested();
+			expect(dashboard.render().at(-1)).toContain("Finishing in-flight steps");
+		});
+
+		it("draws from run-started on and redraws below each log line on a TTY", () => {
+			const writes: string[] = [];
+			const stream = { isTTY: true, columns: 80, write: (chunk: string) => writes.push(chunk) };
+			const events = new EventBus();
+			const log = console.error;
+			const logged: unknown[] = [];
+			console.error = (...args: unknown[]) => logged.push(args[0]);
+			try {
+				const stop = startDashboard({ events, stream: stream as unknown as NodeJS.WriteStream });
+				console.error("before the run");
+				expect(writes).toEqual([]);
+
+				events.emit({ type: "run-started", totalSteps: 4, completedSteps: 0, spentUsd: 0, estimatedCostUsd: 1, concurrency: 1 });
+				expect(writes).toEqual(["[allium-evolve] 0/4 steps (0%)  $0.0000 of ~$1.0000  ETA -\n"]);
+
+				console.error("during the run");
+				expect(writes.slice(1)).toEqual(["\x1b[1A\r\x1b[0J", writes[0]]);
+
+				stop();
+				expect(logged).toEqual(["before the run", "during the run"]);
+			} finally {
+				console.error = log;
+			}
+		});
+
+		it("leaves console.error alone when the stream is not a TTY", () => {
+			const log = console.error;
+			const stop = startDashboard({ events: new EventBus(), stream: { isTTY: false } as NodeJS.WriteStream });
+			expect(console.error).toBe(log);
+			stop();
+		});
+	});
+});
@@ -2,6 +2,7 @@ import type { DiffChunk, DiffFile } from "../../src/evolution/diff-chunker.js";
 import {
 	chunkDiff,
 	filterIgnoredFiles,
+	formatChunkDiff,
 	groupByDirectory,
 	parseDiffIntoFiles,
 	splitOversizedChunks,
@@ -53,6 +54,8 @@ index abc1234..def5678 100644
 +dist
 `;
 
+const COMMIT_SHA = "a1b2c3d4e5f60718293a4b5c6d7e8f9012345678";
+
 // ---------------------------------------------------------------------------
 // Helper to build a DiffFile without parsing
 // ---------------------------------------------------------------------------
@@ -233,7 +236,7 @@ describe("diff-chunker", () => {
 	describe("UNIT-061: chunkDiff returns needsChunking=false when under threshold", () => {
 		it("returns needsChunking=false and empty chunks", () => {
 			const result = chunkDiff({
-				fullDiff: MULTI_FILE_DIFF,
+				commits: [{ sha: COMMIT_SHA, message: "Add auth", diff: MULTI_FILE_DIFF }],
 				maxDiffTokens: 999999,
 				ignorePatterns: ["*-lock.*"],
 			});
@@ -245,7 +248,7 @@ describe("diff-chunker", () => {
 	describe("UNIT-062: chunkDiff returns needsChunking=true with chunks when over threshold", () => {
 		it("returns needsChunking=true and non-empty chunks", () => {
 			const result = chunkDiff({
-				fullDiff: MULTI_FILE_DIFF,
+				commits: [{ sha: COMMIT_SHA, message: "Add auth", diff: MULTI_FILE_DIFF }],
 				maxDiffTokens: 1, // impossibly low to force chunking
 				ignorePatterns: ["*-lock.*"],
 			});
@@ -255,7 +258,7 @@ describe("diff-chunker", () => {
 
 		it("respects ignore patterns before chunking", () => {
 			const result = chunkDiff({
-				fullDiff: MULTI_FILE_DIFF,
+				commits: [{ sha: COMMIT_SHA, message: "Add auth", diff: MULTI_FILE_DIFF }],
 				maxDiffTokens: 1,
 				ignorePatterns: ["*-lock.*"],
 			});
@@ -265,7 +268,7 @@ describe("diff-chunker", () => {
 
 		it("every chunk contains files with valid tokens", () => {
 			const result = chunkDiff({
-				fullDiff: MULTI_FILE_DIFF,
+				commits: [{ sha: COMMIT_SHA, message: "Add auth", diff: MULTI_FILE_DIFF }],
 				maxDiffTokens: 1,
 				ignorePatterns: [],
 			});
@@ -275,4 +278,85 @@ describe("diff-chunker", () => {
 			}
 		});
 	});
+
+	describe("UNIT-092: A two-commit window is chunked by file, each file tagged with its commit", () => {
+		const FIRST_SHA = "1111111122222222333333334444444455555555";
+		const SECOND_SHA = "6666666677777777888888889999999900000000";
+		const FIRST_DIFF = `diff --git a/src/billing/invoice.ts b/src/billing/invoice.ts
+index abc1234..def5678 100644
+--- a/src/billing/invoice.ts
++++ b/src/billing/invoice.ts
+@@ -1,1 +1,2 @@
+ export const invoice = {};
++export const dueDate = 30;
+diff --git a/lib/auth/session.ts b/lib/auth/session.ts
+index abc1234..def5678 100644
+--- a/lib/auth/session.ts
++++ b/lib/auth/session.ts
+@@ -1,1 +1,2 @@
+ export const session = {};
++export const ttl = 3600;
+`;
+		const SECOND_DIFF = `diff --git a/src/billing/refund.ts b/src/billing/refund.ts
+index abc1234..def5678 100644
+--- a/src/billing/refund.ts
++++ b/src/billing/refund.ts
+@@ -1,1 +1,2 @@
+ export const refund = {};
++export const window = 14;
+`;
+
+		function chunkWindow() {
+			return chunkDiff({
+				commits: [
+					{ sha: FIRST_SHA, message: "Add invoice due dates", diff: FIRST_DIFF },
+					{ sha: SECOND_SHA, message: "Add refund window", diff: SECOND_DIFF },
+				],
+				maxDiffTokens: 1,
+				ignorePatterns: [],
+			}).chunks;
+		}
+
+		it("tags every file with the commit that changed it", () => {
+			const files = chunkWindow().flatMap((c) => c.files.map((f) => [f.path, f.commit?.sha]));
+			expect(files).toEqual([
+				["src/billing/invoice.ts", FIRST_SHA],
+				["src/billing/refund.ts", SECOND_SHA],
+				["lib/auth/session.ts", FIRST_SHA],
+			]);
+		});
+
+		it("formats each chunk with the headings of its commits and one fenced diff", () => {
+			const [src, lib] = chunkWindow().map(formatChunkDiff);
+
+			expect(src).toBe(
+				[
+					"### 11111111 — Add invoice due dates",
+					"- `src/billing/invoice.ts`",
+					"### 66666666 — Add refund window",
+					"- `src/billing/refund.ts`",
+					"```diff",
+					`${FIRST_DIFF.split("diff --git a/lib/")[0]}${SECOND_DIFF}`,
+					"```",
+				].join("\n"),
+			);
+			expect(lib).toBe(
+				[
+					"### 11111111 — Add invoice due dates",
+					"- `lib/auth/session.ts`",
+					"```diff",
+					`diff --git a/lib/${FIRST_DIFF.split("diff --git a/lib/")[1]}`,
+					"```",
+				].join("\n"),
+			);
+		});
+
+		it("keeps commit headings and fences out of the diff text", () => {
+			for (const chunk of chunkWindow()) {
+				const body = formatChunkDiff(chunk).split("```diff\n")[1]!;
+				expect(body.match(/```/g)).toHaveLength(1);
+				expect(body).not.toContain("###");
+			}
+		});
+	});
 });
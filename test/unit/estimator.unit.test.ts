@@ -1,7 +1,8 @@
 import { describe, expect, it } from "vitest";
+import { DEFAULT_MODEL_PRICES, parseModelPrices } from "../../src/claude/pricing.js";
 import type { EvolutionConfig } from "../../src/config.js";
 import type { CommitNode, Segment } from "../../src/dag/types.js";
-import { computeSetupStats, formatSetupStats } from "../../src/evolution/estimator.js";
+import { computeSetupStats, formatSetupStats, projectRunCost } from "../../src/evolution/estimator.js";
 import { StateTracker } from "../../src/state/tracker.js";
 import { mkdtemp, rm } from "node:fs/promises";
 import { tmpdir } from "node:os";
@@ -17,13 +18,31 @@ function makeConfig(overrides: Partial<EvolutionConfig> = {}): EvolutionConfig {
 		defaultModel: "sonnet",
 		opusModel: "opus",
 		maxDiffTokens: 80000,
+		maxChunkConcurrency: 4,
 		parallelBranches: true,
 		maxConcurrency: 4,
 		stateFile: ".allium-state.json",
+		dagCache: true,
 		alliumBranch: "allium/evolution",
+		modularSpec: false,
 		maxParseRetries: 2,
+		resumeSessionOnRetry: false,
+		regressionGuard: "warn",
 		diffIgnorePatterns: ["*-lock.*"],
+		nonDomainPaths: [],
+		batchMaxTokens: 0,
+		batchLayout: "per-commit",
+		modelRules: [],
+		modelPrices: DEFAULT_MODEL_PRICES,
 		alliumSkillsPath: "/home/.claude/skills/allium",
+		reconciliation: {
+			strategy: "n-trunk-commits",
+			interval: 50,
+			sourceIgnorePatterns: [],
+			maxConcurrency: 5,
+		},
+		backend: { kind: "cli", apiBaseUrl: "https://api.anthropic.com" },
+		autoConfirm: false,
 		...overrides,
 	};
 }
@@ -184,7 +203,7 @@ describe("computeSetupStats", () => {
 		expect(stats.criticalPathSteps).toBe(5);
 	});
 
-	it("estimates cost range using model heuristics", () => {
+	it("estimates cost from token prices when there are no commit facts", () => {
 		const dag = makeDag([
 			makeNode("root"),
 			makeNode("c2", ["root"]),
@@ -199,9 +218,159 @@ describe("computeSetupStats", () => {
 
 		const stats = computeSetupStats(dag, segments, tracker, makeConfig(), false);
 
-		// 1 opus step (root): $0.05-$0.25, 1 sonnet step: $0.01-$0.05
-		expect(stats.estimatedCost.low).toBeCloseTo(0.06, 2);
-		expect(stats.estimatedCost.high).toBeCloseTo(0.30, 2);
+		// Empty diffs: opus 8k in / 2k out = $0.27, sonnet = $0.054; uncalibrated band 0.5x–2x
+		expect(stats.estimatedCost.expected).toBeCloseTo(0.324, 3);
+		expect(stats.estimatedCost.low).toBeCloseTo(0.162, 3);
+		expect(stats.estimatedCost.high).toBeCloseTo(0.648, 3);
+		expect(stats.calibration.calibrated).toBe(false);
+	});
+
+	it("counts non-domain commits as free skipped steps", () => {
+		const dag = makeDag([
+			makeNode("root"),
+			makeNode("docs", ["root"]),
+			makeNode("c3", ["docs"]),
+		]);
+
+		const segments: Segment[] = [
+			{ id: "trunk-0", type: "trunk", commits: ["root", "docs", "c3"], forkFrom: null, mergesInto: null, dependsOn: [] },
+		];
+
+		const tracker = new StateTracker(stateFilePath);
+		tracker.initState(makeConfig(), segments, "root");
+
+		const facts = new Map([
+			["root", { changedPaths: ["src/user.ts"] }],
+			["docs", { changedPaths: ["README.md", "pnpm-lock.yaml"] }],
+			["c3", { changedPaths: ["src/team.ts"] }],
+		]);
+		const config = makeConfig({ nonDomainPaths: ["*.md"] });
+		const stats = computeSetupStats(dag, segments, tracker, config, false, facts);
+
+		expect(stats.skippedSteps).toBe(1);
+		expect(stats.modelDistribution).toEqual({ opus: 1, sonnet: 1, skipped: 1 });
+		expect(stats.estimatedCost.expected).toBeCloseTo(0.324, 3);
+		expect(formatSetupStats(stats)).toContain("Non-domain:     1 (no model call)");
+	});
+
+	it("routes steps through modelRules using commit facts", () => {
+		const dag = makeDag([
+			makeNode("root"),
+			makeNode("c2", ["root"]),
+			makeNode("c3", ["c2"]),
+		]);
+
+		const segments: Segment[] = [
+			{ id: "trunk-0", type: "trunk", commits: ["root", "c2", "c3"], forkFrom: null, mergesInto: null, dependsOn: [] },
+		];
+
+		const config = makeConfig({
+			modelRules: [
+				{ name: "domain", model: "opus", paths: ["packages/domain/**"] },
+				{ name: "small", model: "haiku", maxDiffTokens: 100 },
+			],
+		});
+		const tracker = new StateTracker(stateFilePath);
+		tracker.initState(config, segments, "root");
+
+		const facts = new Map([
+			["root", { changedPaths: ["src/app.ts"], diffTokens: 5000 }],
+			["c2", { changedPaths: ["packages/domain/order.ts"], diffTokens: 50 }],
+			["c3", { changedPaths: ["src/app.ts"], diffTokens: 50 }],
+		]);
+		const stats = computeSetupStats(dag, segments, tracker, config, false, facts);
+
+		expect(stats.modelDistribution).toEqual({ opus: 2, haiku: 1 });
+	});
+
+	it("prices each step from its diff size and predicts chunked steps", () => {
+		const dag = makeDag([
+			makeNode("root"),
+			makeNode("small", ["root"]),
+			makeNode("huge", ["small"]),
+		]);
+
+		const segments: Segment[] = [
+			{ id: "trunk-0", type: "trunk", commits: ["root", "small", "huge"], forkFrom: null, mergesInto: null, dependsOn: [] },
+		];
+
+		const config = makeConfig({ defaultModel: "claude-sonnet-4-5", maxDiffTokens: 100_000 });
+		const tracker = new StateTracker(stateFilePath);
+		tracker.initState(config, segments, "root");
+
+		const facts = new Map([
+			["root", { changedPaths: ["src/app.ts"], diffTokens: 2_000, totalDiffTokens: 2_000 }],
+			["small", { changedPaths: ["src/app.ts"], diffTokens: 1_000, totalDiffTokens: 1_000 }],
+			["huge", { changedPaths: ["src/app.ts"], diffTokens: 250_000, totalDiffTokens: 250_000 }],
+		]);
+		const stats = computeSetupStats(dag, segments, tracker, config, false, facts);
+
+		// Full model IDs are priced by family: huge = 3 chunks of (8k + 83.3k) in + 2k out, plus a 14k/2k recombine
+		expect(stats.chunkedSteps).toBe(1);
+		expect(stats.unpricedModels).toEqual([]);
+		expect(stats.expensiveCommits.map((step) => [step.sha, step.chunks])).toEqual([
+			["huge", 3],
+			["root", 1],
+			["small", 1],
+		]);
+		expect(stats.expensiveCommits[0]!.costUsd).toBeCloseTo(3 * (0.274 + 0.03) + (0.042 + 0.03), 3);
+		expect(formatSetupStats(stats)).toContain("Chunked:        1 (diff over maxDiffTokens)");
+		expect(formatSetupStats(stats)).toContain("Most expensive commits (top 3):");
+	});
+
+	it("leaves completed commits out and calibrates from their costs and durations", () => {
+		const shas = ["c0", "c1", "c2", "c3", "c4", "c5", "c6"];
+		const dag = makeDag(shas.map((sha, i) => makeNode(sha, i === 0 ? [] : [shas[i - 1]!])));
+		const segments: Segment[] = [
+			{ id: "trunk-0", type: "trunk", commits: shas, forkFrom: null, mergesInto: null, dependsOn: [] },
+		];
+
+		const tracker = new StateTracker(stateFilePath);
+		tracker.initState(makeConfig(), segments, "c0");
+		for (const sha of shas.slice(0, 5)) {
+			// Predicted at $0.054 for an empty sonnet diff; every step cost half that and took 30s.
+			tracker.recordStep(
+				"trunk-0",
+				{
+					originalSha: sha,
+					alliumSha: `x-${sha}`,
+					model: "sonnet",
+					costUsd: 0.027,
+					timestamp: "2025-01-01T00:00:00Z",
+					diffTokens: 0,
+					durationMs: 30_000,
+				},
+				"spec",
+				"log",
+			);
+		}
+
+		const stats = computeSetupStats(dag, segments, tracker, makeConfig(), true);
+
+		expect(stats.calibration).toMatchObject({ samples: 5, calibrated: true });
+		expect(stats.calibration.costRatio.expected).toBeCloseTo(0.5, 5);
+		expect(stats.expensiveCommits.map((step) => step.sha)).toEqual(["c5", "c6"]);
+		expect(stats.estimatedCost.expected).toBeCloseTo(2 * 0.027, 5);
+		expect(stats.estimatedCost.low).toBeCloseTo(stats.estimatedCost.high, 5);
+		// critical path of 7 steps at the recorded 30s
+		expect(stats.estimatedWallClock.expected).toBe(7 * 30);
+		expect(formatSetupStats(stats)).toContain("calibrated on 5 completed steps");
+	});
+
+	it("lists models without a price instead of pricing them", () => {
+		const dag = makeDag([makeNode("root")]);
+		const segments: Segment[] = [
+			{ id: "trunk-0", type: "trunk", commits: ["root"], forkFrom: null, mergesInto: null, dependsOn: [] },
+		];
+		const config = makeConfig({ opusModel: "mystery-1" });
+		const tracker = new StateTracker(stateFilePath);
+		tracker.initState(config, segments, "root");
+
+		const stats = computeSetupStats(dag, segments, tracker, config, false);
+
+		expect(stats.unpricedModels).toEqual(["mystery-1"]);
+		expect(stats.estimatedCost.expected).toBe(0);
+		expect(formatSetupStats(stats)).toContain("Not priced:     mystery-1 (add to modelPrices)");
 	});
 
 	it("provides wall-clock estimate using concurrency and critical path", () => {
@@ -229,6 +398,29 @@ describe("computeSetupStats", () => {
 	});
 });
 
+describe("projectRunCost", () => {
+	const estimatedCost = { low: 1, expected: 2, high: 4 };
+
+	it("prices the remaining steps at the average cost of completed ones once there are enough", () => {
+		expect(projectRunCost({ costSoFar: 3, completedSteps: 6, remainingSteps: 10, estimatedCost })).toBeCloseTo(8);
+	});
+
+	it("falls back to the token-price estimate before that", () => {
+		expect(projectRunCost({ costSoFar: 1, completedSteps: 2, remainingSteps: 10, estimatedCost })).toBeCloseTo(3);
+		expect(projectRunCost({ costSoFar: 0, completedSteps: 6, remainingSteps: 10, estimatedCost })).toBeCloseTo(2);
+	});
+});
+
+describe("parseModelPrices", () => {
+	it("accepts a price table and rejects malformed entries", () => {
+		const prices = [{ family: "sonnet", inputPerMTok: 3, outputPerMTok: 15 }];
+		expect(parseModelPrices(prices)).toEqual(prices);
+		expect(() => parseModelPrices({})).toThrow(/JSON array/);
+		expect(() => parseModelPrices([{ family: "opus", inputPerMTok: 15 }])).toThrow(/Model price 'opus'/);
+		expect(() => parseModelPrices([{ inputPerMTok: 1, outputPerMTok: -1 }])).toThrow(/Model price #1/);
+	});
+});
+
 describe("formatSetupStats", () => {
 	it("includes all key sections in the output", () => {
 		const dag = makeDag([
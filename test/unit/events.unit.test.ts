@@ -0,0 +1,45 @@
+import { mkdtemp, readFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { createNdjsonWriter, EventBus, type TimedEvent } from "../../src/events.js";
+
+describe("events", () => {
+	describe("UNIT-081: EventBus timestamps events and the NDJSON writer appends one line each", () => {
+		it("delivers timestamped events to every listener until it unsubscribes", () => {
+			const bus = new EventBus();
+			const first: TimedEvent[] = [];
+			const second: TimedEvent[] = [];
+			const unsubscribe = bus.on((event) => first.push(event));
+			bus.on((event) => second.push(event));
+
+			bus.emit({ type: "segment-started", segmentId: "trunk-0", segmentType: "trunk", commits: 3, completedSteps: 0 });
+			unsubscribe();
+			bus.emit({ type: "segment-completed", segmentId: "trunk-0" });
+
+			expect(first.map((event) => event.type)).toEqual(["segment-started"]);
+			expect(second.map((event) => event.type)).toEqual(["segment-started", "segment-completed"]);
+			expect(Number.isNaN(Date.parse(second[0]!.timestamp))).toBe(false);
+		});
+
+		it("emitting without listeners is a no-op", () => {
+			expect(() => new EventBus().emit({ type: "segment-completed", segmentId: "trunk-0" })).not.toThrow();
+		});
+
+		it("appends to an existing file, one JSON object per line", async () => {
+			const path = join(await mkdtemp(join(tmpdir(), "events-")), "events.ndjson");
+			for (const segmentId of ["trunk-0", "branch-0"]) {
+				const bus = new EventBus();
+				const writer = createNdjsonWriter(path);
+				bus.on(writer.listener);
+				bus.emit({ type: "segment-completed", segmentId });
+				writer.close();
+			}
+
+			const lines = (await readFile(path, "utf-8")).trimEnd().split("\n");
+			expect(lines).toHaveLength(2);
+			expect(lines.map((line) => JSON.parse(line).segmentId)).toEqual(["trunk-0", "branch-0"]);
+			expect(JSON.parse(lines[0]!)).toMatchObject({ type: "segment-completed", timestamp: expect.any(String) });
+		});
+	});
+});
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { diffLines } from "../../src/utils/line-diff.js";
+
+describe("diffLines", () => {
+	it("should return an empty string for equal texts", () => {
+		expect(diffLines("a\nb", "a\nb")).toBe("");
+	});
+
+	it("should show changed lines with surrounding context", () => {
+		const before = ["1", "2", "3", "4", "5", "6", "7"].join("\n");
+		const after = ["1", "2", "3", "four", "5", "6", "7"].join("\n");
+		expect(diffLines(before, after, { context: 1 })).toBe(["  3", "- 4", "+ four", "  5"].join("\n"));
+	});
+
+	it("should separate distant hunks", () => {
+		const before = ["a", "b", "c", "d", "e", "f", "g", "h"].join("\n");
+		const after = ["A", "b", "c", "d", "e", "f", "g", "H"].join("\n");
+		expect(diffLines(before, after, { context: 0 })).toBe(["- a", "+ A", "...", "- h", "+ H"].join("\n"));
+	});
+
+	it("should align insertions instead of rewriting the rest", () => {
+		expect(diffLines("a\nb\nc", "a\nx\nb\nc", { context: 0 })).toBe("+ x");
+	});
+
+	it("should truncate long diffs", () => {
+		const before = Array.from({ length: 50 }, (_, i) => `old ${i}`).join("\n");
+		const after = Array.from({ length: 50 }, (_, i) => `new ${i}`).join("\n");
+		const diff = diffLines(before, after, { maxLines: 5 }).split("\n");
+		expect(diff).toHaveLength(6);
+		expect(diff[5]).toBe("... (95 more diff lines)");
+	});
+});
@@ -0,0 +1,374 @@
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createBackend, type ModelRequest } from "../../src/claude/backend.js";
+import { assertSegmentCeiling, BudgetedBackend, flagCostCeiling } from "../../src/claude/backends/budget.js";
+import { FixtureBackend, RecordingBackend, fingerprintRequest } from "../../src/claude/backends/cassette.js";
+import { MessagesApiBackend } from "../../src/claude/backends/messages-api.js";
+import { DEFAULT_MODEL_PRICES } from "../../src/claude/pricing.js";
+import { parseClaudeResponse } from "../../src/claude/parser.js";
+import { defaultConfig } from "../../src/config.js";
+import { GracefulShutdownError, ShutdownSignal } from "../../src/shutdown.js";
+import type { CompletedStep } from "../../src/state/types.js";
+
+function readBody(req: IncomingMessage): Promise<string> {
+	return new Promise((resolve) => {
+		let body = "";
+		req.on("data", (chunk) => {
+			body += chunk;
+		});
+		req.on("end", () => resolve(body));
+	});
+}
+
+describe("model backends", () => {
+	let workDir: string;
+
+	function makeRequest(contextDir: string, overrides: Partial<ModelRequest> = {}): ModelRequest {
+		return {
+			stepType: "evolve",
+			systemPrompt: `Read \`.allium-tmp/${contextDir}/changes.diff\``,
+			userPrompt: "Return JSON.",
+			model: "sonnet",
+			workingDirectory: workDir,
+			alliumSkillsPath: "/tmp/fake-skills",
+			maxTurns: 75,
+			jsonSchema: { type: "object" },
+			contextFiles: [`.allium-tmp/${contextDir}/changes.diff`],
+			...overrides,
+		};
+	}
+
+	beforeAll(async () => {
+		workDir = await mkdtemp(join(tmpdir(), "allium-backend-"));
+		for (const dir of ["aaaa1111", "bbbb2222"]) {
+			await mkdir(join(workDir, ".allium-tmp", dir), { recursive: true });
+			await writeFile(join(workDir, ".allium-tmp", dir, "changes.diff"), "+entity User {}\n");
+		}
+	});
+
+	afterAll(async () => {
+		await rm(workDir, { recursive: true, force: true });
+	});
+
+	describe("UNIT-066: createBackend picks the implementation from config", () => {
+		it("should default to the Claude CLI backend", () => {
+			expect(createBackend(defaultConfig()).kind).toBe("cli");
+		});
+
+		it("should build the api and fixture backends", () => {
+			const api = createBackend(defaultConfig({ backend: { kind: "api", apiBaseUrl: "http://127.0.0.1:1" } }));
+			const fixture = createBackend(defaultConfig({ backend: { kind: "fixture", fixtureDir: workDir } }));
+			expect(api.kind).toBe("api");
+			expect(fixture.kind).toBe("fixture");
+		});
+
+		it("should require a cassette directory for the fixture backend", () => {
+			expect(() => createBackend(defaultConfig({ backend: { kind: "fixture" } }))).toThrow(/cassette directory/);
+		});
+	});
+
+	describe("UNIT-067: Messages API backend forces structured output and returns a CLI envelope", () => {
+		let server: Server;
+		let baseUrl: string;
+		let lastRequest: { headers: IncomingMessage["headers"]; body: Record<string, unknown> } | undefined;
+		let status = 200;
+
+		beforeAll(async () => {
+			server = createServer(async (req, res) => {
+				lastRequest = { headers: req.headers, body: JSON.parse(await readBody(req)) as Record<string, unknown> };
+				res.writeHead(status, { "content-type": "application/json" });
+				if (status !== 200) {
+					res.end(JSON.stringify({ type: "error", error: { message: "overloaded" } }));
+					return;
+				}
+				res.end(
+					JSON.stringify({
+						id: "msg_123",
+						content: [
+							{
+								type: "tool_use",
+								name: "submit_result",
+								input: { spec: "entity User {}", changelog: "- Added User", commitMessage: "Add User" },
+							},
+						],
+						usage: { input_tokens: 1_000_000, output_tokens: 100_000 },
+					}),
+				);
+			});
+			await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+			baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+		});
+
+		afterAll(async () => {
+			await new Promise((resolve) => server.close(resolve));
+		});
+
+		it("should send the resolved model, a forced result tool and the inlined context files", async () => {
+			status = 200;
+			const backend = new MessagesApiBackend(baseUrl, "test-key");
+			await backend.invoke(makeRequest("aaaa1111"));
+
+			const body = lastRequest!.body;
+			expect(lastRequest!.headers["x-api-key"]).toBe("test-key");
+			expect(body.model).toBe("claude-sonnet-4-5");
+			expect(body.tool_choice).toEqual({ type: "tool", name: "submit_result" });
+			expect(body.tools).toEqual([
+				{ name: "submit_result", description: "Submit the final result.", input_schema: { type: "object" } },
+			]);
+			const messages = body.messages as Array<{ content: string }>;
+			expect(messages[0]!.content).toContain('<context-file path=".allium-tmp/aaaa1111/changes.diff">');
+			expect(messages[0]!.content).toContain("+entity User {}");
+		});
+
+		it("should produce an envelope that parses like CLI output, with cost from usage", async () => {
+			status = 200;
+			const backend = new MessagesApiBackend(baseUrl, "test-key");
+			const parsed = parseClaudeResponse(await backend.invoke(makeRequest("aaaa1111")));
+
+			expect(parsed.spec).toBe("entity User {}");
+			expect(parsed.sessionId).toBe("msg_123");
+			expect(parsed.costUsd).toBeCloseTo(4.5);
+		});
+
+		it("should surface HTTP errors with the status code", async () => {
+			status = 529;
+			const backend = new MessagesApiBackend(baseUrl, "test-key");
+			await expect(backend.invoke(makeRequest("aaaa1111"))).rejects.toThrow(/Messages API request failed \(529\)/);
+		});
+
+		it("should require an API key for the default Anthropic endpoint", () => {
+			expect(() => new MessagesApiBackend("https://api.anthropic.com", undefined)).toThrow(/ANTHROPIC_API_KEY/);
+		});
+	});
+
+	describe("UNIT-068: Cassette keys cover step type, model, prompt and context file contents", () => {
+		it("should ignore the random context directory but not the file contents", async () => {
+			const first = await fingerprintRequest(makeRequest("aaaa1111"));
+			expect(await fingerprintRequest(makeRequest("bbbb2222"))).toBe(first);
+			expect(await fingerprintRequest(makeRequest("aaaa1111", { model: "opus" }))).not.toBe(first);
+			expect(await fingerprintRequest(makeRequest("aaaa1111", { stepType: "merge" }))).not.toBe(first);
+
+			await writeFile(join(workDir, ".allium-tmp", "bbbb2222", "changes.diff"), "+entity Team {}\n");
+			expect(await fingerprintRequest(makeRequest("bbbb2222"))).not.toBe(first);
+		});
+	});
+
+	describe("UNIT-069: Recorded cassettes replay, and a miss shows what changed", () => {
+		const envelope = JSON.stringify({ type: "result", structured_output: { spec: "s" } });
+		const inner = { kind: "api" as const, invoke: async () => envelope };
+
+		it("should replay the envelope recorded for an identical request", async () => {
+			const cassetteDir = join(workDir, "cassettes-hit");
+			const recorder = new RecordingBackend(inner, cassetteDir);
+			expect(await recorder.invoke(makeRequest("aaaa1111"))).toBe(envelope);
+
+			const replay = new FixtureBackend(cassetteDir);
+			expect(await replay.invoke(makeRequest("aaaa1111"))).toBe(envelope);
+		});
+
+		it("should fail with a diff against the closest recording", async () => {
+			const cassetteDir = join(workDir, "cassettes-miss");
+			await new RecordingBackend(inner, cassetteDir).invoke(makeRequest("aaaa1111"));
+
+			const replay = new FixtureBackend(cassetteDir);
+			const error = await replay.invoke(makeRequest("bbbb2222")).catch((err: Error) => err);
+
+			expect(error).toBeInstanceOf(Error);
+			const message = (error as Error).message;
+			expect(message).toMatch(/^No cassette for evolve call \(model sonnet\): expected .*evolve-[0-9a-f]{16}\.json\./);
+			expect(message).toMatch(/Closest recording: evolve-[0-9a-f]{16}\.json/);
+			expect(message).toContain("@@ changes.diff\n- +entity User {}\n+ +entity Team {}");
+			expect(message).not.toContain("@@ system prompt");
+		});
+
+		it("should say so when nothing was recorded for the step type", async () => {
+			const replay = new FixtureBackend(join(workDir, "cassettes-miss"));
+			await expect(replay.invoke(makeRequest("aaaa1111", { stepType: "merge" }))).rejects.toThrow(
+				/No recordings for this step type/,
+			);
+		});
+	});
+
+	describe("UNIT-078: The budgeted backend stops before a call would cross maxCostUsd", () => {
+		function costingBackend(costUsd: number) {
+			const calls: string[] = [];
+			const inner = {
+				kind: "api" as const,
+				invoke: async (request: ModelRequest) => {
+					calls.push(request.model);
+					return JSON.stringify({ type: "result", total_cost_usd: costUsd, structured_output: { spec: "s" } });
+				},
+			};
+			return { inner, calls };
+		}
+
+		it("should predict the first call from token prices", async () => {
+			const { inner, calls } = costingBackend(0.01);
+			const signal = new ShutdownSignal();
+			const budgeted = new BudgetedBackend(inner, {
+				maxCostUsd: 0.2,
+				spentUsd: 0,
+				prices: DEFAULT_MODEL_PRICES,
+				shutdownSignal: signal,
+			});
+
+			await expect(budgeted.invoke(makeRequest("aaaa1111", { model: "opus" }))).rejects.toThrow(GracefulShutdownError);
+			expect(calls).toHaveLength(0);
+			expect(signal.reason).toBe("budget");
+		});
+
+		it("should predict later calls from the model's recent costs and count earlier spend", async () => {
+			const { inner, calls } = costingBackend(0.02);
+			const signal = new ShutdownSignal();
+			const budgeted = new BudgetedBackend(inner, {
+				maxCostUsd: 0.15,
+				spentUsd: 0.05,
+				prices: DEFAULT_MODEL_PRICES,
+				shutdownSignal: signal,
+			});
+
+			// 0.05 spent: the first call is predicted from token prices (about 0.054), then each at the 0.02 average
+			for (let i = 0; i < 5; i++) {
+				await budgeted.invoke(makeRequest("aaaa1111"));
+			}
+			await expect(budgeted.invoke(makeRequest("aaaa1111"))).rejects.toThrow(GracefulShutdownError);
+			expect(calls).toHaveLength(5);
+			expect(signal.requested).toBe(true);
+		});
+
+		it("should reserve the prediction for calls still in flight", async () => {
+			let release: () => void = () => {};
+			const inner = {
+				kind: "api" as const,
+				invoke: () =>
+					new Promise<string>((resolve) => {
+						release = () => resolve(JSON.stringify({ total_cost_usd: 0.01 }));
+					}),
+			};
+			const signal = new ShutdownSignal();
+			const budgeted = new BudgetedBackend(inner, {
+				maxCostUsd: 0.08,
+				spentUsd: 0,
+				prices: DEFAULT_MODEL_PRICES,
+				shutdownSignal: signal,
+			});
+
+			const first = budgeted.invoke(makeRequest("aaaa1111"));
+			await expect(budgeted.invoke(makeRequest("bbbb2222"))).rejects.toThrow(GracefulShutdownError);
+			release();
+			await first;
+		});
+	});
+
+	describe("UNIT-079: Steps over maxStepCostUsd are flagged", () => {
+		const step = (costUsd: number): CompletedStep => ({
+			originalSha: "aaaa1111bbbb2222",
+			alliumSha: "cccc3333dddd4444",
+			model: "sonnet",
+			costUsd,
+			timestamp: "2026-01-01T00:00:00.000Z",
+		});
+
+		it("should flag only steps above the ceiling", () => {
+			const config = defaultConfig({ maxStepCostUsd: 0.1 });
+			const cheap = step(0.1);
+			const expensive = step(0.3);
+			flagCostCeiling(cheap, config);
+			flagCostCeiling(expensive, config);
+			expect(cheap.overCostCeiling).toBeUndefined();
+			expect(expensive.overCostCeiling).toBe(true);
+		});
+
+		it("should flag nothing without a ceiling", () => {
+			const expensive = step(5);
+			flagCostCeiling(expensive, defaultConfig());
+			expect(expensive.overCostCeiling).toBeUndefined();
+		});
+	});
+
+	describe("UNIT-093: The budget predicts a model's first call from the size of its request", () => {
+		const answer = JSON.stringify({ type: "result", total_cost_usd: 0.01, structured_output: { spec: "s" } });
+
+		beforeAll(async () => {
+			// About 76k tokens of diff: 0.23 input plus 0.03 output on sonnet.
+			const diff = Array.from({ length: 6000 }, (_, i) => `+export const field${i} = "value ${i}";`).join("\n");
+			await mkdir(join(workDir, ".allium-tmp", "cccc3333"), { recursive: true });
+			await writeFile(join(workDir, ".allium-tmp", "cccc3333", "changes.diff"), `${diff}\n`);
+		});
+
+		function budgetedBackend(maxCostUsd: number) {
+			const calls: string[] = [];
+			const inner = {
+				kind: "api" as const,
+				invoke: async (request: ModelRequest) => {
+					calls.push(request.model);
+					return answer;
+				},
+			};
+			const signal = new ShutdownSignal();
+			const budgeted = new BudgetedBackend(inner, {
+				maxCostUsd,
+				spentUsd: 0,
+				prices: DEFAULT_MODEL_PRICES,
+				shutdownSignal: signal,
+			});
+			return { budgeted, calls, signal };
+		}
+
+		it("should stop before a first call whose context files alone would cross the budget", async () => {
+			const { budgeted, calls, signal } = budgetedBackend(0.15);
+
+			await expect(budgeted.invoke(makeRequest("cccc3333"))).rejects.toThrow(GracefulShutdownError);
+			expect(calls).toHaveLength(0);
+			expect(signal.reason).toBe("budget");
+		});
+
+		it("should let a small first call through on the same budget", async () => {
+			const { budgeted, calls, signal } = budgetedBackend(0.15);
+
+			await budgeted.invoke(makeRequest("aaaa1111"));
+			expect(calls).toEqual(["sonnet"]);
+			expect(signal.requested).toBe(false);
+		});
+	});
+
+	describe("UNIT-094: Steps that would take a segment past maxSegmentCostUsd stop the run", () => {
+		const step = (costUsd: number): CompletedStep => ({
+			originalSha: "aaaa1111bbbb2222",
+			alliumSha: "cccc3333dddd4444",
+			model: "sonnet",
+			costUsd,
+			timestamp: "2026-01-01T00:00:00.000Z",
+		});
+		const check = (steps: CompletedStep[], config = defaultConfig({ maxSegmentCostUsd: 0.1 })) => {
+			const signal = new ShutdownSignal();
+			const run = () =>
+				assertSegmentCeiling({ segmentId: "trunk-0", steps, model: "sonnet", diffTokens: 0, config, shutdownSignal: signal });
+			return { run, signal };
+		};
+
+		it("should predict the next step from the segment's paid steps", () => {
+			// 0.06 spent, next step predicted at the 0.03 average of the paid ones; a skipped step costs nothing.
+			const under = check([step(0.03), step(0), step(0.03)]);
+			expect(under.run).not.toThrow();
+
+			const over = check([step(0.03), step(0.03), step(0.03)]);
+			expect(over.run).toThrow(GracefulShutdownError);
+			expect(over.signal.reason).toBe("budget");
+		});
+
+		it("should predict a segment's first step from its diff", () => {
+			// A sonnet call with no diff is predicted at about 0.054.
+			expect(check([], defaultConfig({ maxSegmentCostUsd: 0.1 })).run).not.toThrow();
+			expect(check([], defaultConfig({ maxSegmentCostUsd: 0.05 })).run).toThrow(GracefulShutdownError);
+		});
+
+		it("should never stop without a ceiling", () => {
+			expect(check([step(5)], defaultConfig()).run).not.toThrow();
+		});
+	});
+});
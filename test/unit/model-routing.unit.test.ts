@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { parseModelRules, routeModel } from "../../src/claude/models.js";
+import { defaultConfig, type ModelRule } from "../../src/config.js";
+
+describe("model routing", () => {
+	const rules: ModelRule[] = [
+		{ name: "domain-on-opus", model: "opus", paths: ["packages/domain/**"] },
+		{ name: "tiny-diffs", model: "haiku", maxTurns: 20, stepTypes: ["evolve"], maxDiffTokens: 2000 },
+		{ name: "branch-fixups", model: "haiku", segmentTypes: ["branch"], messagePattern: "^fixup!" },
+	];
+	const config = defaultConfig({ modelRules: rules });
+
+	// ── UNIT-076 ────────────────────────────────────────────────────────
+	describe("UNIT-076: routeModel takes the first rule whose criteria all hold", () => {
+		it("should prefer earlier rules and report the rule and max turns", () => {
+			expect(
+				routeModel({ stepType: "evolve", diffTokens: 500, changedPaths: ["packages/domain/order.ts"] }, config),
+			).toEqual({ model: "opus", maxTurns: undefined, rule: "domain-on-opus" });
+			expect(routeModel({ stepType: "evolve", diffTokens: 500, changedPaths: ["src/app.ts"] }, config)).toEqual({
+				model: "haiku",
+				maxTurns: 20,
+				rule: "tiny-diffs",
+			});
+		});
+
+		it("should not match rules whose facts are missing or out of range", () => {
+			expect(routeModel({ stepType: "evolve", diffTokens: 2001 }, config).rule).toBeUndefined();
+			expect(routeModel({ stepType: "evolve" }, config).rule).toBeUndefined();
+			expect(routeModel({ stepType: "merge", diffTokens: 10 }, config).rule).toBeUndefined();
+		});
+
+		it("should match segment types and commit messages", () => {
+			const fixup = { stepType: "evolve" as const, diffTokens: 5000, messages: ["fixup! add user"] };
+			expect(routeModel({ ...fixup, segmentType: "branch" }, config).rule).toBe("branch-fixups");
+			expect(routeModel({ ...fixup, segmentType: "trunk" }, config).rule).toBeUndefined();
+		});
+
+		it("should fall back to the step type's default model", () => {
+			expect(routeModel({ stepType: "initial-commit", diffTokens: 50_000 }, config)).toEqual({ model: "opus" });
+			expect(routeModel({ stepType: "sync", diffTokens: 50_000 }, config)).toEqual({ model: "sonnet" });
+		});
+	});
+
+	// ── UNIT-077 ────────────────────────────────────────────────────────
+	describe("UNIT-077: parseModelRules validates a policy read from JSON", () => {
+		it("should accept well-formed rules unchanged", () => {
+			expect(parseModelRules(rules)).toEqual(rules);
+		});
+
+		it("should name the offending rule", () => {
+			expect(() => parseModelRules({})).toThrow(/JSON array/);
+			expect(() => parseModelRules([{ name: "x" }])).toThrow(/Model rule 'x' needs a string "name" and "model"/);
+			expect(() => parseModelRules([{ model: "opus" }])).toThrow(/Model rule #1/);
+			expect(() => parseModelRules([{ name: "x", model: "opus", stepTypes: ["review"] }])).toThrow(
+				/unknown step type 'review'/,
+			);
+			expect(() => parseModelRules([{ name: "x", model: "opus", messagePattern: "(" }])).toThrow(
+				/invalid messagePattern/,
+			);
+		});
+	});
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { defaultConfig } from "../../src/config.js";
+import { isNonDomainDiff, matchesPathPattern } from "../../src/evolution/non-domain.js";
+
+function fileDiff(path: string): string {
+	return `diff --git a/${path} b/${path}
+index abc1234..def5678 100644
+--- a/${path}
++++ b/${path}
+@@ -1,1 +1,2 @@
+ line
++another line
+`;
+}
+
+describe("non-domain", () => {
+	// ── UNIT-074 ────────────────────────────────────────────────────────
+	describe("UNIT-074: matchesPathPattern matches basenames and full paths", () => {
+		it("should match patterns without a slash against the basename at any depth", () => {
+			expect(matchesPathPattern("*.md", "README.md")).toBe(true);
+			expect(matchesPathPattern("*.md", "packages/api/CHANGELOG.md")).toBe(true);
+			expect(matchesPathPattern("LICENSE*", "LICENSE-MIT")).toBe(true);
+			expect(matchesPathPattern("*.md", "src/markdown.ts")).toBe(false);
+		});
+
+		it("should match patterns with a slash against the full path, with ** spanning directories", () => {
+			expect(matchesPathPattern("docs/**", "docs/guide.md")).toBe(true);
+			expect(matchesPathPattern("docs/**", "docs/api/v1/index.html")).toBe(true);
+			expect(matchesPathPattern("docs/**", "packages/docs/index.ts")).toBe(false);
+			expect(matchesPathPattern("**/fixtures/*.json", "test/unit/fixtures/a.json")).toBe(true);
+			expect(matchesPathPattern("**/fixtures/*.json", "fixtures/a.json")).toBe(true);
+			expect(matchesPathPattern("src/*.ts", "src/entities/user.ts")).toBe(false);
+		});
+	});
+
+	// ── UNIT-075 ────────────────────────────────────────────────────────
+	describe("UNIT-075: isNonDomainDiff requires every changed file to be non-domain", () => {
+		const config = defaultConfig();
+
+		it("should skip diffs touching only docs, CI config and ignored files", () => {
+			const diff = [
+				fileDiff("README.md"),
+				fileDiff(".github/workflows/ci.yml"),
+				fileDiff("docs/architecture.md"),
+				fileDiff("pnpm-lock.yaml"),
+			].join("");
+			expect(isNonDomainDiff(diff, config)).toBe(true);
+		});
+
+		it("should keep diffs that also touch source files", () => {
+			const diff = [fileDiff("README.md"), fileDiff("src/entities/user.ts")].join("");
+			expect(isNonDomainDiff(diff, config)).toBe(false);
+		});
+
+		it("should use nonDomainPaths from config in place of the defaults", () => {
+			const custom = defaultConfig({ nonDomainPaths: ["scripts/**"] });
+			expect(isNonDomainDiff(fileDiff("scripts/release.sh"), custom)).toBe(true);
+			expect(isNonDomainDiff(fileDiff("README.md"), custom)).toBe(false);
+		});
+	});
+});
@@ -1,10 +1,10 @@
-import { mkdtemp, readFile, writeFile } from "node:fs/promises";
+import { mkdir, mkdtemp, readFile, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { exec } from "node:child_process";
 import { promisify } from "node:util";
 import { describe, expect, it } from "vitest";
-import { readChangelogFromCommit, readSpecFromCommit } from "../../src/git/read-spec.js";
+import { readChangelogFromCommit, readSpecFromCommit, readSpecModulesFromCommit } from "../../src/git/read-spec.js";
 
 const execAsync = promisify(exec);
 
@@ -47,4 +47,33 @@ describe("read-spec", () => {
 		const changelog = await readChangelogFromCommit(tmp, sha.trim());
 		expect(changelog).toBe("");
 	});
+
+	it("reads a modular spec tree from commit", async () => {
+		const tmp = await mkdtemp(join(tmpdir(), "read-spec-"));
+		await execAsync("git init", { cwd: tmp });
+		await execAsync('git config user.email "test@test"', { cwd: tmp });
+		await execAsync('git config user.name "Test"', { cwd: tmp });
+		await mkdir(join(tmp, "spec", "packages"), { recursive: true });
+		await writeFile(join(tmp, "spec", "_master.allium"), "entity User {}\n");
+		await writeFile(join(tmp, "spec", "packages", "billing.allium"), "entity Invoice {}\n");
+		await execAsync("git add spec && git commit -m 'allium: init'", { cwd: tmp });
+		const { stdout: sha } = await execAsync("git rev-parse HEAD", { cwd: tmp });
+
+		expect(await readSpecFromCommit(tmp, sha.trim())).toBe("entity User {}");
+		expect(await readSpecModulesFromCommit(tmp, sha.trim())).toEqual({
+			"_master.allium": "entity User {}\n",
+			"packages/billing.allium": "entity Invoice {}\n",
+		});
+	});
+
+	it("returns null modules for a single-file spec", async () => {
+		const tmp = await mkdtemp(join(tmpdir(), "read-spec-"));
+		await execAsync("git init", { cwd: tmp });
+		await execAsync('git config user.email "test@test"', { cwd: tmp });
+		await execAsync('git config user.name "Test"', { cwd: tmp });
+		await writeFile(join(tmp, "spec.allium"), "entity User {}");
+		await execAsync("git add spec.allium && git commit -m 'allium: init'", { cwd: tmp });
+		const { stdout: sha } = await execAsync("git rev-parse HEAD", { cwd: tmp });
+		expect(await readSpecModulesFromCommit(tmp, sha.trim())).toBeNull();
+	});
 });
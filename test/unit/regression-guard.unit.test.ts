@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import {
+	findDroppedDeclarations,
+	regressionRetryModel,
+	specSources,
+	updatedSpecSources,
+} from "../../src/evolution/regression-guard.js";
+import { createSpecStore } from "../../src/spec/store.js";
+
+const BEFORE = `entity Order {
+    status: pending | shipped
+}
+
+entity Invoice {
+    total: Decimal
+}
+
+rule ShipOrder {
+    when: ShipRequested(order)
+}
+`;
+
+describe("regression guard", () => {
+	describe("UNIT-090: findDroppedDeclarations reports declarations lost without a changelog note", () => {
+		it("should report missing top-level declarations by keyword and name", () => {
+			const after = "entity Order {\n    status: pending\n}\n";
+
+			expect(findDroppedDeclarations([BEFORE], [after], "## abc12345\n\n- Simplify order states")).toEqual([
+				"entity Invoice",
+				"rule ShipOrder",
+			]);
+		});
+
+		it("should accept removals the changelog reports on a line naming the declaration", () => {
+			const after = "entity Order {\n    status: pending\n}\n";
+			const changelog = "- Removed Invoice; billing moved out\n- ShipOrder was renamed to Dispatch";
+
+			expect(findDroppedDeclarations([BEFORE], [after], changelog)).toEqual([]);
+		});
+
+		it("should not take a bare mention or a longer name as a removal note", () => {
+			const after = "entity Order {}\n\nrule ShipOrder {}\n";
+
+			expect(findDroppedDeclarations([BEFORE], [after], "- Invoice totals now include tax")).toEqual(["entity Invoice"]);
+			expect(findDroppedDeclarations([BEFORE], [after], "- Removed InvoiceLine")).toEqual(["entity Invoice"]);
+		});
+
+		it("should not take a merge note as a removal note", () => {
+			const after = "entity Order {}\n\nrule ShipOrder {}\n";
+
+			expect(findDroppedDeclarations([BEFORE], [after], "- Merged Invoice changes from feature")).toEqual([
+				"entity Invoice",
+			]);
+		});
+
+		it("should skip specs that do not parse", () => {
+			expect(findDroppedDeclarations(["```\nentity Order {}\n```"], ["entity Invoice {}"], "")).toEqual([]);
+		});
+
+		it("should compare the master and every module of a modular spec", () => {
+			const store = createSpecStore({ "_master.allium": "entity User {}", "billing.allium": "entity Invoice {}" });
+			const previous = specSources(store.getMasterSpec(), store);
+			const unchanged = updatedSpecSources({ spec: "entity User {}" }, store);
+			const removed = updatedSpecSources({ spec: "entity User {}", modules: { "billing.allium": "" } }, store);
+
+			expect(findDroppedDeclarations(previous, unchanged, "")).toEqual([]);
+			expect(findDroppedDeclarations(previous, removed, "")).toEqual(["entity Invoice"]);
+			expect(store.getAllModules().has("billing.allium")).toBe(true);
+		});
+	});
+
+	describe("UNIT-091: regressionRetryModel picks the model for the retry", () => {
+		it("should retry with the same model, escalate to opus, or not retry", () => {
+			expect(regressionRetryModel("retry", "sonnet", "opus")).toBe("sonnet");
+			expect(regressionRetryModel("escalate", "sonnet", "opus")).toBe("opus");
+			expect(regressionRetryModel("warn", "sonnet", "opus")).toBeUndefined();
+			expect(regressionRetryModel("off", "sonnet", "opus")).toBeUndefined();
+		});
+	});
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { formatRunSummary, summarizeRun } from "../../src/evolution/run-summary.js";
+import type { CompletedStep, EvolutionState, SegmentProgress } from "../../src/state/types.js";
+
+function step(model: string): CompletedStep {
+	return { originalSha: "a".repeat(40), alliumSha: "b".repeat(40), model, costUsd: 0.01, timestamp: "2026-01-01T00:00:00Z" };
+}
+
+function progress(status: SegmentProgress["status"], models: string[]): SegmentProgress {
+	return { status, completedSteps: models.map(step), currentSpec: "", currentChangelog: "" };
+}
+
+function makeState(segmentProgress: Record<string, SegmentProgress>): EvolutionState {
+	return {
+		segmentProgress,
+		alliumBranchHead: "c".repeat(40),
+		totalCostUsd: 0.05,
+		totalSteps: 5,
+	} as EvolutionState;
+}
+
+describe("run summary", () => {
+	describe("UNIT-080: summarizeRun reports totals, per-model counts and failed segments", () => {
+		const state = makeState({
+			"trunk-0": progress("complete", ["opus", "sonnet", "skipped"]),
+			"branch-0": progress("failed", ["sonnet"]),
+			"trunk-1": progress("in-progress", ["sonnet"]),
+			"branch-1": progress("pending", []),
+		});
+
+		it("should count completed steps per model", () => {
+			const summary = summarizeRun(state, "allium/evolution", "complete");
+			expect(summary).toMatchObject({
+				status: "complete",
+				totalSteps: 5,
+				totalCostUsd: 0.05,
+				alliumHead: "c".repeat(40),
+				modelCounts: { opus: 1, sonnet: 3, skipped: 1 },
+			});
+		});
+
+		it("should list segments still in progress as failed only when the run failed", () => {
+			expect(summarizeRun(state, "allium/evolution", "shutdown").failedSegments).toEqual(["branch-0"]);
+			expect(summarizeRun(state, "allium/evolution", "failed", { error: "boom" })).toMatchObject({
+				failedSegments: ["branch-0", "trunk-1"],
+				error: "boom",
+			});
+		});
+
+		it("should report an empty run when there is no state", () => {
+			expect(summarizeRun(undefined, "allium/evolution", "up-to-date")).toEqual({
+				status: "up-to-date",
+				totalSteps: 0,
+				totalCostUsd: 0,
+				alliumBranch: "allium/evolution",
+				alliumHead: null,
+				failedSegments: [],
+				modelCounts: {},
+			});
+		});
+
+		it("should keep the text summary", () => {
+			expect(formatRunSummary(summarizeRun(state, "allium/evolution", "complete"))).toBe(
+				"[allium-evolve] Evolution complete!\n  Total steps: 5\n  Total cost: $0.0500\n  Allium branch: allium/evolution (cccccccc)",
+			);
+		});
+	});
+});
@@ -131,6 +131,31 @@ describe("seed-resolver", () => {
 		expect(resolved!.shaMap[sha2]).toBe(a2);
 	});
 
+	it("maps every commit of a batch written as one commit and anchors on the last", async () => {
+		const tmp = await mkdtemp(join(tmpdir(), "seed-resolver-"));
+		await initGitRepo(tmp);
+		const shas: string[] = [];
+		for (const name of ["a", "b"]) {
+			await writeFile(join(tmp, "f"), name);
+			await execAsync(`git add f && git commit -m '${name}'`, { cwd: tmp });
+			shas.push((await execAsync("git rev-parse HEAD", { cwd: tmp })).stdout.trim());
+		}
+		await execAsync("git checkout -b allium/evolution", { cwd: tmp });
+		await writeFile(join(tmp, "spec.allium"), "entity User {}");
+		await writeFile(join(tmp, "allium-changelog.md"), "");
+		await execAsync("git add spec.allium allium-changelog.md", { cwd: tmp });
+		await commitWithMessage(
+			tmp,
+			`allium: batch\n\n${formatOriginalLine(shas[0]!, "a")}\n${formatOriginalLine(shas[1]!, "b")}\n`,
+		);
+		const { stdout: tipSha } = await execAsync("git rev-parse HEAD", { cwd: tmp });
+
+		const resolved = await resolveFromAlliumBranch(tmp, "allium/evolution");
+		expect(resolved!.startAfterSha).toBe(shas[1]);
+		expect(resolved!.lastProcessedMessage).toBe("b");
+		expect(resolved!.shaMap).toEqual({ [shas[0]!]: tipSha.trim(), [shas[1]!]: tipSha.trim() });
+	});
+
 	it("buildShaMapFromAlliumBranch builds original->allium map", async () => {
 		const tmp = await mkdtemp(join(tmpdir(), "seed-resolver-"));
 		const { sha1, sha2, a1amended, a2 } = await makeTwoCommitAlliumSetup(tmp);
@@ -30,6 +30,17 @@ describe("ShutdownSignal", () => {
 		signal.request();
 		expect(() => signal.assertContinue()).toThrow(GracefulShutdownError);
 	});
+
+	it("notifies onRequest listeners once, until they unsubscribe", () => {
+		const signal = new ShutdownSignal();
+		const calls: string[] = [];
+		const unsubscribe = signal.onRequest((reason, message) => calls.push(`${reason}: ${message}`));
+		signal.onRequest((reason) => calls.push(`second ${reason}`));
+		unsubscribe();
+		signal.request("Budget reached", "budget");
+		signal.request();
+		expect(calls).toEqual(["second budget"]);
+	});
 });
 
 describe("GracefulShutdownError", () => {
@@ -1,7 +1,10 @@
 import { describe, expect, it } from "vitest";
 import {
+	applySpecUpdate,
+	cloneSpecStore,
 	createSpecStore,
 	resolveModulePath,
+	restoreSpecStore,
 	specStoreFromSingleSpec,
 } from "../../src/spec/store.js";
 
@@ -146,6 +149,46 @@ describe("SpecStore", () => {
 	});
 });
 
+describe("applySpecUpdate", () => {
+	it("should replace the master and each listed module, leaving the rest untouched", () => {
+		const store = createSpecStore({
+			"_master.allium": "master v1",
+			"entities/user.allium": "user v1",
+			"routes/auth.allium": "auth v1",
+		});
+		applySpecUpdate(store, {
+			spec: "master v2",
+			modules: { "entities/user.allium": "user v2", "entities/team.allium": "team v1" },
+		});
+		expect(store.getMasterSpec()).toBe("master v2");
+		expect(store.getModuleSpec("entities/user.allium")).toBe("user v2");
+		expect(store.getModuleSpec("entities/team.allium")).toBe("team v1");
+		expect(store.getModuleSpec("routes/auth.allium")).toBe("auth v1");
+	});
+
+	it("should remove modules set to an empty string", () => {
+		const store = createSpecStore({ "_master.allium": "master", "routes/auth.allium": "auth" });
+		applySpecUpdate(store, { spec: "master", modules: { "routes/auth.allium": "" } });
+		expect(store.getAllModules().size).toBe(0);
+		expect(store.toFileMap().has("spec/routes/auth.allium")).toBe(false);
+	});
+});
+
+describe("cloneSpecStore / restoreSpecStore", () => {
+	it("should clone into an independent store", () => {
+		const store = createSpecStore({ "_master.allium": "master", "entities.allium": "entities" });
+		const clone = cloneSpecStore(store);
+		clone.setModuleSpec("entities.allium", "changed");
+		expect(store.getModuleSpec("entities.allium")).toBe("entities");
+	});
+
+	it("should replace all contents when restoring", () => {
+		const store = createSpecStore({ "_master.allium": "old", "stale.allium": "stale" });
+		restoreSpecStore(store, { "_master.allium": "new", "fresh.allium": "fresh" });
+		expect(store.toSerializable()).toEqual({ "_master.allium": "new", "fresh.allium": "fresh" });
+	});
+});
+
 describe("resolveModulePath", () => {
 	it("should resolve to exact matching module", () => {
 		const modules = new Set(["entities/user.allium", "entities/team.allium"]);
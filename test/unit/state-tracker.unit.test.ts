@@ -2,10 +2,11 @@ import { mkdtemp, readFile, rm } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { DEFAULT_MODEL_PRICES } from "../../src/claude/pricing.js";
 import type { EvolutionConfig } from "../../src/config.js";
 import type { Segment } from "../../src/dag/types.js";
 import { StateTracker } from "../../src/state/tracker.js";
-import type { CompletedMerge, CompletedStep } from "../../src/state/types.js";
+import type { CompletedMerge, CompletedReconciliation, CompletedStep } from "../../src/state/types.js";
 
 function makeConfig(overrides: Partial<EvolutionConfig> = {}): EvolutionConfig {
 	return {
@@ -16,12 +17,22 @@ function makeConfig(overrides: Partial<EvolutionConfig> = {}): EvolutionConfig {
 		defaultModel: "sonnet",
 		opusModel: "opus",
 		maxDiffTokens: 80000,
+		maxChunkConcurrency: 4,
 		parallelBranches: true,
 		maxConcurrency: 4,
 		stateFile: ".allium-state.json",
+		dagCache: true,
 		alliumBranch: "allium/evolution",
+		modularSpec: false,
 		maxParseRetries: 2,
+		resumeSessionOnRetry: false,
+		regressionGuard: "warn",
 		diffIgnorePatterns: ["*-lock.*"],
+		nonDomainPaths: [],
+		batchMaxTokens: 0,
+		batchLayout: "per-commit",
+		modelRules: [],
+		modelPrices: DEFAULT_MODEL_PRICES,
 		alliumSkillsPath: "/home/.claude/skills/allium",
 		reconciliation: {
 			strategy: "n-trunk-commits",
@@ -29,6 +40,7 @@ function makeConfig(overrides: Partial<EvolutionConfig> = {}): EvolutionConfig {
 			sourceIgnorePatterns: [],
 			maxConcurrency: 5,
 		},
+		backend: { kind: "cli", apiBaseUrl: "https://api.anthropic.com" },
 		autoConfirm: false,
 		...overrides,
 	};
@@ -55,6 +67,21 @@ function makeSegments(): Segment[] {
 	];
 }
 
+function makeReconciliation(overrides: Partial<CompletedReconciliation> = {}): CompletedReconciliation {
+	return {
+		segmentId: "trunk-0",
+		atStep: 1,
+		atSha: "aaa111",
+		alliumSha: "rec999",
+		model: "opus",
+		costUsd: 0.5,
+		findingsCount: 0,
+		skipped: false,
+		timestamp: new Date().toISOString(),
+		...overrides,
+	};
+}
+
 function makeStep(overrides: Partial<CompletedStep> = {}): CompletedStep {
 	return {
 		originalSha: "aaa111",
@@ -201,8 +228,8 @@ describe("StateTracker", () => {
 			const merge: CompletedMerge = {
 				mergeSha: "merge111",
 				alliumSha: "allium-merge111",
-				trunkSegmentId: "trunk-0",
-				branchSegmentId: "branch-1",
+				baseSegmentId: "trunk-0",
+				mergedSegmentIds: ["branch-1"],
 				timestamp: new Date().toISOString(),
 			};
 
@@ -220,15 +247,15 @@ describe("StateTracker", () => {
 			tracker.recordMerge({
 				mergeSha: "m1",
 				alliumSha: "a1",
-				trunkSegmentId: "trunk-0",
-				branchSegmentId: "branch-1",
+				baseSegmentId: "trunk-0",
+				mergedSegmentIds: ["branch-1"],
 				timestamp: "2025-01-01T00:00:00Z",
 			});
 			tracker.recordMerge({
 				mergeSha: "m2",
 				alliumSha: "a2",
-				trunkSegmentId: "trunk-0",
-				branchSegmentId: "branch-1",
+				baseSegmentId: "trunk-0",
+				mergedSegmentIds: ["branch-1"],
 				timestamp: "2025-01-02T00:00:00Z",
 			});
 
@@ -473,4 +500,66 @@ describe("StateTracker", () => {
 			).toThrow("Unknown segment");
 		});
 	});
+
+	describe("UNIT-063: recordReconciliation and reconciliation-aware tips", () => {
+		it("should reset counters, add cost, and remap the original sha to the reconciliation commit", () => {
+			const tracker = new StateTracker(stateFilePath);
+			tracker.initState(makeConfig(), makeSegments(), "aaa111");
+			tracker.recordStep("trunk-0", makeStep({ originalSha: "aaa111", alliumSha: "xxx111" }), "spec", "log");
+			tracker.addDiffTokens(1200);
+
+			tracker.recordReconciliation(makeReconciliation({ atStep: 1 }), "aaa111", {
+				currentSpec: "reconciled spec",
+				currentChangelog: "log + reconciliation",
+			});
+
+			const state = tracker.getState();
+			expect(state.reconciliations).toHaveLength(1);
+			expect(tracker.getReconciliationState()).toEqual({
+				lastStep: 1,
+				lastSha: "aaa111",
+				cumulativeDiffTokens: 0,
+			});
+			expect(state.totalCostUsd).toBeCloseTo(0.55);
+			expect(state.shaMap.aaa111).toBe("rec999");
+			expect(tracker.getSegmentProgress("trunk-0")!.currentSpec).toBe("reconciled spec");
+		});
+
+		it("should return the reconciliation commit as the segment tip when it sits on the last step", () => {
+			const tracker = new StateTracker(stateFilePath);
+			tracker.initState(makeConfig(), makeSegments(), "aaa111");
+			tracker.recordStep("trunk-0", makeStep({ originalSha: "aaa111", alliumSha: "xxx111" }), "spec", "log");
+			tracker.recordReconciliation(makeReconciliation({ atSha: "aaa111" }), "aaa111");
+
+			expect(tracker.getSegmentTipAlliumSha("trunk-0")).toBe("rec999");
+
+			tracker.recordStep("trunk-0", makeStep({ originalSha: "bbb222", alliumSha: "xxx222" }), "spec", "log");
+			expect(tracker.getSegmentTipAlliumSha("trunk-0")).toBe("xxx222");
+		});
+
+		it("should ignore skipped reconciliations when resolving the tip", () => {
+			const tracker = new StateTracker(stateFilePath);
+			tracker.initState(makeConfig(), makeSegments(), "aaa111");
+			tracker.recordStep("trunk-0", makeStep({ originalSha: "aaa111", alliumSha: "xxx111" }), "spec", "log");
+			tracker.recordReconciliation(makeReconciliation({ skipped: true, alliumSha: "xxx111" }), "aaa111");
+
+			expect(tracker.getSegmentTipAlliumSha("trunk-0")).toBe("xxx111");
+			expect(tracker.getState().shaMap.aaa111).toBe("xxx111");
+		});
+
+		it("should count trunk steps only, using commit length for completed segments", () => {
+			const tracker = new StateTracker(stateFilePath);
+			tracker.initState(makeConfig(), makeSegments(), "aaa111");
+			tracker.recordStep("trunk-0", makeStep({ originalSha: "aaa111" }), "spec", "log");
+			tracker.recordStep("branch-1", makeStep({ originalSha: "ddd444" }), "spec", "log");
+			expect(tracker.getTrunkStepCount()).toBe(1);
+
+			tracker.seedSegmentProgress(
+				"trunk-0",
+				{ status: "complete", completedSteps: [makeStep({ originalSha: "ccc333" })], currentSpec: "", currentChangelog: "" },
+				3,
+			);
+			expect(tracker.getTrunkStepCount()).toBe(3);
+		});
+	});
 });
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { extractDeclarations } from "../../src/history/timeline.js";
+
+const SPEC = `-- Billing domain
+entity Subscription {
+    status: active | paused -- braces in comments { are ignored
+    plan: Plan
+}
+
+entity SubscriptionPlan {
+    price: Money
+}
+
+rule PauseSubscription {
+    when: Subscription.pause()
+    ensures: status = paused
+}
+
+relationship Subscription belongs_to Customer
+
+rule ExpireTrials {
+    when: TrialEnded()
+    for Subscription s:
+        ensures: s.status = paused
+}
+`;
+
+describe("timeline", () => {
+	describe("UNIT-085: extractDeclarations finds the top-level declarations of a name", () => {
+		it("captures each block through its closing brace and one-line declarations alone", () => {
+			expect(extractDeclarations(SPEC, "Subscription")).toEqual([
+				{
+					kind: "entity",
+					text: "entity Subscription {\n    status: active | paused -- braces in comments { are ignored\n    plan: Plan\n}",
+				},
+				{ kind: "relationship", text: "relationship Subscription belongs_to Customer" },
+			]);
+		});
+
+		it("does not match longer names, references or comments", () => {
+			expect(extractDeclarations(SPEC, "SubscriptionPlan")?.map((decl) => decl.kind)).toEqual(["entity"]);
+			expect(extractDeclarations(SPEC, "Plan")).toEqual([]);
+			expect(extractDeclarations(SPEC, "Billing")).toEqual([]);
+		});
+
+		it("finds rules", () => {
+			expect(extractDeclarations(SPEC, "PauseSubscription")?.[0]?.text.split("\n")).toHaveLength(4);
+		});
+
+		it("ignores nested lines that name it, such as a `for Subscription s:` clause", () => {
+			expect(extractDeclarations(SPEC, "Subscription")?.map((decl) => decl.kind)).toEqual(["entity", "relationship"]);
+			expect(extractDeclarations(SPEC, "ExpireTrials")?.[0]?.text).toContain("for Subscription s:");
+		});
+
+		it("returns undefined for a spec that does not parse", () => {
+			expect(extractDeclarations("entity Subscription {", "Subscription")).toBeUndefined();
+		});
+	});
+});